@@ -1,24 +1,52 @@
 import { useState } from "@wordpress/element";
-import { __ } from "@wordpress/i18n";
+import { __, _n, sprintf } from "@wordpress/i18n";
 import { CopyButton } from "./CopyButton";
 import { DownloadButton } from "./DownloadButton";
+import { PlanDiff } from "./PlanDiff";
 import { QueryCard } from "./QueryCard";
-import type { AnalysisResponse } from "../types";
+import { TemplateGroupSummary } from "./TemplateGroupSummary";
+import { buildLlmExport } from "../utils/llmExport";
+import type { AnalysisResponse, QueryResult } from "../types";
 
 interface AnalysisReportProps {
   response: AnalysisResponse;
 }
 
-type TabType = "visual" | "llm";
+type TabType = "visual" | "compare" | "llm";
+
+interface QueryGroup {
+  /** Template the queries were expanded from; null for a single plain query */
+  templateId: string | null;
+  queries: { query: QueryResult; index: number }[];
+}
+
+// Consecutive results of the same template, i.e. one per value set, form a group
+function groupByTemplate(queries: QueryResult[]): QueryGroup[] {
+  const groups: QueryGroup[] = [];
+
+  queries.forEach((query, index) => {
+    const templateId = query.binding?.template_id ?? null;
+    const last = groups[groups.length - 1];
+    if (templateId !== null && last?.templateId === templateId) {
+      last.queries.push({ query, index });
+    } else {
+      groups.push({ templateId, queries: [{ query, index }] });
+    }
+  });
+
+  return groups;
+}
 
 export function AnalysisReport({ response }: AnalysisReportProps) {
   const [activeTab, setActiveTab] = useState<TabType>("visual");
 
-  if (!response.queries || !response.summary) {
+  // The summary is missing while queries are still being analyzed
+  if (!response.queries) {
     return null;
   }
 
-  const { queries, complete_output } = response;
+  const { queries, server } = response;
+  const exportOutput = buildLlmExport(response);
 
   return (
     <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden">
@@ -27,7 +55,7 @@ export function AnalysisReport({ response }: AnalysisReportProps) {
           {__("SQL Query Analysis Report", "simple-sql-query-analyzer")}
         </h3>
         <CopyButton
-          content={complete_output}
+          content={exportOutput}
           label={__("Copy to LLM", "simple-sql-query-analyzer")}
         />
       </div>
@@ -44,6 +72,16 @@ export function AnalysisReport({ response }: AnalysisReportProps) {
         >
           {__("Visual Analysis", "simple-sql-query-analyzer")}
         </button>
+        <button
+          onClick={() => setActiveTab("compare")}
+          className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors cursor-pointer ${
+            activeTab === "compare"
+              ? "border-blue-600 text-blue-600 bg-blue-50"
+              : "border-transparent text-gray-500 hover:text-gray-900 hover:border-gray-300 hover:bg-gray-50"
+          }`}
+        >
+          {__("Compare Plans", "simple-sql-query-analyzer")}
+        </button>
         <button
           onClick={() => setActiveTab("llm")}
           className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors cursor-pointer ${
@@ -64,20 +102,71 @@ export function AnalysisReport({ response }: AnalysisReportProps) {
             {/* Summary Metrics */}
             {/* <SummaryMetrics summary={summary} /> */}
 
+            {server && !server.supports_tree && (
+              <p className="text-xs text-gray-600 bg-gray-50 border border-gray-200 rounded px-3 py-2 m-0">
+                {sprintf(
+                  /* translators: 1: database server, e.g. MariaDB, 2: server version */
+                  __(
+                    "%1$s %2$s has no EXPLAIN FORMAT=TREE: plans are shown as the tabular EXPLAIN, and cost-based checks are limited.",
+                    "simple-sql-query-analyzer",
+                  ),
+                  server.type,
+                  server.version,
+                )}
+              </p>
+            )}
+
             {/* Query Cards */}
             <div className="space-y-3">
-              {queries.map((query, index) => (
-                <QueryCard
-                  key={query.id}
-                  query={query}
-                  index={index}
-                  totalQueries={queries.length}
-                />
-              ))}
+              {groupByTemplate(queries).map((group) => {
+                const cards = group.queries.map(({ query, index }) => (
+                  <QueryCard
+                    key={query.id}
+                    query={query}
+                    index={index}
+                    totalQueries={queries.length}
+                  />
+                ));
+
+                if (group.templateId === null) {
+                  return cards;
+                }
+
+                const setQueries = group.queries.map(({ query }) => query);
+                return (
+                  <div
+                    key={group.templateId}
+                    className="border border-blue-200 rounded-lg p-3 space-y-3"
+                  >
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-900 m-0">
+                        {setQueries[0].binding?.label}
+                      </h4>
+                      <p className="text-xs text-gray-500 m-0">
+                        {sprintf(
+                          /* translators: %d is the number of value sets */
+                          _n(
+                            "Template analyzed with %d value set",
+                            "Template analyzed with %d value sets",
+                            setQueries.length,
+                            "simple-sql-query-analyzer",
+                          ),
+                          setQueries.length,
+                        )}
+                      </p>
+                    </div>
+                    <TemplateGroupSummary queries={setQueries} />
+                    {cards}
+                  </div>
+                );
+              })}
             </div>
           </div>
         )}
 
+        {/* Compare Plans Tab */}
+        {activeTab === "compare" && <PlanDiff queries={queries} />}
+
         {/* LLM Export Tab */}
         {activeTab === "llm" && (
           <div className="space-y-4">
@@ -92,16 +181,16 @@ export function AnalysisReport({ response }: AnalysisReportProps) {
             </div>
             <div className="relative">
               <pre className="bg-gray-50 border border-gray-200 rounded p-4 text-xs font-mono text-gray-700 overflow-x-auto max-h-96 whitespace-pre-wrap break-words">
-                {complete_output}
+                {exportOutput}
               </pre>
             </div>
             <div className="flex gap-3">
               <CopyButton
-                content={complete_output}
+                content={exportOutput}
                 label={__("Copy for LLM", "simple-sql-query-analyzer")}
               />
               <DownloadButton
-                content={complete_output}
+                content={exportOutput}
                 label={__("Download Report", "simple-sql-query-analyzer")}
               />
             </div>
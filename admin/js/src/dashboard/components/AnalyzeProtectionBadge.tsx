@@ -0,0 +1,51 @@
+import { __, sprintf } from "@wordpress/i18n";
+import type { AnalyzeProtection, AnalyzeProtectionMode } from "../types";
+
+interface AnalyzeProtectionBadgeProps {
+  protection: AnalyzeProtection;
+  /** Label of the value set or query the protection applied to */
+  label?: string;
+}
+
+const MODE_STYLES: Record<AnalyzeProtectionMode, string> = {
+  read_only: "bg-green-100 text-green-800",
+  rollback: "bg-blue-100 text-blue-800",
+  refused: "bg-red-100 text-red-800",
+};
+
+function getModeLabel(mode: AnalyzeProtectionMode): string {
+  switch (mode) {
+    case "read_only":
+      return __("Read-only transaction", "simple-sql-query-analyzer");
+    case "rollback":
+      return __("Rolled back", "simple-sql-query-analyzer");
+    case "refused":
+      return __("ANALYZE refused", "simple-sql-query-analyzer");
+  }
+}
+
+/**
+ * How ANALYZE was kept from changing data for a query, with its time limit.
+ */
+export function AnalyzeProtectionBadge({ protection, label }: AnalyzeProtectionBadgeProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      {label && <span className="text-gray-600">{label}</span>}
+      <span className={`px-1.5 py-0.5 rounded font-medium ${MODE_STYLES[protection.mode]}`}>
+        {getModeLabel(protection.mode)}
+      </span>
+      {protection.mode !== "refused" && (
+        <span className="text-gray-500">
+          {protection.time_limit !== null
+            ? sprintf(
+                /* translators: %s is a duration in seconds */
+                __("time limit %ss", "simple-sql-query-analyzer"),
+                String(protection.time_limit / 1000),
+              )
+            : __("MySQL limits only lock waits for writes", "simple-sql-query-analyzer")}
+        </span>
+      )}
+      {protection.message && <span className="text-red-700">{protection.message}</span>}
+    </div>
+  );
+}
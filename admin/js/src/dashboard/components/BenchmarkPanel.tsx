@@ -0,0 +1,101 @@
+import { __, _n, sprintf } from "@wordpress/i18n";
+import { getHistogram } from "../utils/benchmark";
+import { formatTime } from "../utils/format";
+import type { BenchmarkResult } from "../types";
+
+interface BenchmarkPanelProps {
+  benchmark: BenchmarkResult;
+}
+
+/**
+ * Statistics and distribution of the measured runs of a benchmarked query.
+ */
+export function BenchmarkPanel({ benchmark }: BenchmarkPanelProps) {
+  const { stats, times } = benchmark;
+  const bins = getHistogram(times);
+  const maxCount = Math.max(1, ...bins.map((bin) => bin.count));
+
+  const metrics = stats
+    ? [
+        { label: __("Min", "simple-sql-query-analyzer"), value: stats.min },
+        { label: __("Median", "simple-sql-query-analyzer"), value: stats.median },
+        { label: __("p95", "simple-sql-query-analyzer"), value: stats.p95 },
+        { label: __("Max", "simple-sql-query-analyzer"), value: stats.max },
+        { label: __("Std dev", "simple-sql-query-analyzer"), value: stats.stddev },
+      ]
+    : [];
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <h4 className="text-xs font-semibold text-gray-700 mb-3">
+        {__("Benchmark", "simple-sql-query-analyzer")}
+        <span className="ml-2 font-normal text-gray-500">
+          {sprintf(
+            /* translators: 1: number of measured runs, 2: number of warm-up runs */
+            _n(
+              "%1$d run after %2$d warm-up",
+              "%1$d runs after %2$d warm-up",
+              times.length,
+              "simple-sql-query-analyzer",
+            ),
+            times.length,
+            benchmark.warmup,
+          )}
+        </span>
+      </h4>
+
+      {metrics.length > 0 && (
+        <div className="grid grid-cols-5 gap-2 mb-3">
+          {metrics.map((metric) => (
+            <div key={metric.label} className="bg-gray-50 rounded px-2 py-1">
+              <div className="text-xs text-gray-500">{metric.label}</div>
+              <div className="text-sm font-mono font-semibold text-gray-900">
+                {formatTime(metric.value)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {bins.length > 1 && (
+        <div>
+          <div className="flex items-end gap-px h-16">
+            {bins.map((bin, i) => (
+              <div
+                key={i}
+                className="flex-1 bg-blue-400 hover:bg-blue-600 rounded-t"
+                style={{ height: `${(bin.count / maxCount) * 100}%` }}
+                title={sprintf(
+                  /* translators: 1: number of runs, 2: start of the time range, 3: end of the time range */
+                  _n(
+                    "%1$d run between %2$s and %3$s",
+                    "%1$d runs between %2$s and %3$s",
+                    bin.count,
+                    "simple-sql-query-analyzer",
+                  ),
+                  bin.count,
+                  formatTime(bin.start),
+                  formatTime(bin.end),
+                )}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 font-mono mt-1">
+            <span>{formatTime(bins[0].start)}</span>
+            <span>{formatTime(bins[bins.length - 1].end)}</span>
+          </div>
+        </div>
+      )}
+
+      {benchmark.error && (
+        <p className="mt-2 text-xs text-red-700">
+          {sprintf(
+            /* translators: %s is the database error that stopped the runs */
+            __("Runs stopped: %s", "simple-sql-query-analyzer"),
+            benchmark.error,
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
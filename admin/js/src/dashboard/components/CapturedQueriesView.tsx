@@ -0,0 +1,309 @@
+import { Fragment, useCallback, useEffect, useState } from "@wordpress/element";
+import apiFetch from "@wordpress/api-fetch";
+import { __, _n, sprintf } from "@wordpress/i18n";
+import { Alert } from "./Alert";
+import { formatTime } from "../utils/format";
+import type { CaptureResponse, CapturedQuery, QueryInput } from "../types";
+
+interface CapturedQueriesViewProps {
+  onImport: (queries: QueryInput[]) => void;
+}
+
+const DURATIONS = [5, 15, 60, 240];
+
+export function CapturedQueriesView({ onImport }: CapturedQueriesViewProps) {
+  const [capture, setCapture] = useState<CaptureResponse | null>(null);
+  const [urlPattern, setUrlPattern] = useState("");
+  const [minutes, setMinutes] = useState(DURATIONS[1]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(
+    async (options: { method?: string; data?: object; path?: string } = {}) => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const data: CaptureResponse = await apiFetch({
+          path: "/simple-sql-query-analyzer/v1/capture",
+          ...options,
+        });
+        setCapture(data);
+        setSelected(
+          (current) => new Set([...current].filter((id) => data.queries.some((q) => q.id === id))),
+        );
+      } catch (err) {
+        setError(
+          err instanceof Error
+            ? err.message
+            : __("An error occurred while loading captured queries", "simple-sql-query-analyzer"),
+        );
+      } finally {
+        setLoading(false);
+      }
+    },
+    [],
+  );
+
+  useEffect(() => {
+    void request();
+  }, [request]);
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const importSelected = () => {
+    const queries = capture?.queries.filter((q) => selected.has(q.id)) ?? [];
+    onImport(
+      queries.map((q, idx) => ({
+        id: `${Date.now()}-${idx}`,
+        label: getCallerLabel(q),
+        query: q.query,
+      })),
+    );
+    setSelected(new Set());
+  };
+
+  const settings = capture?.settings;
+  const queries = capture?.queries ?? [];
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+      <div>
+        <p className="text-xs text-gray-500 mb-3">
+          {__(
+            "While capture is on, every query WordPress runs is recorded with its caller and time, for requests whose URL contains the filter. Browse the pages you want to profile in another tab, then come back and refresh.",
+            "simple-sql-query-analyzer",
+          )}
+        </p>
+
+        {settings?.active ? (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="px-2 py-1 rounded bg-green-100 text-green-800 text-xs font-medium">
+              {settings.url_pattern
+                ? sprintf(
+                    /* translators: 1: URL filter, 2: date and time */
+                    __("Capturing URLs containing “%1$s” until %2$s", "simple-sql-query-analyzer"),
+                    settings.url_pattern,
+                    new Date(settings.expires ?? "").toLocaleTimeString(),
+                  )
+                : sprintf(
+                    /* translators: %s is a date and time */
+                    __("Capturing all requests until %s", "simple-sql-query-analyzer"),
+                    new Date(settings.expires ?? "").toLocaleTimeString(),
+                  )}
+            </span>
+            <button
+              type="button"
+              disabled={loading}
+              onClick={() => request({ method: "DELETE" })}
+              className="px-3 py-1 text-xs text-red-600 border border-red-200 hover:bg-red-50 rounded cursor-pointer disabled:opacity-50"
+            >
+              {__("Stop capture", "simple-sql-query-analyzer")}
+            </button>
+          </div>
+        ) : (
+          <form
+            className="flex flex-wrap gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              void request({ method: "POST", data: { url_pattern: urlPattern, minutes } });
+            }}
+          >
+            <input
+              type="text"
+              value={urlPattern}
+              onChange={(e) => setUrlPattern(e.target.value)}
+              placeholder={__(
+                "URL contains, e.g. /shop/ (empty for all)",
+                "simple-sql-query-analyzer",
+              )}
+              className="flex-1 min-w-48 px-3 py-2 border border-gray-300 rounded text-sm"
+            />
+            <select
+              value={minutes}
+              onChange={(e) => setMinutes(Number(e.target.value))}
+              className="px-2 py-2 border border-gray-300 rounded text-sm"
+            >
+              {DURATIONS.map((duration) => (
+                <option key={duration} value={duration}>
+                  {sprintf(
+                    /* translators: %d is a number of minutes */
+                    _n("%d minute", "%d minutes", duration, "simple-sql-query-analyzer"),
+                    duration,
+                  )}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 bg-blue-600 text-white rounded text-sm font-medium hover:bg-blue-700 cursor-pointer disabled:opacity-50"
+            >
+              {__("Start capture", "simple-sql-query-analyzer")}
+            </button>
+          </form>
+        )}
+      </div>
+
+      {error && (
+        <Alert
+          type="error"
+          title={__("Error", "simple-sql-query-analyzer")}
+          message={error}
+          onDismiss={() => setError(null)}
+        />
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-gray-900">
+          {sprintf(
+            /* translators: %d is the number of distinct queries */
+            _n(
+              "%d captured query",
+              "%d captured queries",
+              queries.length,
+              "simple-sql-query-analyzer",
+            ),
+            queries.length,
+          )}
+        </h3>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            disabled={loading}
+            onClick={() => request()}
+            className="px-3 py-1 text-xs border border-gray-300 hover:bg-gray-50 rounded cursor-pointer disabled:opacity-50"
+          >
+            {__("Refresh", "simple-sql-query-analyzer")}
+          </button>
+          <button
+            type="button"
+            disabled={loading || queries.length === 0}
+            onClick={() =>
+              request({ method: "DELETE", path: "/simple-sql-query-analyzer/v1/capture?clear=1" })
+            }
+            className="px-3 py-1 text-xs text-red-600 border border-red-200 hover:bg-red-50 rounded cursor-pointer disabled:opacity-50"
+          >
+            {__("Clear", "simple-sql-query-analyzer")}
+          </button>
+          <button
+            type="button"
+            disabled={selected.size === 0}
+            onClick={importSelected}
+            className="px-3 py-1 text-xs bg-blue-600 text-white hover:bg-blue-700 rounded cursor-pointer disabled:opacity-50"
+          >
+            {sprintf(
+              /* translators: %d is the number of selected queries */
+              __("Send %d to analyzer", "simple-sql-query-analyzer"),
+              selected.size,
+            )}
+          </button>
+        </div>
+      </div>
+
+      {queries.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-gray-600">
+                <th className="py-2 pr-2" />
+                <th className="py-2 pr-2 font-semibold">
+                  {__("Query", "simple-sql-query-analyzer")}
+                </th>
+                <th className="py-2 pr-2 font-semibold text-right">
+                  {__("Count", "simple-sql-query-analyzer")}
+                </th>
+                <th className="py-2 pr-2 font-semibold text-right">
+                  {__("Total", "simple-sql-query-analyzer")}
+                </th>
+                <th className="py-2 pr-2 font-semibold text-right">
+                  {__("Max", "simple-sql-query-analyzer")}
+                </th>
+                <th className="py-2 font-semibold">{__("Caller", "simple-sql-query-analyzer")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {queries.map((q) => (
+                <Fragment key={q.id}>
+                  <tr className="border-b border-gray-100 align-top">
+                    <td className="py-2 pr-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(q.id)}
+                        onChange={() => toggleSelected(q.id)}
+                      />
+                    </td>
+                    <td className="py-2 pr-2 font-mono text-gray-800 max-w-md">
+                      <button
+                        type="button"
+                        onClick={() => setExpanded(expanded === q.id ? null : q.id)}
+                        className="text-left break-all cursor-pointer hover:text-blue-700"
+                      >
+                        {expanded === q.id || q.fingerprint.length <= 160
+                          ? q.fingerprint
+                          : `${q.fingerprint.slice(0, 160)}…`}
+                      </button>
+                    </td>
+                    <td className="py-2 pr-2 text-right">{q.count}</td>
+                    <td className="py-2 pr-2 text-right whitespace-nowrap">
+                      {formatTime(q.total_time * 1000)}
+                    </td>
+                    <td className="py-2 pr-2 text-right whitespace-nowrap">
+                      {formatTime(q.max_time * 1000)}
+                    </td>
+                    <td className="py-2 font-mono text-gray-600">{getCallerLabel(q)}</td>
+                  </tr>
+                  {expanded === q.id && (
+                    <tr className="border-b border-gray-100 bg-gray-50">
+                      <td />
+                      <td colSpan={5} className="py-2 pr-2 space-y-2">
+                        <div>
+                          <div className="font-semibold text-gray-600">
+                            {__("Caller stacks", "simple-sql-query-analyzer")}
+                          </div>
+                          {q.callers.map((caller, idx) => (
+                            <div key={idx} className="font-mono text-gray-700 break-all">
+                              {caller}
+                            </div>
+                          ))}
+                        </div>
+                        <div>
+                          <div className="font-semibold text-gray-600">
+                            {__("Requests", "simple-sql-query-analyzer")}
+                          </div>
+                          {q.urls.map((url, idx) => (
+                            <div key={idx} className="font-mono text-gray-700 break-all">
+                              {url}
+                            </div>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The innermost function of the first caller stack, e.g. "WP_Query->get_posts".
+ */
+function getCallerLabel(query: CapturedQuery): string {
+  const frames = (query.callers[0] ?? "").split(",").map((frame) => frame.trim());
+  return frames[frames.length - 1] || __("Captured query", "simple-sql-query-analyzer");
+}
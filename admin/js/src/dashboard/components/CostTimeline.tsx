@@ -0,0 +1,140 @@
+import { useState } from "@wordpress/element";
+import { __, sprintf } from "@wordpress/i18n";
+import { formatNumber } from "../utils/format";
+import type { PlanChange } from "../utils/planHistory";
+import type { TrackedSample } from "../types";
+
+interface CostTimelineProps {
+  samples: TrackedSample[];
+  changes: PlanChange[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PADDING = { top: 10, right: 10, bottom: 20, left: 50 };
+
+export function CostTimeline({ samples, changes }: CostTimelineProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  const points = samples
+    .map((sample, index) => ({ sample, index, time: Date.parse(sample.time) }))
+    .filter((point) => point.sample.cost !== null && !Number.isNaN(point.time));
+
+  if (points.length === 0) {
+    return (
+      <div className="p-3 bg-gray-50 border border-gray-200 rounded text-gray-600 text-xs">
+        {__("No cost samples recorded yet.", "simple-sql-query-analyzer")}
+      </div>
+    );
+  }
+
+  const minTime = points[0].time;
+  const maxTime = points[points.length - 1].time;
+  const maxCost = Math.max(...points.map((point) => point.sample.cost ?? 0)) || 1;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (time: number) =>
+    PADDING.left +
+    (maxTime > minTime ? ((time - minTime) / (maxTime - minTime)) * plotWidth : plotWidth / 2);
+  const y = (cost: number) => PADDING.top + plotHeight - (cost / maxCost) * plotHeight;
+
+  const path = points
+    .map((point, i) => `${i === 0 ? "M" : "L"}${x(point.time)},${y(point.sample.cost ?? 0)}`)
+    .join(" ");
+  const changedIndexes = new Set(changes.map((change) => change.index));
+  const hoveredSample = hovered !== null ? samples[hovered] : null;
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto bg-gray-50 rounded"
+        onMouseLeave={() => setHovered(null)}
+      >
+        {/* Axes */}
+        <line
+          x1={PADDING.left}
+          y1={PADDING.top + plotHeight}
+          x2={WIDTH - PADDING.right}
+          y2={PADDING.top + plotHeight}
+          className="stroke-gray-300"
+        />
+        <text
+          x={PADDING.left - 4}
+          y={PADDING.top + 8}
+          textAnchor="end"
+          className="fill-gray-500 text-[10px]"
+        >
+          {formatNumber(maxCost)}
+        </text>
+        <text
+          x={PADDING.left - 4}
+          y={PADDING.top + plotHeight}
+          textAnchor="end"
+          className="fill-gray-500 text-[10px]"
+        >
+          0
+        </text>
+        <text x={PADDING.left} y={HEIGHT - 4} className="fill-gray-500 text-[10px]">
+          {new Date(minTime).toLocaleDateString()}
+        </text>
+        <text
+          x={WIDTH - PADDING.right}
+          y={HEIGHT - 4}
+          textAnchor="end"
+          className="fill-gray-500 text-[10px]"
+        >
+          {new Date(maxTime).toLocaleDateString()}
+        </text>
+
+        {/* Plan changes */}
+        {changes.map((change) => {
+          const time = Date.parse(change.after.time);
+          return (
+            <line
+              key={change.index}
+              x1={x(time)}
+              y1={PADDING.top}
+              x2={x(time)}
+              y2={PADDING.top + plotHeight}
+              strokeDasharray="4 3"
+              className="stroke-red-400"
+            />
+          );
+        })}
+
+        <path d={path} fill="none" strokeWidth={2} className="stroke-blue-600" />
+
+        {points.map((point) => (
+          <circle
+            key={point.index}
+            cx={x(point.time)}
+            cy={y(point.sample.cost ?? 0)}
+            r={hovered === point.index ? 5 : 3}
+            onMouseEnter={() => setHovered(point.index)}
+            className={changedIndexes.has(point.index) ? "fill-red-600" : "fill-blue-600"}
+          />
+        ))}
+      </svg>
+
+      <div className="mt-1 h-5 text-xs text-gray-600 font-mono">
+        {hoveredSample
+          ? sprintf(
+              /* translators: 1: date and time, 2: estimated cost, 3: estimated rows */
+              __("%1$s — cost %2$s, rows %3$s", "simple-sql-query-analyzer"),
+              new Date(hoveredSample.time).toLocaleString(),
+              formatNumber(hoveredSample.cost ?? 0),
+              formatNumber(hoveredSample.rows ?? 0),
+            ) +
+            (changedIndexes.has(hovered ?? -1)
+              ? ` · ${__("plan changed", "simple-sql-query-analyzer")}`
+              : "")
+          : __(
+              "Hover a point for details. Dashed lines mark plan changes.",
+              "simple-sql-query-analyzer",
+            )}
+      </div>
+    </div>
+  );
+}
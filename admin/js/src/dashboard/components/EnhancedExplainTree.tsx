@@ -1,24 +1,44 @@
 import { useState } from "@wordpress/element";
-import { __, sprintf } from "@wordpress/i18n";
-
-interface TreeLine {
-  depth: number;
-  operation: string;
-  cost: number | null;
-  costFormatted: string;
-  rows: number | null;
-  rowsFormatted: string;
-  children: TreeLine[];
-  rawLine: string;
-}
+import { __, _n, sprintf } from "@wordpress/i18n";
+import { parseExplainTree } from "../utils/explainParser";
+import { formatNumber, formatTime } from "../utils/format";
+import { computeExclusiveMetrics, getHottestNodes, type ExclusiveMetrics } from "../utils/planMetrics";
+import { collectRowEstimates, type RowEstimateComparison } from "../utils/rowEstimates";
+import type { ExplainNode } from "../types";
+import { HottestNodes } from "./HottestNodes";
+import { PlanIcicle } from "./PlanIcicle";
 
 interface EnhancedExplainTreeProps {
   rawExplain: string | null | undefined;
   isAnalyze?: boolean;
+  /** Estimated plan of the same query, used to fill in estimates missing from ANALYZE output */
+  estimatedExplain?: string | null;
 }
 
-export function EnhancedExplainTree({ rawExplain, isAnalyze = false }: EnhancedExplainTreeProps) {
+type ViewMode = "tree" | "raw" | "icicle";
+
+const VIEW_MODES: Array<{ value: ViewMode; label: string }> = [
+  { value: "tree", label: __("Tree", "simple-sql-query-analyzer") },
+  { value: "raw", label: __("Raw", "simple-sql-query-analyzer") },
+  { value: "icicle", label: __("Icicle", "simple-sql-query-analyzer") },
+];
+
+export function EnhancedExplainTree({
+  rawExplain,
+  isAnalyze = false,
+  estimatedExplain,
+}: EnhancedExplainTreeProps) {
   const lines = parseExplainTree(rawExplain || "");
+  const rowEstimates = isAnalyze
+    ? collectRowEstimates(lines, parseExplainTree(estimatedExplain || ""))
+    : new Map<ExplainNode, RowEstimateComparison>();
+  const exclusiveMetrics = computeExclusiveMetrics(lines);
+  const misestimatedCount = [...rowEstimates.values()].filter((c) => c.severity !== null).length;
+
+  const [viewMode, setViewMode] = useState<ViewMode>("tree");
+
+  // Expand all nodes by default
+  const [expandedNodes, setExpandedNodes] = useState<Set<number>>(() => getAllExpandedNodes(lines));
 
   if (!rawExplain || rawExplain.trim().length === 0) {
     return (
@@ -36,10 +56,6 @@ export function EnhancedExplainTree({ rawExplain, isAnalyze = false }: EnhancedE
     );
   }
 
-  // Expand all nodes by default
-  const allExpandedNodes = getAllExpandedNodes(lines);
-  const [expandedNodes, setExpandedNodes] = useState<Set<number>>(allExpandedNodes);
-
   const toggleNode = (index: number) => {
     const newExpanded = new Set(expandedNodes);
     if (newExpanded.has(index)) {
@@ -52,50 +68,147 @@ export function EnhancedExplainTree({ rawExplain, isAnalyze = false }: EnhancedE
 
   return (
     <div className="bg-white border border-gray-200 rounded-lg p-4">
-      <div className="mb-3 pb-2 border-b border-gray-200">
+      <div className="mb-3 pb-2 border-b border-gray-200 flex items-center justify-between gap-2">
         <h3 className="text-xs font-semibold text-gray-900">
           {isAnalyze
             ? __("Execution Plan (Actual)", "simple-sql-query-analyzer")
             : __("Execution Plan (Estimated)", "simple-sql-query-analyzer")}
         </h3>
+        {misestimatedCount > 0 && (
+          <span className="px-1.5 py-0.5 rounded bg-orange-50 border border-orange-200 text-xs text-orange-800">
+            {sprintf(
+              /* translators: %d is the number of plan nodes with bad row estimates */
+              _n(
+                "%d node with a bad row estimate",
+                "%d nodes with bad row estimates",
+                misestimatedCount,
+                "simple-sql-query-analyzer",
+              ),
+              misestimatedCount,
+            )}
+          </span>
+        )}
       </div>
 
-      {/* Legend */}
-      <div className="mb-3 pb-2 border-b border-gray-200">
-        <div className="text-xs text-gray-600 space-y-1">
-          <div className="flex items-center gap-4">
-            <div className="flex items-center gap-1">
-              <span className="bg-green-100 text-green-800 px-1.5 py-0.5 rounded text-xs font-semibold whitespace-nowrap">
-                {__("Cost", "simple-sql-query-analyzer")}
-              </span>
-              <span className="text-gray-600">
-                {__("Query cost (relative units)", "simple-sql-query-analyzer")}
-              </span>
-            </div>
-            <div className="flex items-center gap-1">
-              <span className="bg-gray-100 text-gray-800 px-1.5 py-0.5 rounded text-xs font-semibold whitespace-nowrap">
-                {__("Rows", "simple-sql-query-analyzer")}
-              </span>
-              <span className="text-gray-600">
-                {__("Estimated output rows", "simple-sql-query-analyzer")}
-              </span>
+      {/* View mode switcher */}
+      <div className="mb-3 inline-flex rounded border border-gray-200 overflow-hidden text-xs">
+        {VIEW_MODES.map((mode) => (
+          <button
+            key={mode.value}
+            type="button"
+            onClick={() => setViewMode(mode.value)}
+            className={`px-2 py-1 cursor-pointer transition-colors ${
+              viewMode === mode.value
+                ? "bg-blue-600 text-white"
+                : "bg-white text-gray-600 hover:bg-gray-50"
+            }`}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+
+      {viewMode === "tree" && (
+        <>
+          {/* Legend */}
+          <div className="mb-3 pb-2 border-b border-gray-200">
+            <div className="text-xs text-gray-600 space-y-1">
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex items-center gap-1">
+                  <span className="bg-green-100 text-green-800 px-1.5 py-0.5 rounded text-xs font-semibold whitespace-nowrap">
+                    {__("Cost", "simple-sql-query-analyzer")}
+                  </span>
+                  <span className="text-gray-600">
+                    {__("Query cost (relative units)", "simple-sql-query-analyzer")}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="bg-gray-100 text-gray-800 px-1.5 py-0.5 rounded text-xs font-semibold whitespace-nowrap">
+                    {__("Rows", "simple-sql-query-analyzer")}
+                  </span>
+                  <span className="text-gray-600">
+                    {__("Estimated output rows", "simple-sql-query-analyzer")}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="bg-amber-50 text-amber-800 border border-dashed border-amber-300 px-1.5 py-0.5 rounded text-xs font-semibold whitespace-nowrap">
+                    {__("self", "simple-sql-query-analyzer")}
+                  </span>
+                  <span className="text-gray-600">
+                    {isAnalyze
+                      ? __("Time excluding children", "simple-sql-query-analyzer")
+                      : __("Cost excluding children", "simple-sql-query-analyzer")}
+                  </span>
+                </div>
+              </div>
+              {isAnalyze && (
+                <div className="flex flex-wrap items-center gap-4">
+                  <div className="flex items-center gap-1">
+                    <span className="bg-blue-100 text-blue-800 px-1.5 py-0.5 rounded text-xs font-semibold whitespace-nowrap">
+                      {__("Time", "simple-sql-query-analyzer")}
+                    </span>
+                    <span className="text-gray-600">
+                      {__("Actual time per loop (ms)", "simple-sql-query-analyzer")}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <span className="bg-indigo-100 text-indigo-800 px-1.5 py-0.5 rounded text-xs font-semibold whitespace-nowrap">
+                      {__("Actual", "simple-sql-query-analyzer")}
+                    </span>
+                    <span className="text-gray-600">
+                      {__("Actual rows per loop", "simple-sql-query-analyzer")}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <span className="bg-purple-100 text-purple-800 px-1.5 py-0.5 rounded text-xs font-semibold whitespace-nowrap">
+                      {__("Loops", "simple-sql-query-analyzer")}
+                    </span>
+                    <span className="text-gray-600">
+                      {__("Times the node was executed", "simple-sql-query-analyzer")}
+                    </span>
+                  </div>
+                </div>
+              )}
+              {isAnalyze && (
+                <div className="flex items-center gap-1">
+                  <span className="bg-orange-100 text-orange-800 border border-orange-300 px-1.5 py-0.5 rounded text-xs font-semibold whitespace-nowrap">
+                    ⚠ 10×
+                  </span>
+                  <span className="text-gray-600">
+                    {__(
+                      "Row estimate off by 10× or more (red: 100×), comparing rows × loops",
+                      "simple-sql-query-analyzer",
+                    )}
+                  </span>
+                </div>
+              )}
             </div>
           </div>
-        </div>
-      </div>
 
-      <div className="font-mono text-xs space-y-0">
-        {renderTreeLines(lines, 0, expandedNodes, toggleNode)}
-      </div>
+          <div className="font-mono text-xs space-y-0">
+            {renderTreeLines(lines, 0, expandedNodes, toggleNode, rowEstimates, exclusiveMetrics)}
+          </div>
+        </>
+      )}
+
+      {viewMode === "icicle" && <PlanIcicle nodes={lines} exclusiveMetrics={exclusiveMetrics} />}
+
+      {viewMode === "raw" && (
+        <pre className="bg-gray-50 border border-gray-200 rounded p-3 text-xs font-mono text-gray-700 overflow-x-auto max-h-96 whitespace-pre">
+          {rawExplain}
+        </pre>
+      )}
+
+      <HottestNodes ranking={getHottestNodes(exclusiveMetrics)} />
     </div>
   );
 }
 
-function getAllExpandedNodes(lines: TreeLine[]): Set<number> {
+function getAllExpandedNodes(lines: ExplainNode[]): Set<number> {
   const indices = new Set<number>();
   let currentIndex = 0;
 
-  function traverse(nodeList: TreeLine[]) {
+  function traverse(nodeList: ExplainNode[]) {
     for (const node of nodeList) {
       indices.add(currentIndex++);
       if (node.children.length > 0) {
@@ -108,103 +221,65 @@ function getAllExpandedNodes(lines: TreeLine[]): Set<number> {
   return indices;
 }
 
-function parseExplainTree(rawExplain: string): TreeLine[] {
-  const lineStrings = rawExplain.split("\n").filter((line) => line.trim());
-  const allLines: TreeLine[] = [];
-
-  for (const line of lineStrings) {
-    const parsed = parseLine(line);
-    if (parsed) {
-      allLines.push(parsed);
-    }
-  }
-
-  // Build hierarchy
-  return buildHierarchy(allLines);
-}
-
-function parseLine(line: string): TreeLine | null {
-  // Count leading spaces and divide by 4 to get depth
-  const leadingSpaces = line.length - line.trimLeft().length;
-  const depth = Math.floor(leadingSpaces / 4);
-
-  // Check if line starts with "->"
-  if (!line.includes("->")) {
+function renderSelfBadge(metrics: ExclusiveMetrics | undefined): React.ReactNode {
+  if (!metrics || (metrics.time === null && metrics.cost === null)) {
     return null;
   }
 
-  // Extract operation and metrics
-  const match = line.match(/->(.+?)(?:\s+\(([^)]+)\))?$/);
-  if (!match) {
-    return null;
-  }
-
-  const operation = match[1].trim();
-  const metrics = match[2] || "";
+  const title =
+    metrics.time === null && metrics.loops !== null && metrics.loops > 1
+      ? sprintf(
+          /* translators: %s is the estimated number of times the node runs */
+          __(
+            "Exclusive value: this node minus its children, over its estimated %s runs on the inner side of a nested loop",
+            "simple-sql-query-analyzer",
+          ),
+          formatNumber(metrics.loops),
+        )
+      : __("Exclusive value: this node minus its children", "simple-sql-query-analyzer");
 
-  // Parse cost and rows
-  let cost: number | null = null;
-  let rows: number | null = null;
-
-  const costMatch = metrics.match(/cost=([\d.e+]+)/);
-  if (costMatch) {
-    cost = parseFloat(costMatch[1]);
-  }
-
-  const rowsMatch = metrics.match(/rows=([\d.e+]+)/);
-  if (rowsMatch) {
-    rows = parseFloat(rowsMatch[1]);
-  }
-
-  return {
-    depth,
-    operation,
-    cost,
-    costFormatted: cost !== null ? formatNumber(cost) : "",
-    rows,
-    rowsFormatted: rows !== null ? formatNumber(rows) : "",
-    children: [],
-    rawLine: line,
-  };
+  return (
+    <span
+      className="flex-shrink-0 px-1.5 py-0.5 rounded border border-dashed border-amber-300 text-xs font-semibold whitespace-nowrap bg-amber-50 text-amber-800"
+      title={title}
+    >
+      {metrics.time !== null
+        ? /* translators: %s is the time spent in the node itself */
+          sprintf(__("self %s", "simple-sql-query-analyzer"), formatTime(metrics.time))
+        : /* translators: %s is the cost of the node itself */
+          sprintf(__("self %s", "simple-sql-query-analyzer"), formatNumber(metrics.cost ?? 0))}
+    </span>
+  );
 }
 
-function buildHierarchy(lines: TreeLine[]): TreeLine[] {
-  const root: TreeLine[] = [];
-  const stack: (TreeLine | null)[] = [null]; // null represents root level
-
-  for (const line of lines) {
-    // Pop stack until we find parent at previous depth
-    while (stack.length > line.depth + 1) {
-      stack.pop();
-    }
-
-    // Ensure stack has enough entries
-    while (stack.length <= line.depth) {
-      stack.push(null);
-    }
-
-    // Add to parent
-    const parent = stack[line.depth];
-    if (parent === null) {
-      root.push(line);
-    } else {
-      parent.children.push(line);
-    }
-
-    stack[line.depth + 1] = line;
+function renderMisestimateBadge(comparison: RowEstimateComparison | undefined): React.ReactNode {
+  if (!comparison || comparison.severity === null) {
+    return null;
   }
 
-  return root;
-}
+  const color =
+    comparison.severity === "severe"
+      ? "bg-red-100 text-red-800 border-red-300"
+      : "bg-orange-100 text-orange-800 border-orange-300";
+  const ratio = formatNumber(comparison.ratio);
 
-function formatNumber(num: number): string {
-  if (num >= 1e6) {
-    return `${(num / 1e6).toFixed(2)}M`;
-  } else if (num >= 1e3) {
-    return `${(num / 1e3).toFixed(1)}K`;
-  } else {
-    return num.toFixed(0);
-  }
+  return (
+    <span
+      className={`flex-shrink-0 px-1.5 py-0.5 rounded border text-xs font-semibold whitespace-nowrap ${color}`}
+      title={sprintf(
+        /* translators: 1: estimated rows, 2: actual rows */
+        __("Estimated %1$s rows, actual %2$s rows (rows × loops)", "simple-sql-query-analyzer"),
+        comparison.estimated.toLocaleString(),
+        comparison.actual.toLocaleString(),
+      )}
+    >
+      {comparison.direction === "under"
+        ? /* translators: %s is how many times the optimizer underestimated the rows */
+          sprintf(__("⚠ %s× under", "simple-sql-query-analyzer"), ratio)
+        : /* translators: %s is how many times the optimizer overestimated the rows */
+          sprintf(__("⚠ %s× over", "simple-sql-query-analyzer"), ratio)}
+    </span>
+  );
 }
 
 function getCostColor(cost: number | null): string {
@@ -227,10 +302,12 @@ function getOperationIcon(operation: string): string {
 }
 
 function renderTreeLines(
-  lines: TreeLine[],
+  lines: ExplainNode[],
   parentIndex: number,
   expandedNodes: Set<number>,
   toggleNode: (index: number) => void,
+  rowEstimates: Map<ExplainNode, RowEstimateComparison>,
+  exclusiveMetrics: Map<ExplainNode, ExclusiveMetrics>,
   depth: number = 0,
 ): React.ReactNode {
   let globalIndex = parentIndex;
@@ -282,23 +359,64 @@ function renderTreeLines(
                   line.cost,
                 )}`}
               >
-                {line.costFormatted}
+                {formatNumber(line.cost)}
               </span>
             )}
 
             {/* Rows badge */}
-            {line.rows !== null && (
+            {line.estimated_rows !== null && (
               <span className="flex-shrink-0 px-1.5 py-0.5 rounded text-xs font-semibold whitespace-nowrap bg-gray-100 text-gray-800">
-                {line.rowsFormatted}
+                {formatNumber(line.estimated_rows)}
+              </span>
+            )}
+
+            {/* Actual time badge */}
+            {line.actual_time !== null && (
+              <span
+                className="flex-shrink-0 px-1.5 py-0.5 rounded text-xs font-semibold whitespace-nowrap bg-blue-100 text-blue-800"
+                title={sprintf(
+                  /* translators: 1: time to first row in ms, 2: time to last row in ms, 3: total time in ms */
+                  __("First row: %1$sms, last row: %2$sms, total: %3$sms", "simple-sql-query-analyzer"),
+                  line.actual_time.start.toFixed(3),
+                  line.actual_time.end.toFixed(3),
+                  line.actual_time.total.toFixed(3),
+                )}
+              >
+                {formatTime(line.actual_time.end)}
               </span>
             )}
+
+            {/* Actual rows badge */}
+            {line.actual_rows !== null && line.actual_loops !== 0 && (
+              <span className="flex-shrink-0 px-1.5 py-0.5 rounded text-xs font-semibold whitespace-nowrap bg-indigo-100 text-indigo-800">
+                {formatNumber(line.actual_rows)}
+              </span>
+            )}
+
+            {/* Loops badge */}
+            {line.actual_loops !== null &&
+              (line.actual_loops === 0 ? (
+                <span className="flex-shrink-0 px-1.5 py-0.5 rounded text-xs italic whitespace-nowrap bg-gray-100 text-gray-500">
+                  {__("never executed", "simple-sql-query-analyzer")}
+                </span>
+              ) : (
+                <span className="flex-shrink-0 px-1.5 py-0.5 rounded text-xs font-semibold whitespace-nowrap bg-purple-100 text-purple-800">
+                  ×{formatNumber(line.actual_loops)}
+                </span>
+              ))}
+
+            {/* Self (exclusive) cost or time badge */}
+            {hasChildren && renderSelfBadge(exclusiveMetrics.get(line))}
+
+            {/* Misestimation flag */}
+            {renderMisestimateBadge(rowEstimates.get(line))}
           </div>
         </div>
 
         {/* Children */}
         {hasChildren && isExpanded && (
           <div>
-            {renderTreeLines(line.children, currentIndex + 1, expandedNodes, toggleNode, depth + 1)}
+            {renderTreeLines(line.children, currentIndex + 1, expandedNodes, toggleNode, rowEstimates, exclusiveMetrics, depth + 1)}
           </div>
         )}
 
@@ -0,0 +1,55 @@
+import { __, _n, sprintf } from "@wordpress/i18n";
+import type { Finding, FindingSeverity } from "../types";
+
+interface FindingsProps {
+  findings: Finding[];
+}
+
+const SEVERITY_STYLES: Record<FindingSeverity, string> = {
+  critical: "bg-red-100 text-red-800",
+  warning: "bg-orange-100 text-orange-800",
+  info: "bg-blue-100 text-blue-800",
+};
+
+const SEVERITY_LABELS: Record<FindingSeverity, string> = {
+  critical: __("Critical", "simple-sql-query-analyzer"),
+  warning: __("Warning", "simple-sql-query-analyzer"),
+  info: __("Info", "simple-sql-query-analyzer"),
+};
+
+export function Findings({ findings }: FindingsProps) {
+  if (findings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-gray-700 mb-2">
+        {sprintf(
+          /* translators: %d is the number of findings */
+          _n("%d Finding", "%d Findings", findings.length, "simple-sql-query-analyzer"),
+          findings.length,
+        )}
+      </h4>
+      <ul className="space-y-1.5">
+        {findings.map((finding, idx) => (
+          <li key={idx} className="flex items-start gap-2 p-1.5 bg-gray-50 rounded text-xs">
+            <span
+              className={`flex-shrink-0 px-1.5 py-0.5 rounded font-semibold whitespace-nowrap ${
+                SEVERITY_STYLES[finding.severity]
+              }`}
+            >
+              {SEVERITY_LABELS[finding.severity]}
+            </span>
+            <div className="flex-1">
+              <div className="text-gray-900">{finding.message}</div>
+              {finding.node && (
+                <div className="text-gray-500 font-mono mt-0.5 break-words">{finding.node.operation}</div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
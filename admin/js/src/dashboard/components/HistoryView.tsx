@@ -0,0 +1,242 @@
+import { useCallback, useEffect, useState } from "@wordpress/element";
+import apiFetch from "@wordpress/api-fetch";
+import { addQueryArgs } from "@wordpress/url";
+import { __, _n, sprintf } from "@wordpress/i18n";
+import { Alert } from "./Alert";
+import type {
+  AnalysisResponse,
+  HistoryEntry,
+  HistoryListResponse,
+  HistoryReportResponse,
+} from "../types";
+
+interface HistoryViewProps {
+  onOpen: (report: AnalysisResponse) => void;
+}
+
+export function HistoryView({ onOpen }: HistoryViewProps) {
+  const [search, setSearch] = useState("");
+  const [submittedSearch, setSubmittedSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [list, setList] = useState<HistoryListResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data: HistoryListResponse = await apiFetch({
+        path: addQueryArgs("/simple-sql-query-analyzer/v1/history", {
+          search: submittedSearch,
+          page,
+        }),
+      });
+      setList(data);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : __("An error occurred while loading the history", "simple-sql-query-analyzer"),
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [submittedSearch, page]);
+
+  useEffect(() => {
+    void loadHistory();
+  }, [loadHistory]);
+
+  const openReport = async (entry: HistoryEntry) => {
+    setError(null);
+
+    try {
+      const data: HistoryReportResponse = await apiFetch({
+        path: `/simple-sql-query-analyzer/v1/history/${entry.id}`,
+      });
+      if (data.success && data.report) {
+        onOpen(data.report);
+      } else {
+        setError(data.message ?? __("The report could not be loaded", "simple-sql-query-analyzer"));
+      }
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : __("An error occurred while loading the report", "simple-sql-query-analyzer"),
+      );
+    }
+  };
+
+  const deleteReport = async (entry: HistoryEntry) => {
+    if (!window.confirm(__("Delete this report from the history?", "simple-sql-query-analyzer"))) {
+      return;
+    }
+
+    setError(null);
+
+    try {
+      await apiFetch({
+        path: `/simple-sql-query-analyzer/v1/history/${entry.id}`,
+        method: "DELETE",
+      });
+      await loadHistory();
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : __("An error occurred while deleting the report", "simple-sql-query-analyzer"),
+      );
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setPage(1);
+          setSubmittedSearch(search.trim());
+        }}
+      >
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={__("Search by label or query text", "simple-sql-query-analyzer")}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-600 text-white rounded text-sm font-medium hover:bg-blue-700 cursor-pointer"
+        >
+          {__("Search", "simple-sql-query-analyzer")}
+        </button>
+      </form>
+
+      {error && (
+        <Alert
+          type="error"
+          title={__("Error", "simple-sql-query-analyzer")}
+          message={error}
+          onDismiss={() => setError(null)}
+        />
+      )}
+
+      {loading && !list && (
+        <p className="text-sm text-gray-500">
+          {__("Loading history...", "simple-sql-query-analyzer")}
+        </p>
+      )}
+
+      {list && list.items.length === 0 && (
+        <p className="text-sm text-gray-500">
+          {submittedSearch
+            ? __("No saved reports match your search.", "simple-sql-query-analyzer")
+            : __(
+                "No saved reports yet. Every analysis is saved here automatically.",
+                "simple-sql-query-analyzer",
+              )}
+        </p>
+      )}
+
+      {list && list.items.length > 0 && (
+        <>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-xs text-gray-600">
+                <th className="py-2 pr-2 font-semibold">
+                  {__("Report", "simple-sql-query-analyzer")}
+                </th>
+                <th className="py-2 pr-2 font-semibold">
+                  {__("Date", "simple-sql-query-analyzer")}
+                </th>
+                <th className="py-2 pr-2 font-semibold">
+                  {__("Author", "simple-sql-query-analyzer")}
+                </th>
+                <th className="py-2 pr-2 font-semibold">
+                  {__("Database", "simple-sql-query-analyzer")}
+                </th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {list.items.map((entry) => (
+                <tr key={entry.id} className="border-b border-gray-100 align-top">
+                  <td className="py-2 pr-2">
+                    <div className="font-medium text-gray-900">{entry.title}</div>
+                    <div className="text-xs text-gray-500">
+                      {sprintf(
+                        /* translators: %d is the number of queries */
+                        _n(
+                          "%d query",
+                          "%d queries",
+                          entry.query_count,
+                          "simple-sql-query-analyzer",
+                        ),
+                        entry.query_count,
+                      )}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-2 text-gray-700 whitespace-nowrap">
+                    {new Date(entry.created_at).toLocaleString()}
+                  </td>
+                  <td className="py-2 pr-2 text-gray-700">{entry.author}</td>
+                  <td className="py-2 pr-2 text-gray-700 font-mono text-xs">{entry.db_version}</td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button
+                      type="button"
+                      onClick={() => openReport(entry)}
+                      className="px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded cursor-pointer"
+                    >
+                      {__("Open", "simple-sql-query-analyzer")}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => deleteReport(entry)}
+                      className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded cursor-pointer"
+                    >
+                      {__("Delete", "simple-sql-query-analyzer")}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {list.pages > 1 && (
+            <div className="flex items-center justify-between text-xs text-gray-600">
+              <button
+                type="button"
+                disabled={page <= 1}
+                onClick={() => setPage(page - 1)}
+                className="px-2 py-1 border border-gray-300 rounded disabled:opacity-50 cursor-pointer"
+              >
+                {__("Previous", "simple-sql-query-analyzer")}
+              </button>
+              <span>
+                {sprintf(
+                  /* translators: 1: current page, 2: total pages */
+                  __("Page %1$d of %2$d", "simple-sql-query-analyzer"),
+                  page,
+                  list.pages,
+                )}
+              </span>
+              <button
+                type="button"
+                disabled={page >= list.pages}
+                onClick={() => setPage(page + 1)}
+                className="px-2 py-1 border border-gray-300 rounded disabled:opacity-50 cursor-pointer"
+              >
+                {__("Next", "simple-sql-query-analyzer")}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
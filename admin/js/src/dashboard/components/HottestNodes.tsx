@@ -0,0 +1,51 @@
+import { __ } from "@wordpress/i18n";
+import { formatNumber, formatTime } from "../utils/format";
+import type { HotNodeRanking } from "../utils/planMetrics";
+
+interface HottestNodesProps {
+  ranking: HotNodeRanking;
+}
+
+export function HottestNodes({ ranking }: HottestNodesProps) {
+  const { nodes, metric } = ranking;
+  if (nodes.length === 0) {
+    return null;
+  }
+
+  const maxValue = Math.max(...nodes.map((entry) => entry.value));
+
+  return (
+    <div className="mt-3 pt-2 border-t border-gray-200">
+      <h4 className="text-xs font-semibold text-gray-700 mb-2">
+        {metric === "time"
+          ? __("Hottest Nodes (by self time)", "simple-sql-query-analyzer")
+          : __("Hottest Nodes (by self cost)", "simple-sql-query-analyzer")}
+      </h4>
+      <ol className="space-y-1">
+        {nodes.map((entry, idx) => {
+          const { value } = entry;
+
+          return (
+            <li key={idx} className="text-xs">
+              <div className="flex items-center gap-2">
+                <span className="flex-shrink-0 w-4 text-gray-500">{idx + 1}.</span>
+                <span className="font-mono text-gray-800 flex-1 truncate" title={entry.node.operation}>
+                  {entry.node.operation}
+                </span>
+                <span className="flex-shrink-0 px-1.5 py-0.5 rounded font-semibold whitespace-nowrap bg-amber-100 text-amber-800">
+                  {metric === "time" ? formatTime(value) : formatNumber(value)}
+                </span>
+              </div>
+              <div className="ml-6 mt-0.5 h-1 bg-gray-100 rounded">
+                <div
+                  className="h-1 bg-amber-400 rounded"
+                  style={{ width: `${maxValue > 0 ? (value / maxValue) * 100 : 0}%` }}
+                />
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+import { useState } from "@wordpress/element";
+import apiFetch from "@wordpress/api-fetch";
+import { addQueryArgs } from "@wordpress/url";
+import { __, sprintf } from "@wordpress/i18n";
+import { Alert } from "./Alert";
+import { formatNumber, formatTime } from "../utils/format";
+import { groupSlowLogEntries, parseSlowLog } from "../utils/slowLog";
+import type { DigestResponse, QueryInput, StatementGroup } from "../types";
+
+interface ImportViewProps {
+  onImport: (queries: QueryInput[]) => void;
+}
+
+type ImportSource = "slow-log" | "digest";
+
+const LIMITS = [10, 25, 50, 100];
+
+export function ImportView({ onImport }: ImportViewProps) {
+  const [source, setSource] = useState<ImportSource>("slow-log");
+  const [limit, setLimit] = useState(LIMITS[1]);
+  const [groups, setGroups] = useState<StatementGroup[] | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const importSlowLog = async (file: File) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const entries = parseSlowLog(await file.text());
+      if (entries.length === 0) {
+        setError(
+          __("No statements found. Is this a MySQL slow query log?", "simple-sql-query-analyzer"),
+        );
+        setGroups(null);
+        return;
+      }
+
+      const grouped = groupSlowLogEntries(entries, limit);
+      setGroups(grouped);
+      setSummary(
+        sprintf(
+          /* translators: 1: number of statements, 2: file name, 3: number of groups shown */
+          __(
+            "Read %1$d statements from %2$s; showing the top %3$d groups by total time.",
+            "simple-sql-query-analyzer",
+          ),
+          entries.length,
+          file.name,
+          grouped.length,
+        ),
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : __("An error occurred while reading the slow log", "simple-sql-query-analyzer"),
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const importDigests = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data: DigestResponse = await apiFetch({
+        path: addQueryArgs("/simple-sql-query-analyzer/v1/digests", { limit }),
+      });
+      if (data.success && data.groups) {
+        setGroups(data.groups);
+        setSummary(data.message);
+      } else {
+        setError(data.message);
+      }
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : __("An error occurred while loading statement digests", "simple-sql-query-analyzer"),
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toQueryInput = (group: StatementGroup, idx: number): QueryInput => ({
+    id: `${Date.now()}-${idx}`,
+    label: sprintf(
+      /* translators: 1: rank by total time, 2: total time */
+      __("Top #%1$d (%2$s total)", "simple-sql-query-analyzer"),
+      idx + 1,
+      formatTime(group.total_time * 1000),
+    ),
+    query: group.query,
+  });
+
+  const renderSourceTab = (tab: ImportSource, label: string) => (
+    <button
+      type="button"
+      onClick={() => {
+        setSource(tab);
+        setGroups(null);
+        setSummary(null);
+        setError(null);
+      }}
+      className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors cursor-pointer ${
+        source === tab
+          ? "border-blue-600 text-blue-600"
+          : "border-transparent text-gray-500 hover:text-gray-900 hover:border-gray-300"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+      <div className="flex border-b border-gray-200">
+        {renderSourceTab("slow-log", __("Slow query log", "simple-sql-query-analyzer"))}
+        {renderSourceTab("digest", __("performance_schema", "simple-sql-query-analyzer"))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="text-xs font-semibold text-gray-600">
+          {__("Show top", "simple-sql-query-analyzer")}
+          <select
+            value={limit}
+            onChange={(e) => setLimit(Number(e.target.value))}
+            className="ml-2 px-2 py-1 border border-gray-300 rounded text-sm font-normal"
+          >
+            {LIMITS.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {source === "slow-log" ? (
+          <input
+            type="file"
+            accept=".log,.txt,text/plain"
+            disabled={loading}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) {
+                void importSlowLog(file);
+              }
+              e.target.value = "";
+            }}
+            className="text-sm"
+          />
+        ) : (
+          <button
+            type="button"
+            disabled={loading}
+            onClick={importDigests}
+            className="px-4 py-2 bg-blue-600 text-white rounded text-sm font-medium hover:bg-blue-700 cursor-pointer disabled:opacity-50"
+          >
+            {__("Load statement digests", "simple-sql-query-analyzer")}
+          </button>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {source === "slow-log"
+          ? __(
+              "The file is parsed in your browser; statements are grouped by fingerprint (literal values replaced by ?).",
+              "simple-sql-query-analyzer",
+            )
+          : __(
+              "Reads events_statements_summary_by_digest for this site's database. Requires performance_schema to be enabled.",
+              "simple-sql-query-analyzer",
+            )}
+      </p>
+
+      {error && (
+        <Alert
+          type="error"
+          title={__("Error", "simple-sql-query-analyzer")}
+          message={error}
+          onDismiss={() => setError(null)}
+        />
+      )}
+
+      {loading && (
+        <p className="text-sm text-gray-500">{__("Loading...", "simple-sql-query-analyzer")}</p>
+      )}
+
+      {groups && groups.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-gray-600">{summary}</p>
+            <button
+              type="button"
+              onClick={() =>
+                onImport(
+                  groups.flatMap((group, idx) =>
+                    group.has_sample ? [toQueryInput(group, idx)] : [],
+                  ),
+                )
+              }
+              className="px-3 py-1 text-xs bg-blue-600 text-white hover:bg-blue-700 rounded cursor-pointer"
+            >
+              {__("Send all to analyzer", "simple-sql-query-analyzer")}
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-600">
+                  <th className="py-2 pr-2 font-semibold">
+                    {__("Statement", "simple-sql-query-analyzer")}
+                  </th>
+                  <th className="py-2 pr-2 font-semibold text-right">
+                    {__("Count", "simple-sql-query-analyzer")}
+                  </th>
+                  <th className="py-2 pr-2 font-semibold text-right">
+                    {__("Total", "simple-sql-query-analyzer")}
+                  </th>
+                  <th className="py-2 pr-2 font-semibold text-right">
+                    {__("Avg", "simple-sql-query-analyzer")}
+                  </th>
+                  <th className="py-2 pr-2 font-semibold text-right">
+                    {__("Max", "simple-sql-query-analyzer")}
+                  </th>
+                  <th className="py-2 pr-2 font-semibold text-right">
+                    {__("Rows examined", "simple-sql-query-analyzer")}
+                  </th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map((group, idx) => (
+                  <tr key={group.fingerprint} className="border-b border-gray-100 align-top">
+                    <td className="py-2 pr-2 font-mono text-gray-800 break-all max-w-md">
+                      {group.fingerprint}
+                    </td>
+                    <td className="py-2 pr-2 text-right">{formatNumber(group.count)}</td>
+                    <td className="py-2 pr-2 text-right whitespace-nowrap">
+                      {formatTime(group.total_time * 1000)}
+                    </td>
+                    <td className="py-2 pr-2 text-right whitespace-nowrap">
+                      {formatTime((group.total_time / Math.max(group.count, 1)) * 1000)}
+                    </td>
+                    <td className="py-2 pr-2 text-right whitespace-nowrap">
+                      {formatTime(group.max_time * 1000)}
+                    </td>
+                    <td className="py-2 pr-2 text-right">{formatNumber(group.rows_examined)}</td>
+                    <td className="py-2 text-right">
+                      {group.has_sample ? (
+                        <button
+                          type="button"
+                          onClick={() => onImport([toQueryInput(group, idx)])}
+                          className="px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded cursor-pointer whitespace-nowrap"
+                        >
+                          {__("Analyze", "simple-sql-query-analyzer")}
+                        </button>
+                      ) : (
+                        <span
+                          className="text-gray-400 whitespace-nowrap"
+                          title={__(
+                            "MySQL kept no sample query for this digest; copy the statement and fill in values by hand.",
+                            "simple-sql-query-analyzer",
+                          )}
+                        >
+                          {__("No sample", "simple-sql-query-analyzer")}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { __, sprintf } from "@wordpress/i18n";
+import { CopyButton } from "./CopyButton";
+import type { IndexAdvice } from "../utils/indexAdvisor";
+
+interface IndexRecommendationsProps {
+  advice: IndexAdvice;
+}
+
+export function IndexRecommendations({ advice }: IndexRecommendationsProps) {
+  const { recommendations, redundant } = advice;
+
+  if (recommendations.length === 0 && redundant.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-gray-700 mb-2">
+        {__("Index Recommendations", "simple-sql-query-analyzer")}
+      </h4>
+
+      <div className="space-y-2">
+        {recommendations.map((recommendation, idx) => (
+          <div key={idx} className="p-2 bg-green-50 border border-green-200 rounded text-xs">
+            <div className="text-gray-800 mb-1.5">{recommendation.reason}</div>
+            <div className="flex items-start gap-2">
+              <pre className="flex-1 bg-white border border-green-200 rounded p-2 font-mono text-gray-900 overflow-x-auto whitespace-pre-wrap break-words">
+                {recommendation.statement}
+              </pre>
+              <CopyButton
+                content={recommendation.statement}
+                label={__("Copy", "simple-sql-query-analyzer")}
+              />
+            </div>
+          </div>
+        ))}
+
+        {redundant.length > 0 && (
+          <div className="p-2 bg-gray-50 border border-gray-200 rounded text-xs">
+            <div className="font-semibold text-gray-700 mb-1">
+              {__("Redundant indexes", "simple-sql-query-analyzer")}
+            </div>
+            <ul className="space-y-0.5 text-gray-700">
+              {redundant.map((entry, idx) => (
+                <li key={idx}>
+                  {sprintf(
+                    /* translators: 1: index name, 2: table name, 3: name of the longer index */
+                    __(
+                      "%1$s on %2$s is a prefix of %3$s and can usually be dropped",
+                      "simple-sql-query-analyzer",
+                    ),
+                    entry.index,
+                    entry.table,
+                    entry.coveredBy,
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
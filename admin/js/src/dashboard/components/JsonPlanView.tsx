@@ -0,0 +1,284 @@
+import { Fragment, useState } from "@wordpress/element";
+import { __, sprintf } from "@wordpress/i18n";
+import { getQueryCost, getTableAccesses, parseExplainJson } from "../utils/explainJson";
+import type { JsonTableAccess } from "../utils/explainJson";
+import { formatNumber } from "../utils/format";
+
+interface JsonPlanViewProps {
+  /** Document returned by EXPLAIN FORMAT=JSON, or by MariaDB's ANALYZE FORMAT=JSON */
+  rawJson: string;
+  /** Whether the document comes from ANALYZE and holds actual rows and times */
+  isAnalyze?: boolean;
+}
+
+// Access types that read every row of the table or index
+const SCAN_ACCESS_TYPES = new Set(["ALL", "index"]);
+
+function formatCost(value: string | undefined): string {
+  const cost = Number(value);
+  return value !== undefined && Number.isFinite(cost) ? formatNumber(cost) : "—";
+}
+
+function getFlags(access: JsonTableAccess): string[] {
+  const flags: string[] = [];
+  if (access.table.using_index) {
+    flags.push(__("Using index", "simple-sql-query-analyzer"));
+  }
+  if (access.usingFilesort) {
+    flags.push(__("Using filesort", "simple-sql-query-analyzer"));
+  }
+  if (access.usingTemporary) {
+    flags.push(__("Using temporary", "simple-sql-query-analyzer"));
+  }
+  if (access.table.using_join_buffer) {
+    flags.push(
+      sprintf(
+        /* translators: %s is the join buffer algorithm, e.g. hash join */
+        __("Join buffer (%s)", "simple-sql-query-analyzer"),
+        access.table.using_join_buffer,
+      ),
+    );
+  }
+  return flags;
+}
+
+/**
+ * Table accesses of an EXPLAIN FORMAT=JSON plan with the optimizer details the
+ * tree format leaves out: key parts, key length, filtered percentage, cost
+ * breakdown, conditions and filesort or temporary table flags.
+ */
+export function JsonPlanView({ rawJson, isAnalyze = false }: JsonPlanViewProps) {
+  const [showRaw, setShowRaw] = useState(false);
+  const plan = parseExplainJson(rawJson);
+
+  if (!plan) {
+    return null;
+  }
+
+  const accesses = getTableAccesses(plan);
+  const queryCost = getQueryCost(plan);
+  const hasActuals = accesses.some((access) => access.table.r_rows !== undefined);
+  const columnCount = hasActuals ? 14 : 11;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h4 className="text-xs font-semibold text-gray-700">
+          {isAnalyze
+            ? __("Executed Plan (ANALYZE FORMAT=JSON)", "simple-sql-query-analyzer")
+            : __("JSON Plan (EXPLAIN FORMAT=JSON)", "simple-sql-query-analyzer")}
+          {queryCost !== null && (
+            <span className="ml-2 font-normal text-gray-500">
+              {sprintf(
+                /* translators: %s is the estimated cost of the query */
+                __("query cost %s", "simple-sql-query-analyzer"),
+                formatNumber(queryCost),
+              )}
+            </span>
+          )}
+        </h4>
+        <button
+          type="button"
+          onClick={() => setShowRaw(!showRaw)}
+          className="px-2 py-0.5 text-xs text-blue-600 hover:bg-blue-50 rounded cursor-pointer"
+        >
+          {showRaw
+            ? __("Hide JSON", "simple-sql-query-analyzer")
+            : __("Show JSON", "simple-sql-query-analyzer")}
+        </button>
+      </div>
+
+      {accesses.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          {plan.query_block.message ??
+            __("The plan does not access any table.", "simple-sql-query-analyzer")}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-gray-200 text-gray-600">
+                <th className="text-left px-2 py-1 font-semibold">
+                  {__("Table", "simple-sql-query-analyzer")}
+                </th>
+                <th className="text-left px-2 py-1 font-semibold">
+                  {__("Access", "simple-sql-query-analyzer")}
+                </th>
+                <th className="text-left px-2 py-1 font-semibold">
+                  {__("Key", "simple-sql-query-analyzer")}
+                </th>
+                <th className="text-left px-2 py-1 font-semibold">
+                  {__("Key parts", "simple-sql-query-analyzer")}
+                </th>
+                <th className="text-right px-2 py-1 font-semibold">
+                  {__("Key len", "simple-sql-query-analyzer")}
+                </th>
+                <th className="text-right px-2 py-1 font-semibold">
+                  {__("Rows/scan", "simple-sql-query-analyzer")}
+                </th>
+                <th className="text-right px-2 py-1 font-semibold">
+                  {__("Filtered", "simple-sql-query-analyzer")}
+                </th>
+                {hasActuals && (
+                  <>
+                    <th className="text-right px-2 py-1 font-semibold">
+                      {__("Actual rows", "simple-sql-query-analyzer")}
+                    </th>
+                    <th className="text-right px-2 py-1 font-semibold">
+                      {__("Actual filtered", "simple-sql-query-analyzer")}
+                    </th>
+                    <th className="text-right px-2 py-1 font-semibold">
+                      {__("Time (ms)", "simple-sql-query-analyzer")}
+                    </th>
+                  </>
+                )}
+                <th className="text-right px-2 py-1 font-semibold">
+                  {__("Read", "simple-sql-query-analyzer")}
+                </th>
+                <th className="text-right px-2 py-1 font-semibold">
+                  {__("Eval", "simple-sql-query-analyzer")}
+                </th>
+                <th className="text-right px-2 py-1 font-semibold">
+                  {__("Prefix", "simple-sql-query-analyzer")}
+                </th>
+                <th className="text-left px-2 py-1 font-semibold">
+                  {__("Flags", "simple-sql-query-analyzer")}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {accesses.map((access, i) => {
+                const { table } = access;
+                const flags = getFlags(access);
+                // MySQL reports rows_examined_per_scan, MariaDB rows
+                const estimatedRows = table.rows_examined_per_scan ?? table.rows;
+                const conditions = [
+                  table.index_condition &&
+                    sprintf(
+                      /* translators: %s is a condition pushed down to the storage engine */
+                      __("Index condition: %s", "simple-sql-query-analyzer"),
+                      table.index_condition,
+                    ),
+                  table.attached_condition &&
+                    sprintf(
+                      /* translators: %s is a condition evaluated on the rows read */
+                      __("Attached condition: %s", "simple-sql-query-analyzer"),
+                      table.attached_condition,
+                    ),
+                ].filter((condition): condition is string => Boolean(condition));
+
+                return (
+                  <Fragment key={i}>
+                    <tr
+                      className={`${conditions.length > 0 ? "" : "border-b"} border-gray-100 hover:bg-gray-50`}
+                    >
+                      <td
+                        className="px-2 py-1.5 font-mono text-gray-900"
+                        style={{ paddingLeft: `${0.5 + access.depth}rem` }}
+                      >
+                        {table.table_name}
+                        {access.selectId !== null && access.depth > 0 && (
+                          <span className="ml-1 text-gray-400">#{access.selectId}</span>
+                        )}
+                      </td>
+                      <td
+                        className={`px-2 py-1.5 font-mono ${
+                          SCAN_ACCESS_TYPES.has(table.access_type ?? "")
+                            ? "text-red-700 font-semibold"
+                            : "text-gray-700"
+                        }`}
+                      >
+                        {table.access_type ?? "—"}
+                      </td>
+                      <td
+                        className="px-2 py-1.5 font-mono text-gray-700"
+                        title={
+                          table.possible_keys?.length
+                            ? sprintf(
+                                /* translators: %s is a list of index names */
+                                __("Possible keys: %s", "simple-sql-query-analyzer"),
+                                table.possible_keys.join(", "),
+                              )
+                            : undefined
+                        }
+                      >
+                        {table.key ?? "—"}
+                      </td>
+                      <td className="px-2 py-1.5 font-mono text-gray-700">
+                        {table.used_key_parts?.join(", ") ?? "—"}
+                      </td>
+                      <td className="px-2 py-1.5 text-right font-mono">
+                        {table.key_length ?? "—"}
+                      </td>
+                      <td className="px-2 py-1.5 text-right font-mono">
+                        {estimatedRows !== undefined ? formatNumber(estimatedRows) : "—"}
+                      </td>
+                      <td className="px-2 py-1.5 text-right font-mono">
+                        {table.filtered !== undefined ? `${Number(table.filtered)}%` : "—"}
+                      </td>
+                      {hasActuals && (
+                        <>
+                          <td className="px-2 py-1.5 text-right font-mono">
+                            {table.r_rows !== undefined ? formatNumber(table.r_rows) : "—"}
+                          </td>
+                          <td className="px-2 py-1.5 text-right font-mono">
+                            {table.r_filtered !== undefined ? `${table.r_filtered}%` : "—"}
+                          </td>
+                          <td className="px-2 py-1.5 text-right font-mono">
+                            {table.r_total_time_ms !== undefined
+                              ? formatNumber(table.r_total_time_ms)
+                              : "—"}
+                          </td>
+                        </>
+                      )}
+                      <td className="px-2 py-1.5 text-right font-mono">
+                        {formatCost(table.cost_info?.read_cost)}
+                      </td>
+                      <td className="px-2 py-1.5 text-right font-mono">
+                        {formatCost(table.cost_info?.eval_cost)}
+                      </td>
+                      <td className="px-2 py-1.5 text-right font-mono">
+                        {formatCost(table.cost_info?.prefix_cost)}
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <div className="flex flex-wrap gap-1">
+                          {flags.map((flag) => (
+                            <span
+                              key={flag}
+                              className="px-1 rounded bg-gray-100 text-gray-700 whitespace-nowrap"
+                            >
+                              {flag}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                    {conditions.length > 0 && (
+                      <tr className="border-b border-gray-100">
+                        <td
+                          colSpan={columnCount}
+                          className="px-2 pb-1.5 font-mono text-gray-500 break-all"
+                          style={{ paddingLeft: `${1.5 + access.depth}rem` }}
+                        >
+                          {conditions.map((condition) => (
+                            <div key={condition}>{condition}</div>
+                          ))}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showRaw && (
+        <pre className="mt-3 bg-gray-50 border border-gray-200 rounded p-3 text-xs font-mono text-gray-700 overflow-x-auto max-h-96">
+          {JSON.stringify(plan, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+}
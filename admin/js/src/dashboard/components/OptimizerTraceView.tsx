@@ -0,0 +1,345 @@
+import { useMemo, useState } from "@wordpress/element";
+import { __, sprintf } from "@wordpress/i18n";
+import {
+  findTracePaths,
+  parseOptimizerTrace,
+  summarizeOptimizerTrace,
+} from "../utils/optimizerTrace";
+import { formatBytes, formatNumber } from "../utils/format";
+import type { OptimizerTrace } from "../types";
+
+interface OptimizerTraceViewProps {
+  trace: OptimizerTrace;
+}
+
+interface TraceNodeProps {
+  name: string;
+  value: unknown;
+  path: string;
+  depth: number;
+  isOpen: (path: string, depth: number) => boolean;
+  onToggle: (path: string) => void;
+  matches: Set<string>;
+}
+
+// Steps of the trace that explain the choice of access paths and join order
+const KEY_STEPS = new Set([
+  "potential_range_indexes",
+  "range_scan_alternatives",
+  "chosen_range_access_summary",
+  "considered_execution_plans",
+  "best_access_path",
+  "considered_access_paths",
+  "refine_plan",
+  "best_join_order",
+]);
+
+// Levels open before the user expands anything
+const DEFAULT_OPEN_DEPTH = 2;
+
+function formatEstimate(value: number | null): string {
+  if (value === null) {
+    return "—";
+  }
+  // Costs are often fractions, which formatNumber would round to 0
+  return value < 1e3 && !Number.isInteger(value) ? value.toFixed(2) : formatNumber(value);
+}
+
+function formatLeaf(value: unknown): string {
+  return typeof value === "string" ? `"${value}"` : String(value);
+}
+
+function getLeafClass(name: string, value: unknown): string {
+  if (name === "chosen" || name === "usable") {
+    return value === true ? "text-green-700 font-semibold" : "text-red-700 font-semibold";
+  }
+  if (name === "cause") {
+    return "bg-yellow-100 text-yellow-900 rounded px-1";
+  }
+  return typeof value === "string" ? "text-gray-700" : "text-blue-700";
+}
+
+function TraceNode({ name, value, path, depth, isOpen, onToggle, matches }: TraceNodeProps) {
+  const isMatch = matches.has(path);
+  const keyClass = `${KEY_STEPS.has(name) ? "text-purple-700 font-semibold" : "text-gray-900"} ${
+    isMatch ? "bg-yellow-200" : ""
+  }`;
+
+  if (typeof value !== "object" || value === null) {
+    return (
+      <div style={{ paddingLeft: `${depth}rem` }} className={isMatch ? "bg-yellow-50" : ""}>
+        <span className={keyClass}>{name}</span>
+        <span className="text-gray-400">: </span>
+        <span className={getLeafClass(name, value)}>{formatLeaf(value)}</span>
+      </div>
+    );
+  }
+
+  const entries = Object.entries(value);
+  const open = isOpen(path, depth);
+  const isArray = Array.isArray(value);
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => onToggle(path)}
+        style={{ paddingLeft: `${depth}rem` }}
+        className="w-full text-left hover:bg-gray-100 cursor-pointer"
+      >
+        <span className="text-gray-500 mr-1">{open ? "▼" : "▶"}</span>
+        <span className={keyClass}>{name}</span>
+        <span className="text-gray-400 ml-1">
+          {isArray ? `[${entries.length}]` : `{${entries.length}}`}
+        </span>
+      </button>
+      {open &&
+        entries.map(([childName, child]) => (
+          <TraceNode
+            key={childName}
+            name={childName}
+            value={child}
+            path={`${path}/${childName}`}
+            depth={depth + 1}
+            isOpen={isOpen}
+            onToggle={onToggle}
+            matches={matches}
+          />
+        ))}
+    </div>
+  );
+}
+
+/**
+ * The optimizer trace of a query: the access paths the optimizer weighed with
+ * their costs and verdicts, the final join order, and a searchable tree of the
+ * whole trace. The plan shows what was chosen; the trace shows why.
+ */
+export function OptimizerTraceView({ trace }: OptimizerTraceViewProps) {
+  const [search, setSearch] = useState("");
+  // Nodes shallower than openDepth start open; toggled holds those the user flipped
+  const [openDepth, setOpenDepth] = useState(DEFAULT_OPEN_DEPTH);
+  const [toggled, setToggled] = useState<Set<string>>(new Set());
+  const [showTree, setShowTree] = useState(false);
+
+  const parsed = useMemo(() => parseOptimizerTrace(trace.trace), [trace.trace]);
+  const summary = useMemo(() => summarizeOptimizerTrace(parsed), [parsed]);
+  const { matches, ancestors } = useMemo(() => findTracePaths(parsed, search), [parsed, search]);
+
+  const isOpen = (path: string, depth: number) =>
+    ancestors.has(path) || depth < openDepth !== toggled.has(path);
+
+  const handleToggle = (path: string) => {
+    // Nodes held open by the search stay open until the search changes
+    if (ancestors.has(path)) {
+      return;
+    }
+    const next = new Set(toggled);
+    if (!next.delete(path)) {
+      next.add(path);
+    }
+    setToggled(next);
+  };
+
+  const expandTo = (depth: number) => {
+    setOpenDepth(depth);
+    setToggled(new Set());
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+      <h4 className="text-xs font-semibold text-gray-700 m-0">
+        {__("Optimizer Trace", "simple-sql-query-analyzer")}
+      </h4>
+
+      {trace.error && <p className="text-xs text-red-700 m-0">{trace.error}</p>}
+
+      {trace.missing_bytes > 0 && (
+        <p className="text-xs text-yellow-800 bg-yellow-50 rounded px-2 py-1 m-0">
+          {sprintf(
+            /* translators: %s is the size of the missing part, e.g. 2.5 KB */
+            __(
+              "The trace was cut off by optimizer_trace_max_mem_size; %s are missing.",
+              "simple-sql-query-analyzer",
+            ),
+            formatBytes(trace.missing_bytes),
+          )}
+        </p>
+      )}
+
+      {trace.trace && !parsed && (
+        <p className="text-xs text-gray-500 m-0">
+          {__(
+            "The trace is not valid JSON, most likely because it was cut off.",
+            "simple-sql-query-analyzer",
+          )}
+        </p>
+      )}
+
+      {summary.joinOrder.length > 0 && (
+        <div>
+          <div className="text-xs font-medium text-gray-500 mb-1">
+            {__("Final join order", "simple-sql-query-analyzer")}
+          </div>
+          <div className="flex flex-wrap items-center gap-1 text-xs font-mono">
+            {summary.joinOrder.map((table, i) => (
+              <span key={i} className="flex items-center gap-1">
+                {i > 0 && <span className="text-gray-400">→</span>}
+                <span className="px-1.5 py-0.5 bg-purple-100 text-purple-800 rounded">{table}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {summary.accessPaths.length > 0 && (
+        <div className="overflow-x-auto">
+          <div className="text-xs font-medium text-gray-500 mb-1">
+            {__("Considered access paths", "simple-sql-query-analyzer")}
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-gray-200 text-gray-600">
+                <th className="text-left px-2 py-1 font-semibold">
+                  {__("Table", "simple-sql-query-analyzer")}
+                </th>
+                <th className="text-left px-2 py-1 font-semibold">
+                  {__("Stage", "simple-sql-query-analyzer")}
+                </th>
+                <th className="text-left px-2 py-1 font-semibold">
+                  {__("Access", "simple-sql-query-analyzer")}
+                </th>
+                <th className="text-left px-2 py-1 font-semibold">
+                  {__("Index", "simple-sql-query-analyzer")}
+                </th>
+                <th className="text-right px-2 py-1 font-semibold">
+                  {__("Rows", "simple-sql-query-analyzer")}
+                </th>
+                <th className="text-right px-2 py-1 font-semibold">
+                  {__("Cost", "simple-sql-query-analyzer")}
+                </th>
+                <th className="text-left px-2 py-1 font-semibold">
+                  {__("Verdict", "simple-sql-query-analyzer")}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.accessPaths.map((path, i) => (
+                <tr
+                  key={i}
+                  className={`border-b border-gray-100 ${
+                    path.chosen === true ? "bg-green-50" : path.chosen === false ? "bg-red-50" : ""
+                  }`}
+                >
+                  <td className="px-2 py-1.5 font-mono text-gray-900">
+                    {path.table}
+                    {path.planPrefix.length > 0 && (
+                      <span
+                        className="ml-1 text-gray-400"
+                        title={__("Tables joined before this one", "simple-sql-query-analyzer")}
+                      >
+                        ({__("after", "simple-sql-query-analyzer")} {path.planPrefix.join(", ")})
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-2 py-1.5 text-gray-600">
+                    {path.source === "join"
+                      ? __("Join planning", "simple-sql-query-analyzer")
+                      : __("Range analysis", "simple-sql-query-analyzer")}
+                  </td>
+                  <td className="px-2 py-1.5 font-mono text-gray-700">
+                    {path.accessType ?? (path.source === "range" ? "range" : "—")}
+                  </td>
+                  <td className="px-2 py-1.5 font-mono text-gray-700">{path.index ?? "—"}</td>
+                  <td className="px-2 py-1.5 text-right font-mono">{formatEstimate(path.rows)}</td>
+                  <td className="px-2 py-1.5 text-right font-mono">{formatEstimate(path.cost)}</td>
+                  <td className="px-2 py-1.5">
+                    {path.chosen === true && (
+                      <span className="text-green-700 font-semibold">
+                        {__("chosen", "simple-sql-query-analyzer")}
+                      </span>
+                    )}
+                    {path.chosen === false && (
+                      <span className="text-red-700">
+                        {__("rejected", "simple-sql-query-analyzer")}
+                        {path.cause && <span className="ml-1 font-mono">({path.cause})</span>}
+                      </span>
+                    )}
+                    {path.chosen === null && (
+                      <span className="text-gray-500">
+                        {__("baseline", "simple-sql-query-analyzer")}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {parsed !== null && (
+        <div>
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <button
+              type="button"
+              onClick={() => setShowTree(!showTree)}
+              className="px-2 py-0.5 text-xs text-blue-600 hover:bg-blue-50 rounded cursor-pointer"
+            >
+              {showTree
+                ? __("Hide full trace", "simple-sql-query-analyzer")
+                : __("Show full trace", "simple-sql-query-analyzer")}
+            </button>
+            {showTree && (
+              <>
+                <input
+                  type="search"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder={__("Search keys and values", "simple-sql-query-analyzer")}
+                  className="flex-1 min-w-40 px-2 py-1 border border-gray-300 rounded text-xs"
+                />
+                {search.trim() && (
+                  <span className="text-xs text-gray-500">
+                    {sprintf(
+                      /* translators: %d is the number of matching trace entries */
+                      __("%d matches", "simple-sql-query-analyzer"),
+                      matches.size,
+                    )}
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => expandTo(Infinity)}
+                  className="px-2 py-0.5 text-xs text-blue-600 hover:bg-blue-50 rounded cursor-pointer"
+                >
+                  {__("Expand all", "simple-sql-query-analyzer")}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => expandTo(1)}
+                  className="px-2 py-0.5 text-xs text-blue-600 hover:bg-blue-50 rounded cursor-pointer"
+                >
+                  {__("Collapse all", "simple-sql-query-analyzer")}
+                </button>
+              </>
+            )}
+          </div>
+          {showTree && (
+            <div className="bg-gray-50 border border-gray-200 rounded p-2 text-xs font-mono overflow-auto max-h-[32rem]">
+              <TraceNode
+                name={__("trace", "simple-sql-query-analyzer")}
+                value={parsed}
+                path=""
+                depth={0}
+                isOpen={isOpen}
+                onToggle={handleToggle}
+                matches={matches}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
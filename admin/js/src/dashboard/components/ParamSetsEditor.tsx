@@ -0,0 +1,116 @@
+import { __, sprintf } from "@wordpress/i18n";
+import { getDefaultSetName } from "../utils/queryParams";
+import type { Placeholder } from "../utils/queryParams";
+import type { ParamSet } from "../types";
+
+interface ParamSetsEditorProps {
+  placeholders: Placeholder[];
+  sets: ParamSet[];
+  onChange: (sets: ParamSet[]) => void;
+}
+
+export function ParamSetsEditor({ placeholders, sets, onChange }: ParamSetsEditorProps) {
+  const updateSet = (id: string, changes: Partial<ParamSet>) => {
+    onChange(sets.map((set) => (set.id === id ? { ...set, ...changes } : set)));
+  };
+
+  const updateValue = (set: ParamSet, index: number, value: string) => {
+    const values = placeholders.map((_, i) => set.values[i] ?? "");
+    values[index] = value;
+    updateSet(set.id, { values });
+  };
+
+  const addSet = () => {
+    onChange([
+      ...sets,
+      {
+        id: Date.now().toString(),
+        name: getDefaultSetName(sets.length),
+        values: placeholders.map(() => ""),
+      },
+    ]);
+  };
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-xs font-semibold text-gray-600">
+          {__("Value sets", "simple-sql-query-analyzer")}
+        </label>
+        <button
+          type="button"
+          onClick={addSet}
+          className="px-2 py-0.5 text-xs text-blue-600 hover:bg-blue-50 rounded cursor-pointer"
+        >
+          {__("+ Add value set", "simple-sql-query-analyzer")}
+        </button>
+      </div>
+
+      {sets.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          {__(
+            "This query has placeholders. Add a value set for each case to compare, e.g. a rare and a common post type; each set is analyzed as its own query.",
+            "simple-sql-query-analyzer",
+          )}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="py-1 pr-2 font-semibold">
+                  {__("Name", "simple-sql-query-analyzer")}
+                </th>
+                {placeholders.map((placeholder, i) => (
+                  <th key={placeholder.start} className="py-1 pr-2 font-semibold font-mono">
+                    {sprintf(
+                      /* translators: 1: placeholder position, 2: placeholder, e.g. %s */
+                      __("#%1$d %2$s", "simple-sql-query-analyzer"),
+                      i + 1,
+                      placeholder.type === "?" ? "?" : `%${placeholder.type}`,
+                    )}
+                  </th>
+                ))}
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {sets.map((set) => (
+                <tr key={set.id}>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="text"
+                      value={set.name}
+                      onChange={(e) => updateSet(set.id, { name: e.target.value })}
+                      className="w-full min-w-20 px-2 py-1 border border-gray-300 rounded text-xs"
+                    />
+                  </td>
+                  {placeholders.map((placeholder, i) => (
+                    <td key={placeholder.start} className="py-1 pr-2">
+                      <input
+                        type="text"
+                        value={set.values[i] ?? ""}
+                        onChange={(e) => updateValue(set, i, e.target.value)}
+                        className="w-full min-w-20 px-2 py-1 border border-gray-300 rounded text-xs font-mono"
+                      />
+                    </td>
+                  ))}
+                  <td className="py-1 text-right">
+                    <button
+                      type="button"
+                      onClick={() => onChange(sets.filter((s) => s.id !== set.id))}
+                      className="px-2 py-1 text-red-600 hover:bg-red-50 rounded cursor-pointer"
+                      title={__("Remove value set", "simple-sql-query-analyzer")}
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from "@wordpress/element";
+import { __, sprintf } from "@wordpress/i18n";
+import { getExplainNodes, getRawExplain, parseExplainTree } from "../utils/explainParser";
+import { countDiffStatuses, diffPlans, type PlanDiffChange, type PlanDiffNode } from "../utils/planDiff";
+import { formatNumber } from "../utils/format";
+import type { QueryResult } from "../types";
+
+interface PlanDiffProps {
+  queries: QueryResult[];
+}
+
+const STATUS_STYLES: Record<PlanDiffNode["status"], string> = {
+  added: "bg-green-50 text-green-900",
+  removed: "bg-red-50 text-red-900",
+  changed: "bg-yellow-50 text-yellow-900",
+  unchanged: "text-gray-700",
+};
+
+const CHANGE_LABELS: Record<PlanDiffChange, string> = {
+  access: __("access type", "simple-sql-query-analyzer"),
+  index: __("index", "simple-sql-query-analyzer"),
+  condition: __("condition", "simple-sql-query-analyzer"),
+};
+
+export function PlanDiff({ queries }: PlanDiffProps) {
+  const comparable = queries.filter((q) => !q.error && getExplainNodes(q).length > 0);
+  const [beforeId, setBeforeId] = useState(comparable[0]?.id ?? "");
+  const [afterId, setAfterId] = useState(comparable[1]?.id ?? "");
+
+  if (comparable.length < 2) {
+    return (
+      <div className="p-3 bg-gray-50 border border-gray-200 rounded text-gray-600 text-xs">
+        {__(
+          "Analyze at least two queries without errors to compare their execution plans.",
+          "simple-sql-query-analyzer",
+        )}
+      </div>
+    );
+  }
+
+  const before = comparable.find((q) => q.id === beforeId) ?? comparable[0];
+  const after = comparable.find((q) => q.id === afterId) ?? comparable[1];
+
+  // Prefer ANALYZE plans when both queries have them
+  const useAnalyze = Boolean(getRawExplain(before.analyze) && getRawExplain(after.analyze));
+  const planOf = (query: QueryResult) =>
+    useAnalyze ? parseExplainTree(getRawExplain(query.analyze) ?? "") : getExplainNodes(query);
+
+  const diff = diffPlans(planOf(before), planOf(after));
+  const counts = countDiffStatuses(diff);
+
+  const renderSelect = (value: string, onChange: (id: string) => void, label: string) => (
+    <label className="flex-1 text-xs font-semibold text-gray-600">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm font-normal"
+      >
+        {comparable.map((q) => (
+          <option key={q.id} value={q.id}>
+            {q.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-3">
+        {renderSelect(before.id, setBeforeId, __("Before", "simple-sql-query-analyzer"))}
+        {renderSelect(after.id, setAfterId, __("After", "simple-sql-query-analyzer"))}
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-700">
+          {useAnalyze
+            ? __("Comparing actual plans (ANALYZE)", "simple-sql-query-analyzer")
+            : __("Comparing estimated plans (EXPLAIN)", "simple-sql-query-analyzer")}
+        </span>
+        <span className="px-1.5 py-0.5 rounded bg-green-100 text-green-800">
+          {sprintf(
+            /* translators: %d is the number of plan nodes */
+            __("%d added", "simple-sql-query-analyzer"),
+            counts.added,
+          )}
+        </span>
+        <span className="px-1.5 py-0.5 rounded bg-red-100 text-red-800">
+          {sprintf(
+            /* translators: %d is the number of plan nodes */
+            __("%d removed", "simple-sql-query-analyzer"),
+            counts.removed,
+          )}
+        </span>
+        <span className="px-1.5 py-0.5 rounded bg-yellow-100 text-yellow-800">
+          {sprintf(
+            /* translators: %d is the number of plan nodes */
+            __("%d changed", "simple-sql-query-analyzer"),
+            counts.changed,
+          )}
+        </span>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded">
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="border-b border-gray-200 bg-gray-50 font-sans">
+              <th className="text-left px-2 py-1 text-gray-600 font-semibold w-[40%]">{before.label}</th>
+              <th className="text-left px-2 py-1 text-gray-600 font-semibold w-[40%]">{after.label}</th>
+              <th className="text-right px-2 py-1 text-gray-600 font-semibold">
+                {__("Cost Δ", "simple-sql-query-analyzer")}
+              </th>
+              <th className="text-right px-2 py-1 text-gray-600 font-semibold">
+                {__("Rows Δ", "simple-sql-query-analyzer")}
+              </th>
+            </tr>
+          </thead>
+          <tbody>{renderDiffRows(diff, 0)}</tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function renderDiffRows(nodes: PlanDiffNode[], depth: number, keyPrefix: string = ""): React.ReactNode[] {
+  return nodes.flatMap((node, idx) => [
+    <tr key={`${keyPrefix}${idx}`} className={`border-b border-gray-100 ${STATUS_STYLES[node.status]}`}>
+      <td className="px-2 py-1 align-top" style={{ paddingLeft: `${depth * 12 + 8}px` }}>
+        {node.before ? node.before.operation : ""}
+      </td>
+      <td className="px-2 py-1 align-top" style={{ paddingLeft: `${depth * 12 + 8}px` }}>
+        {node.after ? node.after.operation : ""}
+        {node.changes.length > 0 && (
+          <div className="mt-0.5 font-sans text-yellow-800">
+            {sprintf(
+              /* translators: %s is a list of changed plan properties */
+              __("Changed: %s", "simple-sql-query-analyzer"),
+              node.changes.map((change) => CHANGE_LABELS[change]).join(", "),
+            )}
+          </div>
+        )}
+      </td>
+      <td className="px-2 py-1 text-right align-top whitespace-nowrap">{formatDelta(node.costDelta)}</td>
+      <td className="px-2 py-1 text-right align-top whitespace-nowrap">{formatDelta(node.rowsDelta)}</td>
+    </tr>,
+    ...renderDiffRows(node.children, depth + 1, `${keyPrefix}${idx}-`),
+  ]);
+}
+
+function formatDelta(delta: number | null): React.ReactNode {
+  if (delta === null) {
+    return "—";
+  }
+  if (delta === 0) {
+    return <span className="text-gray-400">0</span>;
+  }
+
+  // Lower cost and fewer rows are improvements
+  const className = delta < 0 ? "text-green-700" : "text-red-700";
+  const sign = delta < 0 ? "−" : "+";
+
+  return (
+    <span className={className}>
+      {sign}
+      {formatNumber(Math.abs(delta))}
+    </span>
+  );
+}
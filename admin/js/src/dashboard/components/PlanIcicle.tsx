@@ -0,0 +1,147 @@
+import { useState } from "@wordpress/element";
+import { __ } from "@wordpress/i18n";
+import { formatNumber, formatTime } from "../utils/format";
+import type { ExclusiveMetrics } from "../utils/planMetrics";
+import type { ExplainNode } from "../types";
+
+interface PlanIcicleProps {
+  nodes: ExplainNode[];
+  exclusiveMetrics: Map<ExplainNode, ExclusiveMetrics>;
+}
+
+interface IcicleBar {
+  node: ExplainNode;
+  depth: number;
+  /** Left offset as a fraction of the chart width */
+  x: number;
+  /** Width as a fraction of the chart width */
+  width: number;
+}
+
+const ROW_HEIGHT = 22;
+
+export function PlanIcicle({ nodes, exclusiveMetrics }: PlanIcicleProps) {
+  const [hovered, setHovered] = useState<ExplainNode | null>(null);
+
+  const useTime = hasActualTime(nodes);
+  const bars = layoutIcicle(nodes, useTime);
+  const maxDepth = Math.max(0, ...bars.map((bar) => bar.depth));
+  const totalValue = nodes.reduce((sum, node) => sum + getNodeValue(node, useTime), 0);
+
+  if (bars.length === 0) {
+    return null;
+  }
+
+  const formatValue = (value: number) => (useTime ? formatTime(value) : formatNumber(value));
+
+  return (
+    <div>
+      <div className="text-xs text-gray-500 mb-2">
+        {useTime
+          ? __("Bar width is proportional to actual time (all loops)", "simple-sql-query-analyzer")
+          : __("Bar width is proportional to estimated cost", "simple-sql-query-analyzer")}
+      </div>
+
+      <div
+        className="relative w-full bg-gray-50 rounded overflow-hidden"
+        style={{ height: `${(maxDepth + 1) * ROW_HEIGHT}px` }}
+        onMouseLeave={() => setHovered(null)}
+      >
+        {bars.map((bar, idx) => {
+          const self = exclusiveMetrics.get(bar.node);
+          const selfValue = (useTime ? self?.time : self?.cost) ?? 0;
+
+          return (
+            <div
+              key={idx}
+              onMouseEnter={() => setHovered(bar.node)}
+              className={`absolute px-1 border border-white rounded-sm text-xs font-mono truncate cursor-default ${getHeatColor(
+                totalValue > 0 ? selfValue / totalValue : 0,
+              )} ${hovered === bar.node ? "ring-2 ring-blue-500" : ""}`}
+              style={{
+                left: `${bar.x * 100}%`,
+                width: `${bar.width * 100}%`,
+                top: `${bar.depth * ROW_HEIGHT}px`,
+                height: `${ROW_HEIGHT}px`,
+                lineHeight: `${ROW_HEIGHT - 2}px`,
+              }}
+            >
+              {bar.node.operation}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Hover details */}
+      <div className="mt-2 p-2 bg-gray-50 border border-gray-200 rounded text-xs min-h-[3rem]">
+        {hovered ? (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+            <dt className="font-semibold text-gray-600">{__("Operation", "simple-sql-query-analyzer")}</dt>
+            <dd className="font-mono text-gray-900 break-words">{hovered.operation}</dd>
+            <dt className="font-semibold text-gray-600">{__("Table", "simple-sql-query-analyzer")}</dt>
+            <dd className="font-mono text-gray-900">{hovered.table ?? "—"}</dd>
+            <dt className="font-semibold text-gray-600">{__("Index", "simple-sql-query-analyzer")}</dt>
+            <dd className="font-mono text-gray-900">{hovered.index ?? "—"}</dd>
+            <dt className="font-semibold text-gray-600">{__("Condition", "simple-sql-query-analyzer")}</dt>
+            <dd className="font-mono text-gray-900 break-words">{hovered.condition ?? "—"}</dd>
+            <dt className="font-semibold text-gray-600">
+              {useTime ? __("Time", "simple-sql-query-analyzer") : __("Cost", "simple-sql-query-analyzer")}
+            </dt>
+            <dd className="text-gray-900">{formatValue(getNodeValue(hovered, useTime))}</dd>
+          </dl>
+        ) : (
+          <span className="text-gray-500 italic">
+            {__("Hover a bar to see its details", "simple-sql-query-analyzer")}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function hasActualTime(nodes: ExplainNode[]): boolean {
+  return nodes.some((node) => node.actual_time !== null || hasActualTime(node.children));
+}
+
+function getNodeValue(node: ExplainNode, useTime: boolean): number {
+  const value = useTime ? node.actual_time?.total : node.cost;
+  if (value !== null && value !== undefined) {
+    return value;
+  }
+
+  // Nodes without metrics take the size of their subtree
+  return node.children.reduce((sum, child) => sum + getNodeValue(child, useTime), 0);
+}
+
+function layoutIcicle(nodes: ExplainNode[], useTime: boolean): IcicleBar[] {
+  const bars: IcicleBar[] = [];
+
+  const place = (siblings: ExplainNode[], x: number, width: number, parentValue: number, depth: number) => {
+    const values = siblings.map((node) => getNodeValue(node, useTime));
+    const siblingsTotal = values.reduce((sum, value) => sum + value, 0);
+    // Children may add up to more than their parent (e.g. inner side of a nested loop)
+    const scale = Math.max(parentValue, siblingsTotal);
+
+    let offset = x;
+    siblings.forEach((node, idx) => {
+      const nodeWidth =
+        scale > 0 ? (values[idx] / scale) * width : width / siblings.length;
+
+      if (nodeWidth > 0) {
+        bars.push({ node, depth, x: offset, width: nodeWidth });
+        place(node.children, offset, nodeWidth, values[idx], depth + 1);
+      }
+      offset += nodeWidth;
+    });
+  };
+
+  place(nodes, 0, 1, 0, 0);
+  return bars;
+}
+
+function getHeatColor(share: number): string {
+  if (share >= 0.3) return "bg-red-300 text-red-950";
+  if (share >= 0.15) return "bg-orange-300 text-orange-950";
+  if (share >= 0.05) return "bg-amber-200 text-amber-950";
+  return "bg-yellow-100 text-yellow-900";
+}
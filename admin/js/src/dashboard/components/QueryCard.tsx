@@ -1,7 +1,21 @@
 import { useState } from "@wordpress/element";
+import { AnalyzeProtectionBadge } from "./AnalyzeProtectionBadge";
+import { BenchmarkPanel } from "./BenchmarkPanel";
 import { EnhancedExplainTree } from "./EnhancedExplainTree";
+import { Findings } from "./Findings";
+import { IndexRecommendations } from "./IndexRecommendations";
+import { JsonPlanView } from "./JsonPlanView";
+import { OptimizerTraceView } from "./OptimizerTraceView";
+import { RawExplainOutput } from "./RawExplainOutput";
+import { SessionStatusGrid } from "./SessionStatusGrid";
 import { TableInfo } from "./TableInfo";
-import { __ } from "@wordpress/i18n";
+import { WhatIfIndexPanel } from "./WhatIfIndexPanel";
+import { detectAntiPatterns } from "../utils/antiPatterns";
+import { getRawExplain } from "../utils/explainParser";
+import { adviseIndexes, findPlanIndexes } from "../utils/indexAdvisor";
+import { extractColumnReferences } from "../utils/queryColumns";
+import { formatTime } from "../utils/format";
+import { __, sprintf } from "@wordpress/i18n";
 import type { QueryResult } from "../types";
 
 interface QueryCardProps {
@@ -31,6 +45,23 @@ export function QueryCard({ query, index }: QueryCardProps) {
     );
   }
 
+  // Placeholder shown while the query's own request is running
+  if (query.execution_time === undefined) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-4 py-3 bg-gray-50 flex items-center justify-between gap-2">
+          <h3 className="text-sm font-semibold text-gray-700 m-0">{query.label}</h3>
+          <span className="inline-flex items-center text-xs text-gray-500">
+            <span className="animate-spin h-3 w-3 mr-2 border-2 border-blue-600 border-t-transparent rounded-full" />
+            {__("Analyzing...", "simple-sql-query-analyzer")}
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  const indexAdvice = adviseIndexes(query);
+
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
       <button
@@ -40,9 +71,28 @@ export function QueryCard({ query, index }: QueryCardProps) {
         <div>
           <h3 className="text-sm font-semibold text-gray-900 m-0">
             {query.label}
-            <span className="text-xs text-gray-600 ml-2">
-              ({query.execution_time ? `${(query.execution_time * 1000).toFixed(1)}ms` : __("Pending", 'simple-sql-query-analyzer')})
+            <span
+              className="text-xs font-normal text-gray-600 ml-2"
+              title={__(
+                "Time the server spent on EXPLAIN and metadata lookups, not the query's execution time",
+                "simple-sql-query-analyzer",
+              )}
+            >
+              {sprintf(
+                /* translators: %s is a duration */
+                __("analysis overhead %s", "simple-sql-query-analyzer"),
+                formatTime(query.execution_time * 1000),
+              )}
             </span>
+            {query.benchmark?.stats && (
+              <span className="text-xs font-normal text-blue-800 bg-blue-100 rounded px-1.5 py-0.5 ml-2">
+                {sprintf(
+                  /* translators: %s is the median execution time of the benchmark runs */
+                  __("median %s", "simple-sql-query-analyzer"),
+                  formatTime(query.benchmark.stats.median),
+                )}
+              </span>
+            )}
           </h3>
         </div>
         <span className="text-xl">{isExpanded ? "▼" : "▶"}</span>
@@ -60,23 +110,63 @@ export function QueryCard({ query, index }: QueryCardProps) {
             </pre>
           </div>
 
+          {query.benchmark && <BenchmarkPanel benchmark={query.benchmark} />}
+
+          {query.session_status && <SessionStatusGrid status={query.session_status} />}
+
+          {/* Anti-pattern Findings */}
+          <Findings findings={detectAntiPatterns(query)} />
+
           {/* Execution Plans */}
+          {query.analyze_protection && (
+            <AnalyzeProtectionBadge protection={query.analyze_protection} />
+          )}
+
           {query.analyze && query.analyze.length > 0 && (
             <EnhancedExplainTree
               rawExplain={query.analyze[0]["EXPLAIN"] as string}
               isAnalyze={true}
+              estimatedExplain={query.explain?.[0]?.["EXPLAIN"] as string | undefined}
             />
           )}
 
-          {query.explain && query.explain.length > 0 && (
-            <EnhancedExplainTree
-              rawExplain={query.explain[0]["EXPLAIN"] as string}
-              isAnalyze={false}
-            />
+          {getRawExplain(query.analyze_json) && (
+            <JsonPlanView rawJson={getRawExplain(query.analyze_json) ?? ""} isAnalyze={true} />
+          )}
+
+          {query.explain_format === "traditional" ? (
+            <RawExplainOutput data={query.explain ?? []} />
+          ) : (
+            query.explain &&
+            query.explain.length > 0 && (
+              <EnhancedExplainTree
+                rawExplain={query.explain[0]["EXPLAIN"] as string}
+                isAnalyze={false}
+              />
+            )
+          )}
+
+          {getRawExplain(query.explain_json) && (
+            <JsonPlanView rawJson={getRawExplain(query.explain_json) ?? ""} />
           )}
 
+          {query.optimizer_trace && <OptimizerTraceView trace={query.optimizer_trace} />}
+
+          {/* Index Recommendations */}
+          <IndexRecommendations advice={indexAdvice} />
+
+          {/* What-if Index Testing */}
+          <WhatIfIndexPanel query={query} recommendations={indexAdvice.recommendations} />
+
           {/* Tables */}
-          {query.tables.length > 0 && <TableInfo tables={query.tables} indexes={query.indexes} />}
+          {query.tables.length > 0 && (
+            <TableInfo
+              tables={query.tables}
+              indexes={query.indexes}
+              references={extractColumnReferences(query.query, query.tables)}
+              planIndexes={findPlanIndexes(query)}
+            />
+          )}
         </div>
       )}
     </div>
@@ -1,25 +1,61 @@
 import { __, _n, sprintf } from "@wordpress/i18n";
-import { QueryInput as QueryInputType } from "../types";
+import {
+  BenchmarkSettings,
+  ParamSet,
+  QueryInput as QueryInputType,
+  QueryResult,
+  Table,
+} from "../types";
+import { AnalyzeProtectionBadge } from "./AnalyzeProtectionBadge";
 import { QueryInput } from "./QueryInput";
 
 interface QueryFormProps {
   queries: QueryInputType[];
+  /** Tables and columns of the site database, for autocomplete */
+  schema: Table[];
   includeAnalyze: boolean;
+  includeJson: boolean;
+  includeStatus: boolean;
+  includeTrace: boolean;
+  /** Milliseconds */
+  analyzeTimeLimit: number;
+  benchmark: BenchmarkSettings;
+  /** Results of the last analysis, to show how each query's ANALYZE was protected */
+  results?: QueryResult[];
   loading: boolean;
   onQueriesChange: (queries: QueryInputType[]) => void;
   onAnalyzeChange: (include: boolean) => void;
+  onJsonChange: (include: boolean) => void;
+  onStatusChange: (include: boolean) => void;
+  onTraceChange: (include: boolean) => void;
+  onTimeLimitChange: (milliseconds: number) => void;
+  onBenchmarkChange: (benchmark: BenchmarkSettings) => void;
   onSubmit: () => void;
   onClear: () => void;
+  onTrack?: (query: QueryInputType) => void;
 }
 
 export function QueryForm({
   queries,
+  schema,
   includeAnalyze,
+  includeJson,
+  includeStatus,
+  includeTrace,
+  analyzeTimeLimit,
+  benchmark,
+  results = [],
   loading,
   onQueriesChange,
   onAnalyzeChange,
+  onJsonChange,
+  onStatusChange,
+  onTraceChange,
+  onTimeLimitChange,
+  onBenchmarkChange,
   onSubmit,
   onClear,
+  onTrack,
 }: QueryFormProps) {
   const handleAddQuery = () => {
     const newQuery: QueryInputType = {
@@ -38,8 +74,19 @@ export function QueryForm({
     onQueriesChange(queries.map((q) => (q.id === id ? { ...q, [field]: value } : q)));
   };
 
+  const handleUpdateParams = (id: string, params: ParamSet[]) => {
+    onQueriesChange(queries.map((q) => (q.id === id ? { ...q, params } : q)));
+  };
+
   const hasValidQueries = queries.some((q) => q.query.trim());
 
+  // A template has one result per value set
+  const getProtectedResults = (id: string) =>
+    results.filter(
+      (result) =>
+        (result.id === id || result.binding?.template_id === id) && result.analyze_protection,
+    );
+
   return (
     <form
       onSubmit={(e) => {
@@ -50,17 +97,35 @@ export function QueryForm({
     >
       {/* Queries List */}
       <div className="space-y-3">
-        {queries.map((query, index) => (
-          <QueryInput
-            key={query.id}
-            query={query}
-            index={index}
-            totalQueries={queries.length}
-            onLabelChange={(value) => handleUpdateQuery(query.id, "label", value)}
-            onQueryChange={(value) => handleUpdateQuery(query.id, "query", value)}
-            onRemove={() => handleRemoveQuery(query.id)}
-          />
-        ))}
+        {queries.map((query, index) => {
+          const protectedResults = getProtectedResults(query.id);
+
+          return (
+            <div key={query.id} className="space-y-1">
+              <QueryInput
+                query={query}
+                schema={schema}
+                index={index}
+                totalQueries={queries.length}
+                onLabelChange={(value) => handleUpdateQuery(query.id, "label", value)}
+                onQueryChange={(value) => handleUpdateQuery(query.id, "query", value)}
+                onParamsChange={(params) => handleUpdateParams(query.id, params)}
+                onRemove={() => handleRemoveQuery(query.id)}
+                onTrack={onTrack ? () => onTrack(query) : undefined}
+              />
+              {protectedResults.map(
+                (result) =>
+                  result.analyze_protection && (
+                    <AnalyzeProtectionBadge
+                      key={result.id}
+                      protection={result.analyze_protection}
+                      label={result.binding?.set}
+                    />
+                  ),
+              )}
+            </div>
+          );
+        })}
       </div>
 
       {/* Add Query Button */}
@@ -87,11 +152,155 @@ export function QueryForm({
           <label htmlFor="include-analyze" className="ml-2 text-sm text-gray-700 cursor-pointer">
             {__("Include ANALYZE results for all queries", "simple-sql-query-analyzer")}
             <span className="ml-1 text-xs text-gray-500">
-              ({__("Available in MySQL 8.0 and later", "simple-sql-query-analyzer")})
+              (
+              {__(
+                "EXPLAIN ANALYZE on MySQL 8.0.18 and later, ANALYZE FORMAT=JSON for SELECT on MariaDB",
+                "simple-sql-query-analyzer",
+              )}
+              )
             </span>
           </label>
         </div>
 
+        {includeAnalyze && (
+          <div className="ml-6 mb-4 space-y-2">
+            <p className="text-xs text-gray-500 m-0">
+              {__(
+                "ANALYZE executes the statement. SELECT runs in a read-only transaction; INSERT, UPDATE and DELETE run in a transaction that is always rolled back, and are refused on tables that cannot roll back, such as MyISAM.",
+                "simple-sql-query-analyzer",
+              )}
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-center mb-4">
+          <input
+            id="include-json"
+            type="checkbox"
+            checked={includeJson}
+            onChange={(e) => onJsonChange(e.currentTarget.checked)}
+            disabled={loading}
+            className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500 cursor-pointer"
+          />
+          <label htmlFor="include-json" className="ml-2 text-sm text-gray-700 cursor-pointer">
+            {__("Include EXPLAIN FORMAT=JSON plans", "simple-sql-query-analyzer")}
+            <span className="ml-1 text-xs text-gray-500">
+              ({__("Key parts, filtered rows and costs per table", "simple-sql-query-analyzer")})
+            </span>
+          </label>
+        </div>
+
+        <div className="flex items-center mb-4">
+          <input
+            id="include-status"
+            type="checkbox"
+            checked={includeStatus}
+            onChange={(e) => onStatusChange(e.currentTarget.checked)}
+            disabled={loading}
+            className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500 cursor-pointer"
+          />
+          <label htmlFor="include-status" className="ml-2 text-sm text-gray-700 cursor-pointer">
+            {__("Measure session status counters", "simple-sql-query-analyzer")}
+            <span className="ml-1 text-xs text-gray-500">
+              (
+              {__(
+                "Runs each SELECT once and reports its Handler_read_*, temporary table and sort counters",
+                "simple-sql-query-analyzer",
+              )}
+              )
+            </span>
+          </label>
+        </div>
+
+        <div className="flex items-center mb-4">
+          <input
+            id="include-trace"
+            type="checkbox"
+            checked={includeTrace}
+            onChange={(e) => onTraceChange(e.currentTarget.checked)}
+            disabled={loading}
+            className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500 cursor-pointer"
+          />
+          <label htmlFor="include-trace" className="ml-2 text-sm text-gray-700 cursor-pointer">
+            {__("Include the optimizer trace", "simple-sql-query-analyzer")}
+            <span className="ml-1 text-xs text-gray-500">
+              (
+              {__(
+                "Access paths and indexes the optimizer weighed, with their costs, and why it chose the plan",
+                "simple-sql-query-analyzer",
+              )}
+              )
+            </span>
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-gray-700">
+          <label htmlFor="benchmark-runs">
+            {__("Benchmark SELECT queries:", "simple-sql-query-analyzer")}
+          </label>
+          <input
+            id="benchmark-runs"
+            type="number"
+            min={0}
+            max={100}
+            value={benchmark.runs}
+            onChange={(e) =>
+              onBenchmarkChange({
+                ...benchmark,
+                runs: Math.min(Math.max(Math.round(Number(e.currentTarget.value)), 0), 100),
+              })
+            }
+            disabled={loading}
+            className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+          <label htmlFor="benchmark-warmup">
+            {__("runs after", "simple-sql-query-analyzer")}
+          </label>
+          <input
+            id="benchmark-warmup"
+            type="number"
+            min={0}
+            max={10}
+            value={benchmark.warmup}
+            onChange={(e) =>
+              onBenchmarkChange({
+                ...benchmark,
+                warmup: Math.min(Math.max(Math.round(Number(e.currentTarget.value)), 0), 10),
+              })
+            }
+            disabled={loading}
+            className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+          <span>{__("warm-up runs", "simple-sql-query-analyzer")}</span>
+          <span className="text-xs text-gray-500">
+            ({__("0 runs to skip", "simple-sql-query-analyzer")})
+          </span>
+        </div>
+
+        {(includeAnalyze || includeStatus || benchmark.runs > 0) && (
+          <label className="flex items-center gap-2 mb-4 text-sm text-gray-700">
+            {__("Time limit per query execution (seconds)", "simple-sql-query-analyzer")}
+            <input
+              type="number"
+              min={0.1}
+              max={600}
+              step={0.1}
+              value={analyzeTimeLimit / 1000}
+              onChange={(e) => {
+                const seconds = Number(e.currentTarget.value);
+                if (seconds > 0) {
+                  onTimeLimitChange(Math.round(Math.min(seconds, 600) * 1000));
+                }
+              }}
+              disabled={loading}
+              className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+            <span className="text-xs text-gray-500">
+              ({__("ANALYZE, each benchmark run and the status measurement; not EXPLAIN or metadata lookups", "simple-sql-query-analyzer")})
+            </span>
+          </label>
+        )}
+
         {/* Action Buttons */}
         <div className="flex gap-3">
           <button
@@ -1,24 +1,35 @@
 import { __, sprintf } from "@wordpress/i18n";
-import type { QueryInput as QueryInputType } from "../types";
+import { useMemo } from "@wordpress/element";
+import { findPlaceholders } from "../utils/queryParams";
+import { ParamSetsEditor } from "./ParamSetsEditor";
+import { SqlEditor } from "./SqlEditor";
+import type { ParamSet, QueryInput as QueryInputType, Table } from "../types";
 
 interface QueryInputProps {
   query: QueryInputType;
+  schema: Table[];
   index: number;
   totalQueries: number;
   onLabelChange: (value: string) => void;
   onQueryChange: (value: string) => void;
+  onParamsChange: (sets: ParamSet[]) => void;
   onRemove?: () => void;
+  onTrack?: () => void;
 }
 
 export function QueryInput({
   query,
+  schema,
   index,
   totalQueries,
   onLabelChange,
   onQueryChange,
+  onParamsChange,
   onRemove,
+  onTrack,
 }: QueryInputProps) {
   const canRemove = totalQueries > 1;
+  const placeholders = useMemo(() => findPlaceholders(query.query), [query.query]);
 
   return (
     <div className="bg-white border border-gray-200 rounded-lg p-4">
@@ -39,6 +50,17 @@ export function QueryInput({
             className="w-full px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
         </div>
+        {onTrack && (
+          <button
+            type="button"
+            onClick={onTrack}
+            disabled={!query.query.trim()}
+            className="ml-3 mt-6 px-3 py-2 text-blue-600 hover:bg-blue-50 rounded transition-colors text-sm font-medium disabled:opacity-50"
+            title={__("Re-check this query's plan daily", "simple-sql-query-analyzer")}
+          >
+            {__("Track", "simple-sql-query-analyzer")}
+          </button>
+        )}
         {canRemove && (
           <button
             onClick={onRemove}
@@ -50,15 +72,20 @@ export function QueryInput({
         )}
       </div>
 
-      <label className="block text-xs font-semibold text-gray-600 mb-1">
-        {__("SQL Query", "simple-sql-query-analyzer")}
-      </label>
-      <textarea
+      <SqlEditor
         value={query.query}
-        onChange={(e) => onQueryChange(e.target.value)}
+        onChange={onQueryChange}
+        schema={schema}
         placeholder={__("Enter your SQL query here...", "simple-sql-query-analyzer")}
-        className="w-full h-32 px-3 py-2 border border-gray-300 rounded text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
       />
+
+      {placeholders.length > 0 && (
+        <ParamSetsEditor
+          placeholders={placeholders}
+          sets={query.params ?? []}
+          onChange={onParamsChange}
+        />
+      )}
     </div>
   );
 }
@@ -6,10 +6,29 @@ interface RawExplainOutputProps {
   isAnalyze?: boolean;
 }
 
+interface ExplainGridProps {
+  /** Rows of the classic tabular EXPLAIN, one per table access */
+  rows: Record<string, unknown>[];
+}
+
+// Extra notes that usually mean avoidable work
+const COSTLY_EXTRA = /Using (filesort|temporary|join buffer)/i;
+
+/**
+ * The EXPLAIN output as the server returned it: the text of a TREE plan, or
+ * the rows of the classic tabular EXPLAIN of MariaDB and MySQL 5.7.
+ */
 export function RawExplainOutput({ data, isAnalyze = false }: RawExplainOutputProps) {
-  // Extract the raw output string from the data array
-  const rawOutput = data && data.length > 0 ? (data[0]["EXPLAIN"] as string) : null;
+  if (!data || data.length === 0) {
+    return null;
+  }
 
+  // Tabular EXPLAIN returns one row per table access instead of a single EXPLAIN column
+  if (!("EXPLAIN" in data[0])) {
+    return <ExplainGrid rows={data} />;
+  }
+
+  const rawOutput = data[0]["EXPLAIN"] as string;
   if (!rawOutput) {
     return null;
   }
@@ -38,6 +57,68 @@ export function RawExplainOutput({ data, isAnalyze = false }: RawExplainOutputPr
   );
 }
 
+/**
+ * The rows of a tabular EXPLAIN, with full scans and costly Extra notes
+ * highlighted.
+ */
+function ExplainGrid({ rows }: ExplainGridProps) {
+  const columns = Object.keys(rows[0]);
+  const formatValue = (value: unknown) =>
+    value === null || value === undefined ? "NULL" : String(value);
+  const rawOutput = [columns, ...rows.map((row) => columns.map((c) => formatValue(row[c])))]
+    .map((cells) => cells.join("\t"))
+    .join("\n");
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <h4 className="text-xs font-semibold text-gray-700 mb-3">
+        {__("Execution Plan (tabular EXPLAIN)", "simple-sql-query-analyzer")}
+      </h4>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-600">
+              {columns.map((column) => (
+                <th key={column} className="text-left px-2 py-1 font-semibold whitespace-nowrap">
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => (
+              <tr key={i} className="border-b border-gray-100 hover:bg-gray-50">
+                {columns.map((column) => {
+                  const value = row[column];
+                  const text = formatValue(value);
+                  const isCostly =
+                    (column === "type" && text === "ALL") ||
+                    (column === "Extra" && COSTLY_EXTRA.test(text));
+
+                  return (
+                    <td
+                      key={column}
+                      className={`px-2 py-1.5 font-mono align-top ${
+                        isCostly ? "text-red-700 font-semibold" : "text-gray-700"
+                      } ${value === null ? "text-gray-400" : ""}`}
+                    >
+                      {text}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end mt-3">
+        <CopyRawButton content={rawOutput} />
+      </div>
+    </div>
+  );
+}
+
 interface CopyRawButtonProps {
   content: string;
 }
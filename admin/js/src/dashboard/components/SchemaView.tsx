@@ -0,0 +1,249 @@
+import { Fragment, useCallback, useEffect, useState } from "@wordpress/element";
+import apiFetch from "@wordpress/api-fetch";
+import { __, _n, sprintf } from "@wordpress/i18n";
+import { Alert } from "./Alert";
+import { TableInfo } from "./TableInfo";
+import { formatBytes, formatNumber } from "../utils/format";
+import type { SchemaDetailsResponse, SchemaTable } from "../types";
+
+type SortKey = "name" | "engine" | "rows" | "data_length" | "index_length" | "data_free" | "total";
+
+const SORT_VALUES: Record<SortKey, (table: SchemaTable) => number | string> = {
+  name: (table) => table.name,
+  engine: (table) => table.engine ?? "",
+  rows: (table) => table.rows ?? -1,
+  data_length: (table) => table.data_length,
+  index_length: (table) => table.index_length,
+  data_free: (table) => table.data_free,
+  total: (table) => table.data_length + table.index_length,
+};
+
+function countIndexes(table: SchemaTable): number {
+  return new Set(table.indexes.map((index) => index.name)).size;
+}
+
+function hasSecondaryIndexes(table: SchemaTable): boolean {
+  return table.indexes.some((index) => index.name !== "PRIMARY");
+}
+
+/**
+ * Every table of the site database with its statistics, columns and indexes,
+ * independent of any query.
+ */
+export function SchemaView() {
+  const [tables, setTables] = useState<SchemaTable[]>([]);
+  const [filter, setFilter] = useState("");
+  const [withoutSecondary, setWithoutSecondary] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>("total");
+  const [sortAsc, setSortAsc] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data: SchemaDetailsResponse = await apiFetch({
+        path: "/simple-sql-query-analyzer/v1/schema?details=1",
+      });
+      setTables(data.tables ?? []);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : __("An error occurred while loading the schema", "simple-sql-query-analyzer"),
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAsc(!sortAsc);
+    } else {
+      setSortKey(key);
+      // Names read best A-Z, sizes largest first
+      setSortAsc(key === "name" || key === "engine");
+    }
+  };
+
+  const needle = filter.trim().toLowerCase();
+  const visible = tables
+    .filter(
+      (table) =>
+        !needle ||
+        table.name.toLowerCase().includes(needle) ||
+        table.columns.some((column) => column.name.toLowerCase().includes(needle)),
+    )
+    .filter((table) => !withoutSecondary || !hasSecondaryIndexes(table))
+    .sort((a, b) => {
+      const valueA = SORT_VALUES[sortKey](a);
+      const valueB = SORT_VALUES[sortKey](b);
+      const order =
+        typeof valueA === "string" && typeof valueB === "string"
+          ? valueA.localeCompare(valueB)
+          : Number(valueA) - Number(valueB);
+      return sortAsc ? order : -order;
+    });
+
+  const renderHeader = (key: SortKey, label: string, alignRight = false) => (
+    <th className={`px-2 py-2 font-semibold ${alignRight ? "text-right" : "text-left"}`}>
+      <button
+        type="button"
+        onClick={() => sortBy(key)}
+        className="font-semibold text-gray-600 hover:text-gray-900 cursor-pointer"
+      >
+        {label}
+        {sortKey === key && (sortAsc ? " ▲" : " ▼")}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="search"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder={__("Filter by table or column name", "simple-sql-query-analyzer")}
+          className="flex-1 min-w-48 px-3 py-2 border border-gray-300 rounded text-sm"
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={withoutSecondary}
+            onChange={(e) => setWithoutSecondary(e.currentTarget.checked)}
+            className="w-4 h-4 cursor-pointer"
+          />
+          {__("Only tables without secondary indexes", "simple-sql-query-analyzer")}
+        </label>
+        <button
+          type="button"
+          disabled={loading}
+          onClick={() => load()}
+          className="px-3 py-1 text-xs border border-gray-300 hover:bg-gray-50 rounded cursor-pointer disabled:opacity-50"
+        >
+          {__("Refresh", "simple-sql-query-analyzer")}
+        </button>
+      </div>
+
+      {error && (
+        <Alert
+          type="error"
+          title={__("Error", "simple-sql-query-analyzer")}
+          message={error}
+          onDismiss={() => setError(null)}
+        />
+      )}
+
+      <h3 className="text-sm font-semibold text-gray-900">
+        {sprintf(
+          /* translators: 1: number of tables shown, 2: number of tables in the database */
+          _n(
+            "%1$d of %2$d table",
+            "%1$d of %2$d tables",
+            tables.length,
+            "simple-sql-query-analyzer",
+          ),
+          visible.length,
+          tables.length,
+        )}
+      </h3>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-gray-200">
+              {renderHeader("name", __("Table", "simple-sql-query-analyzer"))}
+              {renderHeader("engine", __("Engine", "simple-sql-query-analyzer"))}
+              {renderHeader("rows", __("Rows (est.)", "simple-sql-query-analyzer"), true)}
+              {renderHeader("data_length", __("Data", "simple-sql-query-analyzer"), true)}
+              {renderHeader("index_length", __("Indexes", "simple-sql-query-analyzer"), true)}
+              {renderHeader("data_free", __("Free", "simple-sql-query-analyzer"), true)}
+              {renderHeader("total", __("Total", "simple-sql-query-analyzer"), true)}
+              <th className="px-2 py-2 text-right font-semibold text-gray-600">
+                {__("Auto-increment", "simple-sql-query-analyzer")}
+              </th>
+              <th className="px-2 py-2 text-left font-semibold text-gray-600">
+                {__("Collation", "simple-sql-query-analyzer")}
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((table) => {
+              const isExpanded = expanded === table.name;
+
+              return (
+                <Fragment key={table.name}>
+                  <tr
+                    onClick={() => setExpanded(isExpanded ? null : table.name)}
+                    className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-2 py-1.5 font-mono text-gray-900">
+                      <span className="text-gray-500 mr-1">{isExpanded ? "▼" : "▶"}</span>
+                      {table.name}
+                      <span className="ml-2 text-gray-500 font-sans">
+                        {sprintf(
+                          /* translators: 1: number of columns, 2: number of indexes */
+                          __("%1$d cols, %2$d idx", "simple-sql-query-analyzer"),
+                          table.columns.length,
+                          countIndexes(table),
+                        )}
+                      </span>
+                      {!hasSecondaryIndexes(table) && (
+                        <span className="ml-2 px-1.5 py-0.5 bg-yellow-100 text-yellow-800 rounded font-sans">
+                          {__("no secondary indexes", "simple-sql-query-analyzer")}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-2 py-1.5 text-gray-700">{table.engine ?? "—"}</td>
+                    <td className="px-2 py-1.5 text-right font-mono">
+                      {table.rows !== null ? formatNumber(table.rows) : "—"}
+                    </td>
+                    <td className="px-2 py-1.5 text-right font-mono">
+                      {formatBytes(table.data_length)}
+                    </td>
+                    <td className="px-2 py-1.5 text-right font-mono">
+                      {formatBytes(table.index_length)}
+                    </td>
+                    <td className="px-2 py-1.5 text-right font-mono text-gray-600">
+                      {formatBytes(table.data_free)}
+                    </td>
+                    <td className="px-2 py-1.5 text-right font-mono font-semibold">
+                      {formatBytes(table.data_length + table.index_length)}
+                    </td>
+                    <td className="px-2 py-1.5 text-right font-mono text-gray-600">
+                      {table.auto_increment ?? "—"}
+                    </td>
+                    <td className="px-2 py-1.5 text-gray-600">{table.collation ?? "—"}</td>
+                  </tr>
+                  {isExpanded && (
+                    <tr className="border-b border-gray-200">
+                      <td colSpan={9} className="px-2 py-3 bg-gray-50">
+                        <TableInfo tables={[table]} indexes={{ [table.name]: table.indexes }} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {!loading && tables.length > 0 && visible.length === 0 && (
+        <p className="text-xs text-gray-500">
+          {__("No tables match the filter.", "simple-sql-query-analyzer")}
+        </p>
+      )}
+    </div>
+  );
+}
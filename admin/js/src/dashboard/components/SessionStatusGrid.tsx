@@ -0,0 +1,136 @@
+import { __, sprintf } from "@wordpress/i18n";
+import type { SessionStatus } from "../types";
+
+interface SessionStatusGridProps {
+  status: SessionStatus;
+}
+
+interface CounterGroup {
+  title: string;
+  counters: string[];
+}
+
+// Counters that point at avoidable work whenever they move
+const COSTLY_COUNTERS = new Set([
+  "Handler_read_rnd_next",
+  "Created_tmp_disk_tables",
+  "Sort_merge_passes",
+  "Select_full_join",
+  "Select_range_check",
+  "Select_scan",
+]);
+
+function getCounterHints(): Record<string, string> {
+  return {
+    Handler_read_key: __("Index lookups", "simple-sql-query-analyzer"),
+    Handler_read_next: __("Rows read in index order", "simple-sql-query-analyzer"),
+    Handler_read_rnd_next: __("Rows read by table scans", "simple-sql-query-analyzer"),
+    Created_tmp_disk_tables: __("Temporary tables spilled to disk", "simple-sql-query-analyzer"),
+    Sort_merge_passes: __("Sort buffer too small", "simple-sql-query-analyzer"),
+    Select_full_join: __("Joins without an index", "simple-sql-query-analyzer"),
+    Select_scan: __("Full scans of the first table", "simple-sql-query-analyzer"),
+  };
+}
+
+function getGroups(): CounterGroup[] {
+  return [
+    {
+      title: __("Row reads", "simple-sql-query-analyzer"),
+      counters: [
+        "Handler_read_first",
+        "Handler_read_key",
+        "Handler_read_last",
+        "Handler_read_next",
+        "Handler_read_prev",
+        "Handler_read_rnd",
+        "Handler_read_rnd_next",
+      ],
+    },
+    {
+      title: __("Temporary tables and sorts", "simple-sql-query-analyzer"),
+      counters: [
+        "Created_tmp_tables",
+        "Created_tmp_disk_tables",
+        "Sort_merge_passes",
+        "Sort_range",
+        "Sort_rows",
+        "Sort_scan",
+      ],
+    },
+    {
+      title: __("Joins and scans", "simple-sql-query-analyzer"),
+      counters: [
+        "Select_full_join",
+        "Select_full_range_join",
+        "Select_range",
+        "Select_range_check",
+        "Select_scan",
+      ],
+    },
+  ];
+}
+
+/**
+ * Session status counters a query changed when it ran once: actual row reads,
+ * temporary tables and sorts, which the estimated plan can only guess.
+ */
+export function SessionStatusGrid({ status }: SessionStatusGridProps) {
+  const { counters } = status;
+  const hints = getCounterHints();
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <h4 className="text-xs font-semibold text-gray-700 mb-3">
+        {__("Session Status Deltas", "simple-sql-query-analyzer")}
+      </h4>
+
+      <div className="space-y-3">
+        {getGroups().map((group) => {
+          const present = group.counters.filter((name) => name in counters);
+          if (present.length === 0) {
+            return null;
+          }
+
+          return (
+            <div key={group.title}>
+              <div className="text-xs font-medium text-gray-500 mb-1">{group.title}</div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {present.map((name) => {
+                  const value = counters[name];
+                  const isCostly = COSTLY_COUNTERS.has(name) && value > 0;
+
+                  return (
+                    <div
+                      key={name}
+                      className={`rounded px-2 py-1 ${isCostly ? "bg-red-50" : "bg-gray-50"}`}
+                      title={hints[name]}
+                    >
+                      <div className="text-xs text-gray-500 font-mono truncate">{name}</div>
+                      <div
+                        className={`text-sm font-mono font-semibold ${
+                          isCostly ? "text-red-700" : value > 0 ? "text-gray-900" : "text-gray-400"
+                        }`}
+                      >
+                        {value.toLocaleString()}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {status.error && (
+        <p className="mt-2 text-xs text-red-700">
+          {sprintf(
+            /* translators: %s is the database error that stopped the query */
+            __("The query stopped before completing: %s", "simple-sql-query-analyzer"),
+            status.error,
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
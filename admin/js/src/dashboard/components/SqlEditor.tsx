@@ -0,0 +1,307 @@
+import { useEffect, useId, useMemo, useRef, useState } from "@wordpress/element";
+import { __ } from "@wordpress/i18n";
+import {
+  INDENT,
+  findMatchingBracket,
+  formatSql,
+  getCompletions,
+  highlightSql,
+} from "../utils/sqlEditor";
+import type { CompletionResult, CompletionType, HighlightType } from "../utils/sqlEditor";
+import type { Table } from "../types";
+
+interface SqlEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Tables and columns offered by autocomplete */
+  schema: Table[];
+  placeholder?: string;
+}
+
+const HIGHLIGHT_CLASSES: Record<HighlightType, string> = {
+  keyword: "text-blue-700 font-semibold",
+  function: "text-purple-700",
+  identifier: "text-gray-900",
+  string: "text-green-700",
+  number: "text-orange-600",
+  comment: "text-gray-400 italic",
+  operator: "text-gray-600",
+  placeholder: "text-pink-600 font-semibold",
+  variable: "text-teal-700",
+  text: "text-gray-900",
+};
+
+// The textarea and the highlighted copy under it must lay out text identically
+const TEXT_LAYOUT =
+  "px-3 py-2 text-sm leading-5 font-mono whitespace-pre-wrap [overflow-wrap:anywhere] [scrollbar-gutter:stable]";
+
+/**
+ * SQL editor: a transparent textarea over a highlighted copy of its text, with
+ * bracket matching, schema-aware autocomplete (Ctrl+Space) and formatting
+ * (Shift+Alt+F).
+ *
+ * Suggestions open by themselves while typing, but Enter and Tab only accept
+ * one after Ctrl+Space or the arrow keys; otherwise they insert a new line and
+ * an indent. Escape releases Tab, so that keyboard users can leave the editor.
+ */
+export function SqlEditor({ value, onChange, schema, placeholder }: SqlEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const pendingCaret = useRef<number | null>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [completion, setCompletion] = useState<CompletionResult | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  // Whether the user asked for the suggestions or moved through them
+  const [isCompletionChosen, setIsCompletionChosen] = useState(false);
+  const [formatError, setFormatError] = useState<string | null>(null);
+  // Whether Escape released Tab to move the focus out of the editor
+  const [isTabReleased, setIsTabReleased] = useState(false);
+  const hintId = useId();
+
+  const segments = useMemo(() => highlightSql(value), [value]);
+  const brackets = useMemo(
+    () => (caret === null ? null : findMatchingBracket(value, caret)),
+    [value, caret],
+  );
+
+  // Restore the caret after replacing the value programmatically
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea && pendingCaret.current !== null) {
+      textarea.setSelectionRange(pendingCaret.current, pendingCaret.current);
+      pendingCaret.current = null;
+    }
+  }, [value]);
+
+  const syncScroll = () => {
+    if (textareaRef.current && highlightRef.current) {
+      highlightRef.current.scrollTop = textareaRef.current.scrollTop;
+      highlightRef.current.scrollLeft = textareaRef.current.scrollLeft;
+    }
+  };
+
+  const openCompletion = (text: string, position: number, force = false) => {
+    setCompletion(getCompletions(text, position, schema, force));
+    setActiveIndex(0);
+    setIsCompletionChosen(force);
+  };
+
+  const insertIndent = (textarea: HTMLTextAreaElement) => {
+    const { selectionStart, selectionEnd } = textarea;
+    pendingCaret.current = selectionStart + INDENT.length;
+    onChange(value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd));
+  };
+
+  const acceptCompletion = (index: number) => {
+    const item = completion?.items[index];
+    const textarea = textareaRef.current;
+    if (!completion || !item || !textarea) {
+      return;
+    }
+
+    const end = textarea.selectionStart;
+    pendingCaret.current = completion.from + item.label.length;
+    onChange(value.slice(0, completion.from) + item.label + value.slice(end));
+    setCompletion(null);
+  };
+
+  const format = () => {
+    try {
+      onChange(formatSql(value));
+      setFormatError(null);
+    } catch (err) {
+      setFormatError(
+        err instanceof Error
+          ? err.message
+          : __("The query could not be formatted", "simple-sql-query-analyzer"),
+      );
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === " " && e.ctrlKey) {
+      e.preventDefault();
+      openCompletion(value, e.currentTarget.selectionStart, true);
+      return;
+    }
+
+    if (e.key.toLowerCase() === "f" && e.shiftKey && e.altKey) {
+      e.preventDefault();
+      format();
+      return;
+    }
+
+    if (e.key === "Escape" && !completion) {
+      setIsTabReleased(true);
+      return;
+    }
+
+    const canAccept = completion !== null && isCompletionChosen;
+    if (
+      e.key === "Tab" &&
+      !canAccept &&
+      !isTabReleased &&
+      !e.shiftKey &&
+      !e.ctrlKey &&
+      !e.altKey &&
+      !e.metaKey
+    ) {
+      e.preventDefault();
+      setCompletion(null);
+      insertIndent(e.currentTarget);
+      return;
+    }
+
+    if (!completion) {
+      return;
+    }
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setActiveIndex((activeIndex + 1) % completion.items.length);
+        setIsCompletionChosen(true);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActiveIndex((activeIndex - 1 + completion.items.length) % completion.items.length);
+        setIsCompletionChosen(true);
+        break;
+      case "Enter":
+      case "Tab":
+        if (canAccept) {
+          e.preventDefault();
+          acceptCompletion(activeIndex);
+        } else {
+          // Let Enter insert its new line
+          setCompletion(null);
+        }
+        break;
+      case "Escape":
+        e.preventDefault();
+        setCompletion(null);
+        break;
+    }
+  };
+
+  const isBracket = (start: number) => brackets?.open === start || brackets?.close === start;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-xs font-semibold text-gray-600">
+          {__("SQL Query", "simple-sql-query-analyzer")}
+        </label>
+        <button
+          type="button"
+          onClick={format}
+          disabled={!value.trim()}
+          className="px-2 py-0.5 text-xs text-blue-600 hover:bg-blue-50 rounded cursor-pointer disabled:opacity-50"
+          title={__("Format query (Shift+Alt+F)", "simple-sql-query-analyzer")}
+        >
+          {__("Format", "simple-sql-query-analyzer")}
+        </button>
+      </div>
+
+      <div className="relative">
+        <pre
+          ref={highlightRef}
+          aria-hidden="true"
+          className={`absolute inset-0 m-0 overflow-hidden border border-transparent rounded bg-white ${TEXT_LAYOUT}`}
+        >
+          {segments.map((segment) => (
+            <span
+              key={segment.start}
+              className={`${HIGHLIGHT_CLASSES[segment.type]} ${
+                isBracket(segment.start) ? "bg-yellow-200 rounded-sm" : ""
+              }`}
+            >
+              {segment.text}
+            </span>
+          ))}
+          {/* A trailing newline needs a character after it to take up a line */}
+          {value.endsWith("\n") && " "}
+        </pre>
+
+        <textarea
+          ref={textareaRef}
+          value={value}
+          spellCheck={false}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setCaret(e.target.selectionStart);
+            setIsTabReleased(false);
+            openCompletion(e.target.value, e.target.selectionStart);
+            setFormatError(null);
+          }}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+          onClick={() => {
+            setCompletion(null);
+            setIsTabReleased(false);
+          }}
+          onBlur={() => {
+            setCompletion(null);
+            setCaret(null);
+            setIsTabReleased(false);
+          }}
+          onKeyDown={handleKeyDown}
+          onScroll={syncScroll}
+          placeholder={placeholder}
+          aria-describedby={hintId}
+          className={`relative block w-full h-40 min-h-24 resize-y overflow-auto border border-gray-300 rounded bg-transparent text-transparent caret-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 ${TEXT_LAYOUT}`}
+        />
+
+        {completion && (
+          <ul
+            role="listbox"
+            className="absolute left-0 right-0 top-full mt-1 z-10 max-h-48 overflow-auto bg-white border border-gray-200 rounded shadow-lg text-xs"
+          >
+            {completion.items.map((item, idx) => (
+              <li
+                key={`${item.type}-${item.label}`}
+                role="option"
+                aria-selected={idx === activeIndex}
+                // Keep focus in the textarea
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  acceptCompletion(idx);
+                }}
+                onMouseEnter={() => setActiveIndex(idx)}
+                className={`flex items-center justify-between gap-3 px-2 py-1 cursor-pointer ${
+                  idx === activeIndex ? "bg-blue-50" : ""
+                }`}
+              >
+                <span className="font-mono text-gray-900">{item.label}</span>
+                <span className="text-gray-400 truncate">
+                  {item.detail ?? getCompletionTypeLabel(item.type)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <p id={hintId} className="mt-1 text-xs text-gray-500">
+        {isTabReleased
+          ? __("Press Tab to leave the editor.", "simple-sql-query-analyzer")
+          : __(
+              "Tab indents. Press Escape, then Tab, to leave the editor. Ctrl+Space shows suggestions.",
+              "simple-sql-query-analyzer",
+            )}
+      </p>
+
+      {formatError && <p className="mt-1 text-xs text-red-600">{formatError}</p>}
+    </div>
+  );
+}
+
+function getCompletionTypeLabel(type: CompletionType): string {
+  switch (type) {
+    case "table":
+      return __("table", "simple-sql-query-analyzer");
+    case "column":
+      return __("column", "simple-sql-query-analyzer");
+    case "keyword":
+      return __("keyword", "simple-sql-query-analyzer");
+  }
+}
@@ -17,7 +17,7 @@ export function SummaryMetrics({ summary }: SummaryMetricsProps) {
 
       <div className="bg-white border border-gray-200 rounded-lg p-3">
         <div className="text-xs font-medium text-gray-500 uppercase">
-          {__("Total Time", "simple-sql-query-analyzer")}
+          {__("Analysis Overhead", "simple-sql-query-analyzer")}
         </div>
         <div className="text-xl font-bold text-gray-900 mt-1">
           {summary.total_execution_time.toFixed(3)}s
@@ -1,13 +1,59 @@
 import { useState } from "@wordpress/element";
 import { __, _n, sprintf } from "@wordpress/i18n";
-import type { Table, Index } from "../types";
+import { groupIndexes, matchIndexColumns } from "../utils/indexAdvisor";
+import type { IndexColumnStatus } from "../utils/indexAdvisor";
+import { formatBytes, formatNumber } from "../utils/format";
+import type { ColumnReference, Table, Index } from "../types";
 
 interface TableInfoProps {
   tables: Table[];
   indexes?: { [tableName: string]: Index[] };
+  /** Columns the query references, to mark which index columns its predicates match */
+  references?: ColumnReference[];
+  /** Indexes the plan reads, by table */
+  planIndexes?: Map<string, Set<string>>;
 }
 
-export function TableInfo({ tables, indexes = {} }: TableInfoProps) {
+const COLUMN_STATUS_CLASSES: Record<IndexColumnStatus, string> = {
+  used: "bg-green-100 text-green-800 border-green-300",
+  unusable: "bg-yellow-100 text-yellow-800 border-yellow-300",
+  unmatched: "bg-white text-gray-500 border-gray-300",
+};
+
+function getColumnStatusLabel(status: IndexColumnStatus): string {
+  switch (status) {
+    case "used":
+      return __(
+        "Matched: part of the leftmost prefix the query can use",
+        "simple-sql-query-analyzer",
+      );
+    case "unusable":
+      return __(
+        "In the query's predicates, but after a missing column or a range, so the lookup cannot use it",
+        "simple-sql-query-analyzer",
+      );
+    case "unmatched":
+      return __("Not in the query's predicates", "simple-sql-query-analyzer");
+  }
+}
+
+function formatSelectivity(selectivity: number): string {
+  const percent = selectivity * 100;
+  return `${percent < 1 ? percent.toFixed(2) : percent.toFixed(0)}%`;
+}
+
+// Low selectivity means a lookup still matches a large share of the table
+function getSelectivityClass(selectivity: number): string {
+  if (selectivity >= 0.1) {
+    return "text-green-700 bg-green-100";
+  }
+  if (selectivity >= 0.01) {
+    return "text-yellow-800 bg-yellow-100";
+  }
+  return "text-red-700 bg-red-100";
+}
+
+export function TableInfo({ tables, indexes = {}, references, planIndexes }: TableInfoProps) {
   const [expandedTables, setExpandedTables] = useState<Set<string>>(
     new Set(tables.length === 1 ? [tables[0].name] : []),
   );
@@ -73,14 +119,23 @@ export function TableInfo({ tables, indexes = {} }: TableInfoProps) {
                   <span className="text-xs text-gray-500">
                     {sprintf(
                       _n("%d col", "%d cols", table.columns.length, "simple-sql-query-analyzer"),
-                      table.columns.length
+                      table.columns.length,
                     )}
                   </span>
                   {tableIndexes.length > 0 && (
                     <span className="text-xs text-gray-500">
                       {sprintf(
                         _n("%d idx", "%d idxs", tableIndexes.length, "simple-sql-query-analyzer"),
-                        tableIndexes.length
+                        tableIndexes.length,
+                      )}
+                    </span>
+                  )}
+                  {table.rows != null && (
+                    <span className="text-xs text-gray-500">
+                      {sprintf(
+                        /* translators: %s is an estimated row count, e.g. 1.2K */
+                        __("~%s rows", "simple-sql-query-analyzer"),
+                        formatNumber(table.rows),
                       )}
                     </span>
                   )}
@@ -91,6 +146,33 @@ export function TableInfo({ tables, indexes = {} }: TableInfoProps) {
               {/* Table Details */}
               {isExpanded && (
                 <div className="px-3 py-2 space-y-3 bg-white border-t border-gray-200">
+                  {table.data_length !== undefined && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+                      <span>
+                        {__("Engine:", "simple-sql-query-analyzer")}{" "}
+                        <span className="text-gray-900">{table.engine ?? "—"}</span>
+                      </span>
+                      <span>
+                        {__("Rows (est.):", "simple-sql-query-analyzer")}{" "}
+                        <span className="font-mono text-gray-900">
+                          {table.rows != null ? formatNumber(table.rows) : "—"}
+                        </span>
+                      </span>
+                      <span>
+                        {__("Data:", "simple-sql-query-analyzer")}{" "}
+                        <span className="font-mono text-gray-900">
+                          {formatBytes(table.data_length)}
+                        </span>
+                      </span>
+                      <span>
+                        {__("Indexes:", "simple-sql-query-analyzer")}{" "}
+                        <span className="font-mono text-gray-900">
+                          {formatBytes(table.index_length ?? 0)}
+                        </span>
+                      </span>
+                    </div>
+                  )}
+
                   {/* Columns Section */}
                   <div>
                     <h5 className="text-xs font-semibold text-gray-700 mb-2">
@@ -144,58 +226,119 @@ export function TableInfo({ tables, indexes = {} }: TableInfoProps) {
                   {/* Indexes Section */}
                   {tableIndexes.length > 0 && (
                     <div className="pt-2 border-t border-gray-200">
-                      <h5 className="text-xs font-semibold text-gray-700 mb-2">
-                        {__("Indexes", "simple-sql-query-analyzer")}
-                      </h5>
+                      <div className="flex items-center justify-between gap-2 flex-wrap mb-2">
+                        <h5 className="text-xs font-semibold text-gray-700">
+                          {__("Indexes", "simple-sql-query-analyzer")}
+                        </h5>
+                        {references && (
+                          <div className="flex items-center gap-2 text-xs text-gray-500">
+                            <span className={`px-1 border rounded ${COLUMN_STATUS_CLASSES.used}`}>
+                              {__("matched", "simple-sql-query-analyzer")}
+                            </span>
+                            <span
+                              className={`px-1 border rounded ${COLUMN_STATUS_CLASSES.unusable}`}
+                            >
+                              {__("matched, not usable", "simple-sql-query-analyzer")}
+                            </span>
+                            <span
+                              className={`px-1 border rounded ${COLUMN_STATUS_CLASSES.unmatched}`}
+                            >
+                              {__("unmatched", "simple-sql-query-analyzer")}
+                            </span>
+                          </div>
+                        )}
+                      </div>
                       <div className="space-y-1.5">
-                        {tableIndexes
-                          .reduce(
-                            (acc, idx) => {
-                              const existing = acc.find((i) => i.name === idx.name);
-                              if (existing) {
-                                existing.columns.push(idx.column);
-                              } else {
-                                acc.push({
-                                  name: idx.name,
-                                  type: idx.type,
-                                  unique: idx.unique,
-                                  columns: [idx.column],
-                                });
-                              }
-                              return acc;
-                            },
-                            [] as Array<{
-                              name: string;
-                              type: string;
-                              unique: boolean;
-                              columns: string[];
-                            }>,
-                          )
-                          .map((idx, i) => (
+                        {groupIndexes(tableIndexes).map((idx) => {
+                          // The cardinality of the last column is that of the whole index
+                          const last = idx.parts[idx.parts.length - 1];
+                          const matches = references
+                            ? matchIndexColumns(
+                                idx,
+                                references.filter((ref) => ref.table === table.name),
+                              )
+                            : null;
+                          const isChosen = planIndexes?.get(table.name)?.has(idx.name) ?? false;
+
+                          return (
                             <div
-                              key={i}
-                              className="flex items-start gap-2 p-1.5 bg-gray-50 rounded text-xs"
+                              key={idx.name}
+                              className={`flex items-start gap-2 p-1.5 rounded text-xs ${
+                                isChosen ? "bg-blue-50 ring-1 ring-blue-400" : "bg-gray-50"
+                              }`}
                             >
                               <div className="flex-1">
-                                <div className="flex items-center gap-2">
+                                <div className="flex items-center gap-2 flex-wrap">
                                   <span className="font-mono font-semibold text-gray-900">
                                     {idx.name}
                                   </span>
                                   <span className="text-xs text-gray-500 bg-gray-200 px-1 rounded">
                                     {idx.type}
                                   </span>
+                                  {isChosen && (
+                                    <span className="text-xs text-white bg-blue-600 px-1 rounded">
+                                      {__("used by plan", "simple-sql-query-analyzer")}
+                                    </span>
+                                  )}
                                   {idx.unique && (
                                     <span className="text-xs text-purple-700 bg-purple-100 px-1 rounded">
                                       {__("UNIQUE", "simple-sql-query-analyzer")}
                                     </span>
                                   )}
+                                  {last.cardinality != null && (
+                                    <span className="text-xs text-gray-600">
+                                      {sprintf(
+                                        /* translators: %s is an estimated number of distinct values */
+                                        __("cardinality %s", "simple-sql-query-analyzer"),
+                                        formatNumber(last.cardinality),
+                                      )}
+                                    </span>
+                                  )}
+                                  {last.selectivity != null && (
+                                    <span
+                                      className={`text-xs px-1 rounded ${getSelectivityClass(last.selectivity)}`}
+                                      title={__(
+                                        "Selectivity: cardinality divided by table rows",
+                                        "simple-sql-query-analyzer",
+                                      )}
+                                    >
+                                      {sprintf(
+                                        /* translators: %s is a percentage */
+                                        __("selectivity %s", "simple-sql-query-analyzer"),
+                                        formatSelectivity(last.selectivity),
+                                      )}
+                                    </span>
+                                  )}
                                 </div>
-                                <div className="text-gray-600 mt-0.5 font-mono">
-                                  {idx.columns.join(", ")}
+                                <div className="flex items-center gap-1 flex-wrap mt-1 font-mono">
+                                  {idx.parts.map((part, i) => {
+                                    const status = matches?.[i].status;
+                                    return (
+                                      <span key={part.column} className="flex items-center gap-1">
+                                        {i > 0 && <span className="text-gray-400">→</span>}
+                                        <span
+                                          className={`px-1 border rounded ${
+                                            status
+                                              ? COLUMN_STATUS_CLASSES[status]
+                                              : "bg-white text-gray-700 border-gray-300"
+                                          }`}
+                                          title={status ? getColumnStatusLabel(status) : undefined}
+                                        >
+                                          {part.sub_part
+                                            ? `${part.column}(${part.sub_part})`
+                                            : part.column}
+                                        </span>
+                                      </span>
+                                    );
+                                  })}
                                 </div>
+                                {last.comment && (
+                                  <div className="text-gray-500 mt-0.5 italic">{last.comment}</div>
+                                )}
                               </div>
                             </div>
-                          ))}
+                          );
+                        })}
                       </div>
                     </div>
                   )}
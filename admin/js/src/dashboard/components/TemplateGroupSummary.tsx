@@ -0,0 +1,92 @@
+import { __, sprintf } from "@wordpress/i18n";
+import { getExplainNodes } from "../utils/explainParser";
+import { countDiffStatuses, diffPlans } from "../utils/planDiff";
+import { formatNumber } from "../utils/format";
+import type { ExplainNode, QueryResult } from "../types";
+
+interface TemplateGroupSummaryProps {
+  /** Results of one template, one per value set */
+  queries: QueryResult[];
+}
+
+/**
+ * Side-by-side root cost and rows of a template's value sets, flagging the sets
+ * whose plan differs from the first one.
+ */
+export function TemplateGroupSummary({ queries }: TemplateGroupSummaryProps) {
+  const plans = queries.map((query) => (query.error ? null : getExplainNodes(query)));
+  const baseline = plans.find((plan): plan is ExplainNode[] => Boolean(plan?.length));
+
+  // Number of plan steps that differ from the baseline, null without a comparison
+  const getDifferences = (plan: ExplainNode[] | null): number | null => {
+    if (!plan?.length || !baseline || plan === baseline) {
+      return null;
+    }
+    const counts = countDiffStatuses(diffPlans(baseline, plan));
+    return counts.added + counts.removed + counts.changed;
+  };
+
+  const getPlanStatus = (plan: ExplainNode[] | null, differences: number | null): string => {
+    if (!plan?.length) {
+      return __("No plan", "simple-sql-query-analyzer");
+    }
+    if (differences === null) {
+      return __("Baseline", "simple-sql-query-analyzer");
+    }
+    return differences === 0
+      ? __("Same plan", "simple-sql-query-analyzer")
+      : sprintf(
+          /* translators: %d is the number of plan steps that differ */
+          __("Different plan (%d steps)", "simple-sql-query-analyzer"),
+          differences,
+        );
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-600 border-b border-gray-200">
+            <th className="py-1 pr-3 font-semibold">
+              {__("Value set", "simple-sql-query-analyzer")}
+            </th>
+            <th className="py-1 pr-3 font-semibold">{__("Values", "simple-sql-query-analyzer")}</th>
+            <th className="py-1 pr-3 font-semibold text-right">
+              {__("Cost", "simple-sql-query-analyzer")}
+            </th>
+            <th className="py-1 pr-3 font-semibold text-right">
+              {__("Rows", "simple-sql-query-analyzer")}
+            </th>
+            <th className="py-1 font-semibold">{__("Plan", "simple-sql-query-analyzer")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {queries.map((query, i) => {
+            const root = plans[i]?.[0];
+            const differences = getDifferences(plans[i]);
+
+            return (
+              <tr key={query.id} className="border-b border-gray-100 last:border-0">
+                <td className="py-1 pr-3 font-medium text-gray-900">{query.binding?.set}</td>
+                <td className="py-1 pr-3 font-mono text-gray-700">
+                  {query.binding?.values.join(", ")}
+                </td>
+                <td className="py-1 pr-3 text-right font-mono">
+                  {root?.cost != null ? formatNumber(root.cost) : "—"}
+                </td>
+                <td className="py-1 pr-3 text-right font-mono">
+                  {root?.estimated_rows != null ? formatNumber(root.estimated_rows) : "—"}
+                </td>
+                <td
+                  className={`py-1 ${differences ? "text-yellow-800 font-semibold" : "text-gray-600"}`}
+                >
+                  {query.error ? query.error : getPlanStatus(plans[i], differences)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useState } from "@wordpress/element";
+import apiFetch from "@wordpress/api-fetch";
+import { __, _n, sprintf } from "@wordpress/i18n";
+import { Alert } from "./Alert";
+import { CostTimeline } from "./CostTimeline";
+import { findPlanChanges } from "../utils/planHistory";
+import type { TrackedListResponse, TrackedQuery, TrackedQueryResponse } from "../types";
+
+export function TrackedQueriesView() {
+  const [tracked, setTracked] = useState<TrackedQuery[] | null>(null);
+  const [runningId, setRunningId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTracked = useCallback(async () => {
+    setError(null);
+
+    try {
+      const data: TrackedListResponse = await apiFetch({
+        path: "/simple-sql-query-analyzer/v1/tracked",
+      });
+      setTracked(data.tracked);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : __("An error occurred while loading tracked queries", "simple-sql-query-analyzer"),
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadTracked();
+  }, [loadTracked]);
+
+  const runNow = async (query: TrackedQuery) => {
+    setRunningId(query.id);
+    setError(null);
+
+    try {
+      const data: TrackedQueryResponse = await apiFetch({
+        path: `/simple-sql-query-analyzer/v1/tracked/${query.id}/run`,
+        method: "POST",
+      });
+      const updated = data.tracked;
+      if (updated) {
+        setTracked((current) => current?.map((q) => (q.id === updated.id ? updated : q)) ?? null);
+      }
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : __("An error occurred while re-running the query", "simple-sql-query-analyzer"),
+      );
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const untrack = async (query: TrackedQuery) => {
+    if (
+      !window.confirm(
+        __("Stop tracking this query and delete its samples?", "simple-sql-query-analyzer"),
+      )
+    ) {
+      return;
+    }
+
+    setError(null);
+
+    try {
+      await apiFetch({
+        path: `/simple-sql-query-analyzer/v1/tracked/${query.id}`,
+        method: "DELETE",
+      });
+      setTracked((current) => current?.filter((q) => q.id !== query.id) ?? null);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : __("An error occurred while untracking the query", "simple-sql-query-analyzer"),
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert
+          type="error"
+          title={__("Error", "simple-sql-query-analyzer")}
+          message={error}
+          onDismiss={() => setError(null)}
+        />
+      )}
+
+      {tracked && tracked.length === 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-4 text-sm text-gray-500">
+          {__(
+            "No tracked queries yet. Use “Track” on a query in the Analyzer to re-check its plan daily.",
+            "simple-sql-query-analyzer",
+          )}
+        </div>
+      )}
+
+      {tracked?.map((query) => {
+        const changes = findPlanChanges(query.samples);
+        const lastChange = changes[changes.length - 1];
+        const lastSample = query.samples[query.samples.length - 1];
+
+        return (
+          <div key={query.id} className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <h3 className="text-sm font-semibold text-gray-900">{query.label}</h3>
+                <pre className="mt-1 text-xs text-gray-600 font-mono whitespace-pre-wrap break-all">
+                  {query.query}
+                </pre>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                <button
+                  type="button"
+                  disabled={runningId === query.id}
+                  onClick={() => runNow(query)}
+                  className="px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded cursor-pointer disabled:opacity-50"
+                >
+                  {runningId === query.id
+                    ? __("Running...", "simple-sql-query-analyzer")
+                    : __("Run now", "simple-sql-query-analyzer")}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => untrack(query)}
+                  className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded cursor-pointer"
+                >
+                  {__("Untrack", "simple-sql-query-analyzer")}
+                </button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2 text-xs">
+              <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-700">
+                {sprintf(
+                  /* translators: %d is the number of samples */
+                  _n("%d sample", "%d samples", query.samples.length, "simple-sql-query-analyzer"),
+                  query.samples.length,
+                )}
+              </span>
+              <span
+                className={`px-1.5 py-0.5 rounded ${
+                  changes.length > 0 ? "bg-red-100 text-red-800" : "bg-green-100 text-green-800"
+                }`}
+              >
+                {sprintf(
+                  /* translators: %d is the number of plan changes */
+                  _n(
+                    "%d plan change",
+                    "%d plan changes",
+                    changes.length,
+                    "simple-sql-query-analyzer",
+                  ),
+                  changes.length,
+                )}
+              </span>
+              {lastSample?.error && (
+                <span className="px-1.5 py-0.5 rounded bg-red-100 text-red-800">
+                  {sprintf(
+                    /* translators: %s is an error message */
+                    __("Last run failed: %s", "simple-sql-query-analyzer"),
+                    lastSample.error,
+                  )}
+                </span>
+              )}
+            </div>
+
+            <CostTimeline samples={query.samples} changes={changes} />
+
+            {lastChange && (
+              <div>
+                <h4 className="text-xs font-semibold text-gray-700 mb-1">
+                  {sprintf(
+                    /* translators: %s is a date */
+                    __("Latest plan change on %s", "simple-sql-query-analyzer"),
+                    new Date(lastChange.after.time).toLocaleString(),
+                  )}
+                </h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  <pre className="p-2 bg-gray-50 rounded text-xs font-mono overflow-x-auto">
+                    {lastChange.before.shape}
+                  </pre>
+                  <pre className="p-2 bg-gray-50 rounded text-xs font-mono overflow-x-auto">
+                    {lastChange.after.shape}
+                  </pre>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from "@wordpress/element";
+import apiFetch from "@wordpress/api-fetch";
+import { __ } from "@wordpress/i18n";
+import { Alert } from "./Alert";
+import { EnhancedExplainTree } from "./EnhancedExplainTree";
+import { RawExplainOutput } from "./RawExplainOutput";
+import { getRawExplain } from "../utils/explainParser";
+import { analyzeQueryReferences } from "../utils/queryColumns";
+import type { IndexRecommendation, QueryResult, WhatIfIndexResponse } from "../types";
+
+interface WhatIfIndexPanelProps {
+  query: QueryResult;
+  recommendations: IndexRecommendation[];
+}
+
+export function WhatIfIndexPanel({ query, recommendations }: WhatIfIndexPanelProps) {
+  const [table, setTable] = useState(recommendations[0]?.table ?? query.tables[0]?.name ?? "");
+  const [columns, setColumns] = useState(recommendations[0]?.columns.join(", ") ?? "");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<WhatIfIndexResponse | null>(null);
+
+  if (query.tables.length === 0) {
+    return null;
+  }
+
+  const columnList = columns
+    .split(",")
+    .map((column) => column.trim())
+    .filter(Boolean);
+
+  const runTest = async () => {
+    setLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const data: WhatIfIndexResponse = await apiFetch({
+        path: "/simple-sql-query-analyzer/v1/what-if-index",
+        method: "POST",
+        data: {
+          query: query.query,
+          table,
+          columns: columnList,
+          tables: analyzeQueryReferences(query.query)?.tables,
+        },
+      });
+
+      if (data.success) {
+        setResult(data);
+      } else {
+        setError(data.message);
+      }
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error
+          ? err.message
+          : __("An error occurred while testing the index", "simple-sql-query-analyzer");
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3">
+      <h4 className="text-xs font-semibold text-gray-700 mb-1">
+        {__("What-if Index", "simple-sql-query-analyzer")}
+      </h4>
+      <p className="text-xs text-gray-500 mb-3">
+        {__(
+          "Creates the index as INVISIBLE, explains the query with it in this session only, then drops it. Building an index locks the table, so use a copy of production data. Requires MySQL 8.0+.",
+          "simple-sql-query-analyzer",
+        )}
+      </p>
+
+      {recommendations.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {recommendations.map((recommendation, idx) => (
+            <button
+              key={idx}
+              type="button"
+              onClick={() => {
+                setTable(recommendation.table);
+                setColumns(recommendation.columns.join(", "));
+              }}
+              className="px-2 py-1 text-xs font-mono bg-green-50 border border-green-200 text-green-800 rounded hover:bg-green-100 transition-colors cursor-pointer"
+            >
+              {recommendation.table} ({recommendation.columns.join(", ")})
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="text-xs font-semibold text-gray-600">
+          {__("Table", "simple-sql-query-analyzer")}
+          <select
+            value={table}
+            onChange={(e) => setTable(e.target.value)}
+            disabled={loading}
+            className="mt-1 block px-2 py-1 border border-gray-300 rounded text-sm font-normal"
+          >
+            {query.tables.map((t) => (
+              <option key={t.name} value={t.name}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex-1 min-w-[12rem] text-xs font-semibold text-gray-600">
+          {__("Columns (in order, e.g. meta_key, meta_value(191))", "simple-sql-query-analyzer")}
+          <input
+            type="text"
+            value={columns}
+            onChange={(e) => setColumns(e.target.value)}
+            disabled={loading}
+            className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm font-mono font-normal"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={runTest}
+          disabled={loading || !table || columnList.length === 0}
+          className="px-4 py-1.5 bg-blue-600 text-white text-sm rounded-md font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          {loading
+            ? __("Testing...", "simple-sql-query-analyzer")
+            : __("Test Index", "simple-sql-query-analyzer")}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-3">
+          <Alert
+            type="error"
+            title={__("Error", "simple-sql-query-analyzer")}
+            message={error}
+            onDismiss={() => setError(null)}
+          />
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-3 space-y-3">
+          <div
+            className={`p-2 rounded text-xs border ${
+              result.index_used
+                ? "bg-green-50 border-green-200 text-green-800"
+                : "bg-orange-50 border-orange-200 text-orange-800"
+            }`}
+          >
+            <div className="font-semibold">{result.message}</div>
+            <div className="font-mono mt-1 break-words">{result.statement}</div>
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-3">
+            <div>
+              <h5 className="text-xs font-semibold text-gray-700 mb-1">
+                {__("Without index", "simple-sql-query-analyzer")}
+              </h5>
+              {query.explain_format === "traditional" ? (
+                <RawExplainOutput data={result.before ?? []} />
+              ) : (
+                <EnhancedExplainTree rawExplain={getRawExplain(result.before)} />
+              )}
+            </div>
+            <div>
+              <h5 className="text-xs font-semibold text-gray-700 mb-1">
+                {__("With index", "simple-sql-query-analyzer")}
+              </h5>
+              {query.explain_format === "traditional" ? (
+                <RawExplainOutput data={result.after ?? []} />
+              ) : (
+                <EnhancedExplainTree rawExplain={getRawExplain(result.after)} />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,46 @@
-import { createRoot, useState, useCallback } from "@wordpress/element";
+import { createRoot, useState, useCallback, useEffect, useRef } from "@wordpress/element";
 import apiFetch from "@wordpress/api-fetch";
 import { __, sprintf } from "@wordpress/i18n";
 import "./index.css";
 import { QueryForm } from "./components/QueryForm";
 import { ResultsDisplay } from "./components/ResultsDisplay";
 import { Alert } from "./components/Alert";
-import type { AnalysisResponse, QueryInput } from "./types";
+import { HistoryView } from "./components/HistoryView";
+import { CapturedQueriesView } from "./components/CapturedQueriesView";
+import { ImportView } from "./components/ImportView";
+import { SchemaView } from "./components/SchemaView";
+import { TrackedQueriesView } from "./components/TrackedQueriesView";
+import { analyzeQueryReferences } from "./utils/queryColumns";
+import { collapseBindings, expandQueryInput } from "./utils/queryParams";
+import type { AnalyzeInput } from "./utils/queryParams";
+import type {
+  AnalysisResponse,
+  BenchmarkSettings,
+  QueryInput,
+  QueryResult,
+  SchemaResponse,
+  Table,
+  TrackedQueryResponse,
+} from "./types";
 
 const STORAGE_KEY = "simple-sql-query-analyzer-state";
 
 interface StoredState {
   queries: QueryInput[];
   includeAnalyze: boolean;
+  includeJson?: boolean;
+  /** Milliseconds */
+  analyzeTimeLimit?: number;
+  benchmark?: BenchmarkSettings;
+  includeStatus?: boolean;
+  includeTrace?: boolean;
 }
 
-const saveStateToStorage = (queries: QueryInput[], includeAnalyze: boolean) => {
+const DEFAULT_ANALYZE_TIME_LIMIT = 10000;
+const DEFAULT_BENCHMARK: BenchmarkSettings = { runs: 0, warmup: 1 };
+
+const saveStateToStorage = (state: StoredState) => {
   try {
-    const state: StoredState = { queries, includeAnalyze };
     localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
   } catch {
     // Silently fail if localStorage is unavailable
@@ -37,14 +61,51 @@ const loadStateFromStorage = (): StoredState | null => {
 
 const storedState = loadStateFromStorage();
 
+// Shown until the query's own request returns; QueryCard treats it as pending
+const createPendingResult = (input: AnalyzeInput): QueryResult => ({
+  ...input,
+  tables: [],
+  indexes: {},
+  explain: [],
+  analyze: [],
+  error: null,
+});
+
+type ViewType = "analyzer" | "history" | "tracked" | "captured" | "import" | "schema";
+
 const Dashboard = () => {
   const [queries, setQueries] = useState<QueryInput[]>(
     storedState?.queries?.length ? storedState.queries : [{ id: "1", label: "", query: "" }]
   );
   const [includeAnalyze, setIncludeAnalyze] = useState(storedState?.includeAnalyze ?? false);
+  const [includeJson, setIncludeJson] = useState(storedState?.includeJson ?? false);
+  const [analyzeTimeLimit, setAnalyzeTimeLimit] = useState(
+    storedState?.analyzeTimeLimit ?? DEFAULT_ANALYZE_TIME_LIMIT,
+  );
+  const [benchmark, setBenchmark] = useState(storedState?.benchmark ?? DEFAULT_BENCHMARK);
+  const [includeStatus, setIncludeStatus] = useState(storedState?.includeStatus ?? false);
+  const [includeTrace, setIncludeTrace] = useState(storedState?.includeTrace ?? false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [response, setResponse] = useState<AnalysisResponse | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [view, setView] = useState<ViewType>("analyzer");
+  const [schema, setSchema] = useState<Table[]>([]);
+
+  useEffect(() => {
+    const loadSchema = async () => {
+      try {
+        const data: SchemaResponse = await apiFetch({
+          path: "/simple-sql-query-analyzer/v1/schema",
+        });
+        setSchema(data.tables ?? []);
+      } catch {
+        // The schema only powers editor autocomplete, which then offers keywords only
+      }
+    };
+    void loadSchema();
+  }, []);
 
   const analyzeQueries = useCallback(async () => {
     const validQueries = queries.filter((q) => q.query.trim());
@@ -53,29 +114,116 @@ const Dashboard = () => {
       return;
     }
 
+    // Templates with value sets are analyzed once per set
+    const inputs = validQueries.flatMap((q) =>
+      expandQueryInput(
+        q,
+        q.label || sprintf(__("Query %d", "simple-sql-query-analyzer"), queries.indexOf(q) + 1),
+      ),
+    );
+    const results = inputs.map(createPendingResult);
+    const showResults = () =>
+      setResponse({ success: true, message: "", queries: [...results], complete_output: "" });
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setLoading(true);
     setError(null);
-    setResponse(null);
+    setProgress({ done: 0, total: inputs.length });
+    showResults();
 
     try {
-      const data: AnalysisResponse = await apiFetch({
-        path: "/simple-sql-query-analyzer/v1/analyze",
+      // One request per query, so that a slow ANALYZE does not hold back the others
+      for (const [i, input] of inputs.entries()) {
+        try {
+          const data: AnalysisResponse = await apiFetch({
+            path: "/simple-sql-query-analyzer/v1/analyze",
+            method: "POST",
+            signal: controller.signal,
+            data: {
+              queries: [
+                {
+                  ...input,
+                  // Omitted when the query does not parse; the server then finds the tables itself
+                  ...analyzeQueryReferences(input.query),
+                },
+              ],
+              include_analyze: includeAnalyze,
+              include_json: includeJson,
+              analyze_time_limit: analyzeTimeLimit,
+              benchmark_runs: benchmark.runs,
+              benchmark_warmup: benchmark.warmup,
+              include_status: includeStatus,
+              include_trace: includeTrace,
+              save_history: false,
+            },
+          });
+
+          results[i] = data.queries?.[0] ?? { ...results[i], error: data.message };
+        } catch (err) {
+          if (controller.signal.aborted) {
+            // Aborting only stops waiting: the server finishes the request on its own
+            results[i] = {
+              ...results[i],
+              error: __(
+                "Stopped waiting. The server may still be analyzing this query.",
+                "simple-sql-query-analyzer",
+              ),
+            };
+            break;
+          }
+          results[i] = {
+            ...results[i],
+            error:
+              err instanceof Error
+                ? err.message
+                : __("An error occurred while analyzing the query", "simple-sql-query-analyzer"),
+          };
+        }
+
+        setProgress({ done: i + 1, total: inputs.length });
+        showResults();
+
+        if (controller.signal.aborted) {
+          break;
+        }
+      }
+
+      const answered = results.filter(
+        (result) => result.execution_time !== undefined || result.error,
+      );
+      results.forEach((result, i) => {
+        if (result.execution_time === undefined && !result.error) {
+          results[i] = { ...result, error: __("Not analyzed", "simple-sql-query-analyzer") };
+        }
+      });
+      showResults();
+
+      if (answered.length === 0) {
+        return;
+      }
+
+      // Saved once, with the summary and text report of every query
+      const report: AnalysisResponse = await apiFetch({
+        path: "/simple-sql-query-analyzer/v1/history",
         method: "POST",
-        data: {
-          queries: validQueries.map((q) => ({
-            id: q.id,
-            label: q.label || sprintf(__("Query %d", "simple-sql-query-analyzer"), queries.indexOf(q) + 1),
-            query: q.query.trim(),
-          })),
-          include_analyze: includeAnalyze,
-        },
+        data: { queries: results },
       });
 
-      setResponse(data);
-      if (data.success) {
-        saveStateToStorage(queries, includeAnalyze);
+      setResponse(report);
+      if (report.success) {
+        saveStateToStorage({
+          queries,
+          includeAnalyze,
+          includeJson,
+          analyzeTimeLimit,
+          benchmark,
+          includeStatus,
+          includeTrace,
+        });
       } else {
-        setError(data.message);
+        setError(report.message);
       }
     } catch (err) {
       const errorMessage =
@@ -84,13 +232,24 @@ const Dashboard = () => {
           : __("An error occurred while analyzing the queries", "simple-sql-query-analyzer");
       setError(errorMessage);
     } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
       setLoading(false);
     }
-  }, [queries, includeAnalyze]);
+  }, [queries, includeAnalyze, includeJson, analyzeTimeLimit, benchmark, includeStatus, includeTrace]);
+
+  const handleCancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
   const handleClear = useCallback(() => {
     setQueries([{ id: "1", label: "", query: "" }]);
     setIncludeAnalyze(false);
+    setIncludeJson(false);
+    setAnalyzeTimeLimit(DEFAULT_ANALYZE_TIME_LIMIT);
+    setBenchmark(DEFAULT_BENCHMARK);
+    setIncludeStatus(false);
+    setIncludeTrace(false);
     setError(null);
     setResponse(null);
     localStorage.removeItem(STORAGE_KEY);
@@ -100,6 +259,69 @@ const Dashboard = () => {
     setError(null);
   }, []);
 
+  const handleOpenReport = useCallback((report: AnalysisResponse) => {
+    setQueries(
+      report.queries?.length
+        ? collapseBindings(report.queries)
+        : [{ id: "1", label: "", query: "" }],
+    );
+    setError(null);
+    setResponse(report);
+    setView("analyzer");
+  }, []);
+
+  const handleImportQueries = useCallback((imported: QueryInput[]) => {
+    // Replace the empty placeholder query instead of appending after it
+    setQueries((current) => [...current.filter((q) => q.query.trim()), ...imported]);
+    setView("analyzer");
+  }, []);
+
+  const handleTrackQuery = useCallback(async (query: QueryInput) => {
+    setError(null);
+
+    // A template is tracked with its first value set bound, as cron needs runnable SQL
+    const [tracked] = expandQueryInput(
+      query,
+      query.label || sprintf(__("Query %d", "simple-sql-query-analyzer"), queries.indexOf(query) + 1),
+    );
+
+    try {
+      const data: TrackedQueryResponse = await apiFetch({
+        path: "/simple-sql-query-analyzer/v1/tracked",
+        method: "POST",
+        data: {
+          label: tracked.label,
+          query: tracked.query,
+        },
+      });
+
+      if (data.success) {
+        setView("tracked");
+      } else {
+        setError(data.message);
+      }
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error
+          ? err.message
+          : __("An error occurred while tracking the query", "simple-sql-query-analyzer");
+      setError(errorMessage);
+    }
+  }, [queries]);
+
+  const renderViewTab = (tab: ViewType, label: string) => (
+    <button
+      onClick={() => setView(tab)}
+      className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors cursor-pointer ${
+        view === tab
+          ? "border-blue-600 text-blue-600 bg-blue-50"
+          : "border-transparent text-gray-500 hover:text-gray-900 hover:border-gray-300 hover:bg-gray-50"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
   return (
     <div className="simple-sql-query-analyzer-app bg-gray-100 min-h-screen px-4">
       <div className="">
@@ -116,72 +338,128 @@ const Dashboard = () => {
           </p>
         </div>
 
-        {/* Two Column Layout - Desktop (lg:) single column by default */}
-        <div className="grid grid-cols-1 lg:grid-cols-[45%_55%] gap-6">
-          {/* Left Column - Query Form */}
-          <div className="flex flex-col space-y-4">
-            <QueryForm
-              queries={queries}
-              includeAnalyze={includeAnalyze}
-              loading={loading}
-              onQueriesChange={setQueries}
-              onAnalyzeChange={setIncludeAnalyze}
-              onSubmit={analyzeQueries}
-              onClear={handleClear}
-            />
-
-            {/* Status Messages */}
-            {loading && (
-              <div className="bg-white p-4 rounded-lg border border-gray-200 text-center">
-                <div className="inline-flex items-center">
-                  <div className="animate-spin h-4 w-4 mr-2 border-2 border-blue-600 border-t-transparent rounded-full" />
-                  <span className="text-sm text-gray-700">
-                    {sprintf(
-                      __("Analyzing %d queries...", "simple-sql-query-analyzer"),
-                      queries.filter((q) => q.query.trim()).length,
-                    )}
-                  </span>
-                </div>
-              </div>
-            )}
+        <div className="flex border-b border-gray-200 mb-4">
+          {renderViewTab("analyzer", __("Analyzer", "simple-sql-query-analyzer"))}
+          {renderViewTab("history", __("History", "simple-sql-query-analyzer"))}
+          {renderViewTab("tracked", __("Tracked Queries", "simple-sql-query-analyzer"))}
+          {renderViewTab("captured", __("Captured Queries", "simple-sql-query-analyzer"))}
+          {renderViewTab("import", __("Import", "simple-sql-query-analyzer"))}
+          {renderViewTab("schema", __("Schema", "simple-sql-query-analyzer"))}
+        </div>
+
+        {view === "history" && <HistoryView onOpen={handleOpenReport} />}
+
+        {view === "tracked" && <TrackedQueriesView />}
+
+        {view === "captured" && <CapturedQueriesView onImport={handleImportQueries} />}
 
-            {error && (
-              <Alert
-                type="error"
-                title={__("Error", "simple-sql-query-analyzer")}
-                message={error}
-                onDismiss={handleDismissError}
+        {view === "import" && <ImportView onImport={handleImportQueries} />}
+
+        {view === "schema" && <SchemaView />}
+
+        {/* Two Column Layout - Desktop (lg:) single column by default */}
+        {view === "analyzer" && (
+          <div className="grid grid-cols-1 lg:grid-cols-[45%_55%] gap-6">
+            {/* Left Column - Query Form */}
+            <div className="flex flex-col space-y-4">
+              <QueryForm
+                queries={queries}
+                schema={schema}
+                includeAnalyze={includeAnalyze}
+                includeJson={includeJson}
+                analyzeTimeLimit={analyzeTimeLimit}
+                benchmark={benchmark}
+                includeStatus={includeStatus}
+                includeTrace={includeTrace}
+                results={response?.queries}
+                loading={loading}
+                onQueriesChange={setQueries}
+                onAnalyzeChange={setIncludeAnalyze}
+                onJsonChange={setIncludeJson}
+                onTimeLimitChange={setAnalyzeTimeLimit}
+                onBenchmarkChange={setBenchmark}
+                onStatusChange={setIncludeStatus}
+                onTraceChange={setIncludeTrace}
+                onSubmit={analyzeQueries}
+                onClear={handleClear}
+                onTrack={handleTrackQuery}
               />
-            )}
 
-            {response &&
-              !error &&
-              (response.success ? (
-                <Alert
-                  type="success"
-                  title={__("Success", "simple-sql-query-analyzer")}
-                  message={response.message}
-                />
-              ) : (
+              {/* Status Messages */}
+              {loading && progress && (
+                <div className="bg-white p-4 rounded-lg border border-gray-200 space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="inline-flex items-center">
+                      <div className="animate-spin h-4 w-4 mr-2 border-2 border-blue-600 border-t-transparent rounded-full" />
+                      <span className="text-sm text-gray-700">
+                        {sprintf(
+                          /* translators: 1: number of queries analyzed, 2: number of queries */
+                          __("Analyzed %1$d of %2$d queries...", "simple-sql-query-analyzer"),
+                          progress.done,
+                          progress.total,
+                        )}
+                      </span>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleCancel}
+                      title={__(
+                        "Skips the remaining queries. The server still finishes the query it is analyzing.",
+                        "simple-sql-query-analyzer",
+                      )}
+                      className="px-3 py-1 text-xs border border-gray-300 hover:bg-gray-50 rounded cursor-pointer disabled:opacity-50"
+                    >
+                      {__("Stop waiting", "simple-sql-query-analyzer")}
+                    </button>
+                  </div>
+                  <div className="h-1.5 bg-gray-100 rounded overflow-hidden">
+                    <div
+                      className="h-full bg-blue-600 transition-all"
+                      style={{ width: `${(progress.done / progress.total) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {error && (
                 <Alert
                   type="error"
                   title={__("Error", "simple-sql-query-analyzer")}
-                  message={response.message}
+                  message={error}
                   onDismiss={handleDismissError}
                 />
-              ))}
-          </div>
+              )}
+
+              {response &&
+                !loading &&
+                !error &&
+                (response.success ? (
+                  <Alert
+                    type="success"
+                    title={__("Success", "simple-sql-query-analyzer")}
+                    message={response.message}
+                  />
+                ) : (
+                  <Alert
+                    type="error"
+                    title={__("Error", "simple-sql-query-analyzer")}
+                    message={response.message}
+                    onDismiss={handleDismissError}
+                  />
+                ))}
+            </div>
 
-          {/* Right Column - Results Display */}
-          <div className="flex flex-col">
-            <ResultsDisplay
-              loading={loading}
-              error={error}
-              response={response}
-              onDismissError={handleDismissError}
-            />
+            {/* Right Column - Results Display */}
+            <div className="flex flex-col">
+              <ResultsDisplay
+                loading={loading}
+                error={error}
+                response={response}
+                onDismissError={handleDismissError}
+              />
+            </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -6,17 +6,36 @@ export interface Column {
   default: string | null;
 }
 
+/** Statistics are missing from the schema used for autocomplete and from older reports */
 export interface Table {
   name: string;
   columns: Column[];
+  engine?: string | null;
+  collation?: string | null;
+  /** Estimated row count */
+  rows?: number | null;
+  /** Sizes in bytes */
+  data_length?: number;
+  index_length?: number;
+  data_free?: number;
+  auto_increment?: number | null;
 }
 
+/** One column of an index, as returned by SHOW INDEX */
 export interface Index {
   name: string;
   type: string;
   unique: boolean;
   column: string;
   seq: number;
+  /** Estimated distinct values of the index prefix up to this column */
+  cardinality?: number | null;
+  /** Indexed prefix length of a partially indexed string column */
+  sub_part?: number | null;
+  nullable?: boolean;
+  comment?: string;
+  /** Cardinality divided by the table rows, 0 to 1 */
+  selectivity?: number | null;
 }
 
 export interface Indexes {
@@ -41,14 +60,213 @@ export interface ExplainNode {
   children: ExplainNode[];
 }
 
+export type FindingSeverity = "critical" | "warning" | "info";
+
+export interface Finding {
+  rule: string;
+  severity: FindingSeverity;
+  message: string;
+  node: ExplainNode | null;
+}
+
+export type ColumnUsage = "filter" | "join" | "range" | "sort" | "group" | "select" | "other";
+
+export interface ColumnReference {
+  table: string;
+  column: string;
+  usage: ColumnUsage;
+}
+
+/** Column reference found by the SQL parser, before resolving it against table metadata */
+export interface ParsedColumnReference {
+  /** Real table name, or null when an unqualified column could belong to several tables */
+  table: string | null;
+  column: string;
+  usage: ColumnUsage;
+}
+
+export interface QueryReferences {
+  /** Real tables the statement reads or writes, excluding CTEs and derived tables */
+  tables: string[];
+  /** Alias to table name */
+  aliases: Record<string, string>;
+  columns: ParsedColumnReference[];
+}
+
+export interface IndexRecommendation {
+  table: string;
+  columns: string[];
+  statement: string;
+  reason: string;
+}
+
+export interface RedundantIndex {
+  table: string;
+  index: string;
+  coveredBy: string;
+}
+
 export interface ExplainTree {
   root: ExplainNode | null;
 }
 
+/** Costs are reported as strings with two decimals, e.g. "12.50" */
+export interface ExplainJsonCostInfo {
+  query_cost?: string;
+  read_cost?: string;
+  eval_cost?: string;
+  prefix_cost?: string;
+  sort_cost?: string;
+  data_read_per_join?: string;
+}
+
+/** A table access of an EXPLAIN FORMAT=JSON plan */
+export interface ExplainJsonTable {
+  table_name: string;
+  access_type?: string;
+  partitions?: string[];
+  possible_keys?: string[];
+  key?: string;
+  used_key_parts?: string[];
+  key_length?: string;
+  ref?: string[];
+  rows_examined_per_scan?: number;
+  rows_produced_per_join?: number;
+  /** MariaDB: estimated rows per scan */
+  rows?: number;
+  /** MariaDB ANALYZE: actual rows per scan, actual filtered percentage and time */
+  r_rows?: number;
+  r_filtered?: number;
+  r_total_time_ms?: number;
+  /** Percentage of rows left after the attached condition, e.g. "10.00" */
+  filtered?: string;
+  index_condition?: string;
+  attached_condition?: string;
+  using_index?: boolean;
+  using_join_buffer?: string;
+  cost_info?: ExplainJsonCostInfo;
+  used_columns?: string[];
+  materialized_from_subquery?: ExplainJsonOperation & { query_block: ExplainJsonQueryBlock };
+  attached_subqueries?: ExplainJson[];
+  message?: string;
+}
+
+/** Sort, grouping and deduplication steps wrap the accesses they apply to */
+export interface ExplainJsonOperation {
+  using_filesort?: boolean;
+  using_temporary_table?: boolean;
+  cost_info?: ExplainJsonCostInfo;
+  table?: ExplainJsonTable;
+  nested_loop?: { table: ExplainJsonTable }[];
+  [key: string]: unknown;
+}
+
+export interface ExplainJsonQueryBlock extends ExplainJsonOperation {
+  select_id?: number;
+  message?: string;
+  ordering_operation?: ExplainJsonOperation;
+  grouping_operation?: ExplainJsonOperation;
+  duplicates_removal?: ExplainJsonOperation;
+  union_result?: ExplainJsonOperation & { query_specifications?: ExplainJson[] };
+}
+
+export interface ExplainJson {
+  query_block: ExplainJsonQueryBlock;
+  dependent?: boolean;
+  cacheable?: boolean;
+}
+
+/** Named values for the placeholders of a query template */
+export interface ParamSet {
+  id: string;
+  name: string;
+  values: string[];
+}
+
 export interface QueryInput {
   id: string;
   label: string;
   query: string;
+  /** Value sets for %s/%d/? placeholders; each set is analyzed as its own query */
+  params?: ParamSet[];
+}
+
+/** The template and value set a query was expanded from */
+export interface QueryBinding {
+  template_id: string;
+  template: string;
+  label: string;
+  set: string;
+  values: string[];
+}
+
+export type ExplainFormat = "tree" | "traditional";
+
+/** Database server and the EXPLAIN variants it supports */
+export interface ServerInfo {
+  type: "MySQL" | "MariaDB";
+  version: string;
+  supports_tree: boolean;
+  supports_explain_analyze: boolean;
+  supports_analyze_json: boolean;
+}
+
+/**
+ * How ANALYZE, which executes the statement, was kept from changing data:
+ * "read_only" for SELECT statements, "rollback" for write statements, and
+ * "refused" when a table could not be rolled back.
+ */
+export type AnalyzeProtectionMode = "read_only" | "rollback" | "refused";
+
+export interface AnalyzeProtection {
+  mode: AnalyzeProtectionMode;
+  /** Milliseconds; null when the server cannot limit this kind of statement */
+  time_limit: number | null;
+  /** Reason for refusing, or the error that stopped ANALYZE */
+  message: string | null;
+}
+
+/** Number of measured and warm-up runs of each SELECT query; 0 runs skips benchmarking */
+export interface BenchmarkSettings {
+  runs: number;
+  warmup: number;
+}
+
+/** Milliseconds */
+export interface BenchmarkStats {
+  min: number;
+  median: number;
+  p95: number;
+  max: number;
+  mean: number;
+  stddev: number;
+}
+
+export interface BenchmarkResult {
+  warmup: number;
+  /** Milliseconds per measured run, in run order */
+  times: number[];
+  /** Null when no run completed */
+  stats: BenchmarkStats | null;
+  /** Error that stopped the runs, e.g. the time limit */
+  error: string | null;
+}
+
+/** SHOW SESSION STATUS counters changed by running the query once */
+export interface SessionStatus {
+  /** Handler_read_*, Created_tmp_*, Sort_* and Select_* deltas by counter name */
+  counters: Record<string, number>;
+  /** Error that stopped the query, e.g. the time limit */
+  error: string | null;
+}
+
+/** INFORMATION_SCHEMA.OPTIMIZER_TRACE of the query */
+export interface OptimizerTrace {
+  /** The trace as JSON text; null when the server recorded none */
+  trace: string | null;
+  /** Bytes cut off by optimizer_trace_max_mem_size */
+  missing_bytes: number;
+  error: string | null;
 }
 
 export interface QueryResult {
@@ -59,6 +277,28 @@ export interface QueryResult {
   indexes: Indexes;
   explain: Record<string, unknown>[];
   analyze: Record<string, unknown>[];
+  /** "traditional" when the server lacks FORMAT=TREE: explain then holds one row per table */
+  explain_format?: ExplainFormat;
+  /** EXPLAIN FORMAT=JSON rows, when requested; the first row holds the JSON document */
+  explain_json?: Record<string, unknown>[];
+  /** MariaDB's ANALYZE FORMAT=JSON, which replaces EXPLAIN ANALYZE there */
+  analyze_json?: Record<string, unknown>[];
+  /** Null when ANALYZE was not requested or the server does not support it */
+  analyze_protection?: AnalyzeProtection | null;
+  /** Aliases and columns parsed by the dashboard, echoed back by the server */
+  aliases?: Record<string, string>;
+  columns?: ParsedColumnReference[];
+  binding?: QueryBinding | null;
+  /** Only for SELECT queries when benchmarking was requested */
+  benchmark?: BenchmarkResult | null;
+  /** Only for SELECT queries when the counters were requested */
+  session_status?: SessionStatus | null;
+  /** Only when the trace was requested and the server supports it */
+  optimizer_trace?: OptimizerTrace | null;
+  /**
+   * Seconds spent analyzing the query on the server: EXPLAIN, ANALYZE and the
+   * metadata lookups. Not the query's own execution time.
+   */
   execution_time?: number;
   error: string | null;
 }
@@ -77,12 +317,159 @@ export interface AnalysisResponse {
   queries?: QueryResult[];
   summary?: QuerySummary;
   complete_output: string;
+  /** ID of the report saved to the history, if saving succeeded */
+  history_id?: number | null;
+  server?: ServerInfo;
+}
+
+export interface HistoryEntry {
+  id: number;
+  title: string;
+  created_at: string;
+  author: string;
+  db_version: string;
+  query_count: number;
+}
+
+export interface HistoryListResponse {
+  success: boolean;
+  message?: string;
+  items: HistoryEntry[];
+  total: number;
+  pages: number;
+}
+
+export interface HistoryReportResponse {
+  success: boolean;
+  message?: string;
+  entry?: HistoryEntry;
+  report?: AnalysisResponse;
+}
+
+export interface TrackedSample {
+  /** ISO 8601 time the sample was taken */
+  time: string;
+  cost: number | null;
+  rows: number | null;
+  /** EXPLAIN tree without cost and row estimates */
+  shape: string;
+  shape_hash: string;
+  error: string | null;
+}
+
+export interface TrackedQuery {
+  id: number;
+  label: string;
+  query: string;
+  created_at: string;
+  samples: TrackedSample[];
+}
+
+export interface TrackedListResponse {
+  success: boolean;
+  message?: string;
+  tracked: TrackedQuery[];
+}
+
+export interface TrackedQueryResponse {
+  success: boolean;
+  message: string;
+  tracked?: TrackedQuery;
+}
+
+export interface CapturedQuery {
+  /** Hash of the fingerprint */
+  id: string;
+  /** Query with literal values replaced by "?" */
+  fingerprint: string;
+  /** First captured query with this fingerprint, with its values */
+  query: string;
+  count: number;
+  /** Seconds, as reported by $wpdb */
+  total_time: number;
+  max_time: number;
+  /** Caller stacks, comma separated as reported by $wpdb */
+  callers: string[];
+  urls: string[];
+  last_seen: string;
+}
+
+export interface CaptureSettings {
+  active: boolean;
+  url_pattern: string;
+  expires: string | null;
+}
+
+export interface CaptureResponse {
+  success: boolean;
+  message: string;
+  settings: CaptureSettings;
+  queries: CapturedQuery[];
+}
+
+export interface StatementGroup {
+  /** Statement with literal values replaced by "?" */
+  fingerprint: string;
+  /** A concrete statement of the group, to run through the analyzer */
+  query: string;
+  /** False when only the fingerprint is known, e.g. digests without a sample */
+  has_sample: boolean;
+  count: number;
+  /** Seconds */
+  total_time: number;
+  max_time: number;
+  rows_examined: number;
+  rows_sent: number;
+}
+
+export interface DigestResponse {
+  success: boolean;
+  message: string;
+  groups?: StatementGroup[];
+}
+
+export interface SchemaResponse {
+  success: boolean;
+  tables: Table[];
+}
+
+/** Table of the schema explorer; rows and sizes are estimates for InnoDB */
+export interface SchemaTable extends Table {
+  engine: string | null;
+  collation: string | null;
+  rows: number | null;
+  data_length: number;
+  index_length: number;
+  data_free: number;
+  auto_increment: number | null;
+  indexes: Index[];
+}
+
+export interface SchemaDetailsResponse {
+  success: boolean;
+  tables: SchemaTable[];
+}
+
+export interface WhatIfIndexResponse {
+  success: boolean;
+  message: string;
+  index_name?: string;
+  statement?: string;
+  before?: Record<string, unknown>[];
+  after?: Record<string, unknown>[];
+  index_used?: boolean;
 }
 
 export interface SqlAnalyzerData {
   restRoot: string;
   restNonce: string;
   analyzeEndpoint: string;
+  whatIfEndpoint: string;
+  historyEndpoint: string;
+  trackedEndpoint: string;
+  captureEndpoint: string;
+  digestEndpoint: string;
+  schemaEndpoint: string;
   version: string;
   i18n: Record<string, string>;
 }
@@ -0,0 +1,241 @@
+import { __, sprintf } from "@wordpress/i18n";
+import { getPlanNodes } from "./explainParser";
+import { formatNumber } from "./format";
+import type { ExplainNode, Finding, FindingSeverity, QueryResult } from "../types";
+
+interface RuleContext {
+  /** Lowercase names of every column that is part of an index */
+  indexedColumns: Set<string>;
+}
+
+interface Rule {
+  id: string;
+  check: (node: ExplainNode, context: RuleContext) => Finding[];
+}
+
+/** Table scans reading at least this many rows are reported */
+const LARGE_TABLE_ROWS = 1000;
+const HUGE_TABLE_ROWS = 100000;
+
+// Words that look like calls in conditions but are not functions
+const NON_FUNCTIONS = new Set(["and", "or", "not", "in", "exists", "like", "is", "between", "on", "using", "over"]);
+
+const SEVERITY_ORDER: Record<FindingSeverity, number> = { critical: 0, warning: 1, info: 2 };
+
+const rules: Rule[] = [
+  {
+    id: "full-table-scan",
+    check: (node) => {
+      if (!/^Table scan on /i.test(node.operation) || isTemporaryTable(node.table)) {
+        return [];
+      }
+
+      const rows = getRowCount(node);
+      if (rows === null || rows < LARGE_TABLE_ROWS) {
+        return [];
+      }
+
+      return [
+        {
+          rule: "full-table-scan",
+          severity: rows >= HUGE_TABLE_ROWS ? "critical" : "warning",
+          message: sprintf(
+            /* translators: 1: table name, 2: number of rows */
+            __("Full table scan on %1$s reads %2$s rows", "simple-sql-query-analyzer"),
+            node.table ?? "",
+            formatNumber(rows),
+          ),
+          node,
+        },
+      ];
+    },
+  },
+  {
+    id: "filesort",
+    check: (node) => {
+      if (!/^Sort\b/i.test(node.operation) && !/filesort/i.test(node.operation)) {
+        return [];
+      }
+
+      return [
+        {
+          rule: "filesort",
+          severity: "warning",
+          message: __(
+            "Rows are sorted after being read (filesort); an index matching the ORDER BY would avoid it",
+            "simple-sql-query-analyzer",
+          ),
+          node,
+        },
+      ];
+    },
+  },
+  {
+    id: "temporary-table",
+    check: (node) => {
+      if (!/^(Temporary table|Materialize)\b/i.test(node.operation)) {
+        return [];
+      }
+
+      return [
+        {
+          rule: "temporary-table",
+          severity: "warning",
+          message: __(
+            "An internal temporary table is created to hold intermediate results",
+            "simple-sql-query-analyzer",
+          ),
+          node,
+        },
+      ];
+    },
+  },
+  {
+    id: "nested-loop-without-index",
+    check: (node) => {
+      if (!/^Nested loop/i.test(node.operation) || node.children.length < 2) {
+        return [];
+      }
+
+      // The inner side runs once per outer row, so a scan there is repeated
+      const innerScan = findNode(node.children[node.children.length - 1], (child) =>
+        /^Table scan on /i.test(child.operation) && !isTemporaryTable(child.table),
+      );
+      if (!innerScan) {
+        return [];
+      }
+
+      return [
+        {
+          rule: "nested-loop-without-index",
+          severity: "critical",
+          message: sprintf(
+            /* translators: %s is the table name */
+            __(
+              "Nested loop join scans %s for every outer row because no index is used for the join",
+              "simple-sql-query-analyzer",
+            ),
+            innerScan.table ?? "",
+          ),
+          node: innerScan,
+        },
+      ];
+    },
+  },
+  {
+    id: "leading-wildcard-like",
+    check: (node) => {
+      if (!node.condition || !/\blike\s+'%/i.test(node.condition)) {
+        return [];
+      }
+
+      return [
+        {
+          rule: "leading-wildcard-like",
+          severity: "warning",
+          message: __(
+            "LIKE pattern starts with a wildcard ('%...'), so no index can be used for it",
+            "simple-sql-query-analyzer",
+          ),
+          node,
+        },
+      ];
+    },
+  },
+  {
+    id: "function-on-indexed-column",
+    check: (node, context) => {
+      if (!node.condition) {
+        return [];
+      }
+
+      const findings: Finding[] = [];
+      const seen = new Set<string>();
+      const callPattern = /\b([a-z_][a-z0-9_]*)\s*\(\s*(?:`?\w+`?\.)?`?(\w+)`?/gi;
+
+      for (const match of node.condition.matchAll(callPattern)) {
+        const functionName = match[1].toLowerCase();
+        const column = match[2].toLowerCase();
+
+        if (NON_FUNCTIONS.has(functionName) || !context.indexedColumns.has(column) || seen.has(column)) {
+          continue;
+        }
+        seen.add(column);
+
+        findings.push({
+          rule: "function-on-indexed-column",
+          severity: "warning",
+          message: sprintf(
+            /* translators: 1: function name, 2: column name */
+            __(
+              "%1$s() is applied to the indexed column %2$s, which prevents the index from being used",
+              "simple-sql-query-analyzer",
+            ),
+            match[1].toUpperCase(),
+            match[2],
+          ),
+          node,
+        });
+      }
+
+      return findings;
+    },
+  },
+];
+
+/**
+ * Run every anti-pattern rule over the plan of a query.
+ *
+ * The ANALYZE plan is used when available since it carries actual row counts.
+ * Findings are sorted by severity, most severe first.
+ */
+export function detectAntiPatterns(query: QueryResult): Finding[] {
+  if (query.error) {
+    return [];
+  }
+
+  const indexedColumns = new Set<string>();
+  for (const tableIndexes of Object.values(query.indexes ?? {})) {
+    for (const index of tableIndexes) {
+      indexedColumns.add(index.column.toLowerCase());
+    }
+  }
+
+  const findings: Finding[] = [];
+  const traverse = (nodes: ExplainNode[]) => {
+    for (const node of nodes) {
+      for (const rule of rules) {
+        findings.push(...rule.check(node, { indexedColumns }));
+      }
+      traverse(node.children);
+    }
+  };
+
+  traverse(getPlanNodes(query));
+
+  return findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+function getRowCount(node: ExplainNode): number | null {
+  if (node.actual_rows !== null && node.actual_loops) {
+    return node.actual_rows * node.actual_loops;
+  }
+  return node.estimated_rows;
+}
+
+function isTemporaryTable(table: string | null): boolean {
+  return table !== null && table.startsWith("<");
+}
+
+function findNode(node: ExplainNode, predicate: (node: ExplainNode) => boolean): ExplainNode | null {
+  if (predicate(node)) {
+    return node;
+  }
+  for (const child of node.children) {
+    const found = findNode(child, predicate);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,38 @@
+/** A bar of a run time histogram, in milliseconds */
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+/**
+ * Group run times into equal-width bins between the fastest and slowest run.
+ * All runs fall into a single bin when their times are equal.
+ */
+export function getHistogram(times: number[], binCount = 12): HistogramBin[] {
+  if (times.length === 0) {
+    return [];
+  }
+
+  const min = Math.min(...times);
+  const max = Math.max(...times);
+  const width = (max - min) / binCount;
+
+  if (width === 0) {
+    return [{ start: min, end: max, count: times.length }];
+  }
+
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    count: 0,
+  }));
+
+  for (const time of times) {
+    // The slowest run belongs to the last bin rather than one past it
+    const index = Math.min(Math.floor((time - min) / width), binCount - 1);
+    bins[index].count++;
+  }
+
+  return bins;
+}
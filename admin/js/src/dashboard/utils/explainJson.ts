@@ -0,0 +1,112 @@
+import type { ExplainJson, ExplainJsonTable } from "../types";
+
+/** A table access of a JSON plan, with the sort and temporary table steps around it */
+export interface JsonTableAccess {
+  table: ExplainJsonTable;
+  /** select_id of the query block the access belongs to */
+  selectId: number | null;
+  /** Nesting of the query block: 0 for the outer query, 1 for its subqueries... */
+  depth: number;
+  /** Whether a step of the same query block sorts the rows with a filesort */
+  usingFilesort: boolean;
+  /** Whether a step of the same query block goes through a temporary table */
+  usingTemporary: boolean;
+}
+
+interface WalkContext {
+  selectId: number | null;
+  depth: number;
+  usingFilesort: boolean;
+  usingTemporary: boolean;
+}
+
+/**
+ * Parse the document returned by EXPLAIN FORMAT=JSON, or null when the text is
+ * not a JSON plan.
+ */
+export function parseExplainJson(raw: string | null): ExplainJson | null {
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return isExplainJson(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List the table accesses of a JSON plan in plan order, including those of
+ * subqueries, derived tables and unions.
+ *
+ * MySQL flags filesorts and temporary tables on the ordering, grouping and
+ * deduplication steps that wrap the accesses; MariaDB wraps them in "filesort"
+ * and "temporary_table" objects instead. Both are carried down to the accesses.
+ */
+export function getTableAccesses(plan: ExplainJson): JsonTableAccess[] {
+  const accesses: JsonTableAccess[] = [];
+
+  const walk = (node: unknown, context: WalkContext) => {
+    if (Array.isArray(node)) {
+      node.forEach((item) => walk(item, context));
+      return;
+    }
+    if (!isObject(node)) {
+      return;
+    }
+
+    const here: WalkContext = {
+      ...context,
+      usingFilesort: context.usingFilesort || node.using_filesort === true,
+      usingTemporary: context.usingTemporary || node.using_temporary_table === true,
+    };
+
+    for (const [key, value] of Object.entries(node)) {
+      if (key === "query_block" && isObject(value)) {
+        // A new query block starts with its own sort and temporary table steps
+        walk(value, {
+          selectId: typeof value.select_id === "number" ? value.select_id : null,
+          depth: context.depth + 1,
+          usingFilesort: false,
+          usingTemporary: false,
+        });
+      } else if (key === "table" && isExplainJsonTable(value)) {
+        accesses.push({ table: value, ...here });
+        // Materialized and attached subqueries of the access
+        walk(value, here);
+      } else if (key === "filesort") {
+        walk(value, { ...here, usingFilesort: true });
+      } else if (key === "temporary_table") {
+        walk(value, { ...here, usingTemporary: true });
+      } else {
+        walk(value, here);
+      }
+    }
+  };
+
+  walk(plan, { selectId: null, depth: -1, usingFilesort: false, usingTemporary: false });
+
+  return accesses;
+}
+
+/**
+ * Total cost of the plan, as estimated for the outer query block.
+ */
+export function getQueryCost(plan: ExplainJson): number | null {
+  const cost = Number(plan.query_block.cost_info?.query_cost);
+  return Number.isFinite(cost) ? cost : null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isExplainJson(value: unknown): value is ExplainJson {
+  return isObject(value) && isObject(value.query_block);
+}
+
+function isExplainJsonTable(value: unknown): value is ExplainJsonTable {
+  return isObject(value) && typeof value.table_name === "string";
+}
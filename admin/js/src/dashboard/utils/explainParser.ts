@@ -0,0 +1,278 @@
+import type { ExplainNode, QueryResult } from "../types";
+
+const NUMBER = "(\\d+(?:\\.\\d+)?(?:e[+-]?\\d+)?)";
+
+// (cost=1.20 rows=2) or (cost=2.50..2.50 rows=0)
+const ESTIMATE_PATTERN = new RegExp(`\\s*\\(cost=${NUMBER}(?:\\.\\.${NUMBER})?\\s+rows=${NUMBER}\\)`, "i");
+
+// (actual time=0.05..1.23 rows=120 loops=3)
+const ACTUAL_PATTERN = new RegExp(
+  `\\s*\\(actual time=${NUMBER}\\.\\.${NUMBER}\\s+rows=${NUMBER}\\s+loops=${NUMBER}\\)`,
+  "i",
+);
+
+const NEVER_EXECUTED_PATTERN = /\s*\(never executed\)/i;
+
+// "Index lookup on pm using meta_key (meta_key='_price')", "Table scan on wp_posts", ...
+const ACCESS_PATTERN = /\b(?:scan|lookup|search)\s+on\s+(\S+)(?:\s+using\s+(\S+))?(?:\s+over)?\s*(.*)$/i;
+
+/**
+ * Get the plan text from the rows returned by the analyze endpoint.
+ */
+export function getRawExplain(rows: Record<string, unknown>[] | undefined): string | null {
+  const value = rows?.[0]?.["EXPLAIN"];
+  return typeof value === "string" ? value : null;
+}
+
+/**
+ * The estimated plan of a query as plan nodes: the tree EXPLAIN, or the rows of
+ * the tabular EXPLAIN on servers without the tree format.
+ */
+export function getExplainNodes(query: QueryResult): ExplainNode[] {
+  if (query.explain_format === "traditional") {
+    return parseTabularExplain(query.explain ?? []);
+  }
+  return parseExplainTree(getRawExplain(query.explain) ?? "");
+}
+
+/**
+ * The plan of a query as plan nodes, preferring the ANALYZE plan since it
+ * carries actual row counts.
+ */
+export function getPlanNodes(query: QueryResult): ExplainNode[] {
+  const rawAnalyze = getRawExplain(query.analyze);
+  return rawAnalyze ? parseExplainTree(rawAnalyze) : getExplainNodes(query);
+}
+
+/**
+ * Convert the rows of the tabular EXPLAIN of MariaDB and MySQL 5.7 into plan
+ * nodes named like their tree EXPLAIN counterparts, so that the same findings,
+ * index lookups and plan diffs apply.
+ *
+ * Rows sharing a select id are joined left-deep in their listed order. The
+ * "Using temporary" and "Using filesort" notes of a select's first table wrap
+ * the join, the way the tree format shows them. The rows carry no costs and
+ * no conditions.
+ */
+export function parseTabularExplain(rows: Record<string, unknown>[]): ExplainNode[] {
+  const selects = new Map<string, ExplainNode[]>();
+  const notes = new Map<string, string>();
+
+  for (const row of rows) {
+    const id = String(row.id ?? "");
+    const node = parseTabularRow(row);
+    if (!node) {
+      continue;
+    }
+    if (!selects.has(id)) {
+      selects.set(id, []);
+      notes.set(id, typeof row.Extra === "string" ? row.Extra : "");
+    }
+    selects.get(id)?.push(node);
+  }
+
+  return [...selects.entries()].map(([id, tables]) => {
+    let plan = tables.reduce((outer, inner) =>
+      createNode("Nested loop inner join", {
+        estimated_rows: multiplyRows(outer.estimated_rows, inner.estimated_rows),
+        children: [outer, inner],
+      }),
+    );
+
+    const extra = notes.get(id) ?? "";
+    if (/Using temporary/i.test(extra)) {
+      plan = createNode("Temporary table", { estimated_rows: plan.estimated_rows, children: [plan] });
+    }
+    if (/Using filesort/i.test(extra)) {
+      plan = createNode("Sort: filesort", { estimated_rows: plan.estimated_rows, children: [plan] });
+    }
+
+    setDepth(plan, 0);
+    return plan;
+  });
+}
+
+/**
+ * Parse the output of EXPLAIN FORMAT=TREE or EXPLAIN ANALYZE into plan nodes.
+ *
+ * Estimated metrics (cost, rows) and actual metrics (time, rows, loops) are
+ * kept in separate fields. Nodes reported as "never executed" get zero loops.
+ */
+export function parseExplainTree(rawExplain: string): ExplainNode[] {
+  const nodes: ExplainNode[] = [];
+
+  for (const line of rawExplain.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    const node = parseExplainLine(line);
+    if (node) {
+      nodes.push(node);
+    }
+  }
+
+  return buildHierarchy(nodes);
+}
+
+/**
+ * Parse a single "-> operation (cost=...) (actual ...)" line.
+ */
+export function parseExplainLine(line: string): ExplainNode | null {
+  const arrowIndex = line.indexOf("->");
+  if (arrowIndex === -1) {
+    return null;
+  }
+
+  // Every nesting level is indented by 4 spaces
+  const depth = Math.floor(arrowIndex / 4);
+  let operation = line.slice(arrowIndex + 2).trim();
+
+  let cost: number | null = null;
+  let estimatedRows: number | null = null;
+  const estimateMatch = operation.match(ESTIMATE_PATTERN);
+  if (estimateMatch) {
+    cost = parseFloat(estimateMatch[2] ?? estimateMatch[1]);
+    estimatedRows = parseFloat(estimateMatch[3]);
+    operation = operation.replace(estimateMatch[0], "");
+  }
+
+  let actualTime: ExplainNode["actual_time"] = null;
+  let actualRows: number | null = null;
+  let actualLoops: number | null = null;
+  const actualMatch = operation.match(ACTUAL_PATTERN);
+  if (actualMatch) {
+    const start = parseFloat(actualMatch[1]);
+    const end = parseFloat(actualMatch[2]);
+    actualRows = parseFloat(actualMatch[3]);
+    actualLoops = parseFloat(actualMatch[4]);
+    // MySQL reports per-loop averages, so the total time spent is end × loops
+    actualTime = { start, end, total: end * actualLoops };
+    operation = operation.replace(actualMatch[0], "");
+  } else if (NEVER_EXECUTED_PATTERN.test(operation)) {
+    actualRows = 0;
+    actualLoops = 0;
+    operation = operation.replace(NEVER_EXECUTED_PATTERN, "");
+  }
+
+  operation = operation.trim();
+
+  return {
+    operation,
+    cost,
+    estimated_rows: estimatedRows,
+    actual_time: actualTime,
+    actual_rows: actualRows,
+    actual_loops: actualLoops,
+    ...parseAccessDetails(operation),
+    depth,
+    children: [],
+  };
+}
+
+function parseAccessDetails(
+  operation: string,
+): Pick<ExplainNode, "table" | "index" | "condition"> {
+  if (/^Filter:/i.test(operation)) {
+    return { table: null, index: null, condition: operation.replace(/^Filter:\s*/i, "") };
+  }
+
+  const accessMatch = operation.match(ACCESS_PATTERN);
+  if (accessMatch) {
+    return {
+      table: accessMatch[1].replace(/`/g, ""),
+      index: accessMatch[2] ? accessMatch[2].replace(/`/g, "") : null,
+      condition: accessMatch[3].trim() || null,
+    };
+  }
+
+  const joinMatch = operation.match(/\bjoin\s+(\(.+\))$/i);
+  if (joinMatch) {
+    return { table: null, index: null, condition: joinMatch[1] };
+  }
+
+  return { table: null, index: null, condition: null };
+}
+
+function buildHierarchy(nodes: ExplainNode[]): ExplainNode[] {
+  const root: ExplainNode[] = [];
+  const stack: (ExplainNode | null)[] = [null]; // null represents root level
+
+  for (const node of nodes) {
+    // Pop stack until we find parent at previous depth
+    while (stack.length > node.depth + 1) {
+      stack.pop();
+    }
+
+    // Ensure stack has enough entries
+    while (stack.length <= node.depth) {
+      stack.push(null);
+    }
+
+    // Add to parent
+    const parent = stack[node.depth];
+    if (parent === null) {
+      root.push(node);
+    } else {
+      parent.children.push(node);
+    }
+
+    stack[node.depth + 1] = node;
+  }
+
+  return root;
+}
+
+function parseTabularRow(row: Record<string, unknown>): ExplainNode | null {
+  const table = typeof row.table === "string" ? row.table : null;
+  if (!table) {
+    return null;
+  }
+
+  const index = typeof row.key === "string" && row.key !== "" ? row.key : null;
+  const type = String(row.type ?? "").toLowerCase();
+  const rows = Number(row.rows);
+  const using = index ? ` using ${index}` : "";
+  const operations: Record<string, string> = {
+    all: `Table scan on ${table}`,
+    index: `Index scan on ${table}${using}`,
+    range: `Index range scan on ${table}${using}`,
+    ref: `Index lookup on ${table}${using}`,
+    ref_or_null: `Index lookup on ${table}${using}`,
+    eq_ref: `Single-row index lookup on ${table}${using}`,
+    const: `Constant row from ${table}`,
+    system: `Constant row from ${table}`,
+  };
+
+  return createNode(operations[type] ?? `${type || "Access"} on ${table}${using}`, {
+    estimated_rows: Number.isFinite(rows) ? rows : null,
+    table,
+    index,
+  });
+}
+
+function createNode(operation: string, fields: Partial<ExplainNode>): ExplainNode {
+  return {
+    operation,
+    cost: null,
+    estimated_rows: null,
+    actual_time: null,
+    actual_rows: null,
+    actual_loops: null,
+    table: null,
+    index: null,
+    condition: null,
+    depth: 0,
+    children: [],
+    ...fields,
+  };
+}
+
+function multiplyRows(outer: number | null, inner: number | null): number | null {
+  return outer !== null && inner !== null ? outer * inner : null;
+}
+
+function setDepth(node: ExplainNode, depth: number): void {
+  node.depth = depth;
+  node.children.forEach((child) => setDepth(child, depth + 1));
+}
@@ -0,0 +1,36 @@
+/**
+ * Format a count or cost with K/M suffixes.
+ */
+export function formatNumber(num: number): string {
+  if (num >= 1e6) {
+    return `${(num / 1e6).toFixed(2)}M`;
+  } else if (num >= 1e3) {
+    return `${(num / 1e3).toFixed(1)}K`;
+  } else {
+    return num.toFixed(0);
+  }
+}
+
+/**
+ * Format a duration given in milliseconds.
+ */
+export function formatTime(ms: number): string {
+  if (ms >= 1000) {
+    return `${(ms / 1000).toFixed(2)}s`;
+  }
+  return `${ms < 10 ? ms.toFixed(2) : ms.toFixed(0)}ms`;
+}
+
+/**
+ * Format a size given in bytes.
+ */
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size.toFixed(0) : size.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,379 @@
+import { __, sprintf } from "@wordpress/i18n";
+import { getPlanNodes } from "./explainParser";
+import { extractColumnReferences } from "./queryColumns";
+import type {
+  ColumnReference,
+  ColumnUsage,
+  ExplainNode,
+  Index,
+  IndexRecommendation,
+  QueryResult,
+  RedundantIndex,
+  Table,
+} from "../types";
+
+export interface GroupedIndex {
+  name: string;
+  type: string;
+  unique: boolean;
+  /** Column names in index order (Seq_in_index) */
+  columns: string[];
+  /** SHOW INDEX rows in index order, with per-column cardinality and prefix length */
+  parts: Index[];
+}
+
+/**
+ * How a query can use an index column: "used" columns form the leftmost prefix
+ * of the lookup, "unusable" ones are in the query's predicates but come after
+ * a gap or a range column, "unmatched" ones are not in the predicates.
+ */
+export type IndexColumnStatus = "used" | "unusable" | "unmatched";
+
+export interface IndexColumnMatch {
+  part: Index;
+  status: IndexColumnStatus;
+  /** How the query's predicates use the column, if they do */
+  usage: ColumnUsage | null;
+}
+
+export interface IndexAdvice {
+  recommendations: IndexRecommendation[];
+  redundant: RedundantIndex[];
+}
+
+/** MySQL limits identifiers to 64 characters */
+const MAX_INDEX_NAME_LENGTH = 64;
+
+/** Prefix length that fits utf8mb4 columns in InnoDB index keys, as used by WordPress core */
+const TEXT_PREFIX_LENGTH = 191;
+
+/**
+ * Group SHOW INDEX rows (one per column) into indexes with ordered columns.
+ */
+export function groupIndexes(indexes: Index[]): GroupedIndex[] {
+  const grouped = new Map<string, GroupedIndex>();
+
+  for (const idx of indexes) {
+    const existing = grouped.get(idx.name);
+    if (existing) {
+      existing.parts.push(idx);
+    } else {
+      grouped.set(idx.name, {
+        name: idx.name,
+        type: idx.type,
+        unique: idx.unique,
+        columns: [],
+        parts: [idx],
+      });
+    }
+  }
+
+  return [...grouped.values()].map((index) => {
+    const parts = [...index.parts].sort((a, b) => Number(a.seq) - Number(b.seq));
+    return { ...index, columns: parts.map((part) => part.column), parts };
+  });
+}
+
+/**
+ * Match the columns of an index against the predicates of a query on its table.
+ *
+ * A lookup uses the index from its first column on: each equality column
+ * extends the prefix, a range column ends it, and so does a missing column.
+ */
+export function matchIndexColumns(
+  index: GroupedIndex,
+  references: ColumnReference[],
+): IndexColumnMatch[] {
+  let inPrefix = true;
+
+  return index.parts.map((part) => {
+    const usages = references
+      .filter(
+        (ref) =>
+          ref.column.toLowerCase() === part.column.toLowerCase() &&
+          ["filter", "join", "range"].includes(ref.usage),
+      )
+      .map((ref) => ref.usage);
+
+    if (usages.length === 0) {
+      inPrefix = false;
+      return { part, status: "unmatched", usage: null };
+    }
+
+    const usage = usages.find((u) => u !== "range") ?? "range";
+    const status = inPrefix ? "used" : "unusable";
+    if (usage === "range") {
+      inPrefix = false;
+    }
+    return { part, status, usage };
+  });
+}
+
+/**
+ * Names of the indexes the plan reads, by table. Plan nodes name tables by
+ * their alias, which the aliases parsed from the query resolve.
+ */
+export function findPlanIndexes(query: QueryResult): Map<string, Set<string>> {
+  const used = new Map<string, Set<string>>();
+  if (query.error) {
+    return used;
+  }
+
+  const traverse = (nodes: ExplainNode[]) => {
+    for (const node of nodes) {
+      if (node.table && node.index) {
+        const table = query.aliases?.[node.table] ?? node.table;
+        used.set(table, (used.get(table) ?? new Set()).add(node.index));
+      }
+      traverse(node.children);
+    }
+  };
+
+  traverse(getPlanNodes(query));
+
+  return used;
+}
+
+/**
+ * Suggest indexes for the columns a query filters, joins and sorts on, and
+ * report existing indexes that are made redundant by a longer one.
+ */
+export function adviseIndexes(query: QueryResult): IndexAdvice {
+  if (query.error) {
+    return { recommendations: [], redundant: [] };
+  }
+
+  const references = extractColumnReferences(query.query, query.tables);
+  const recommendations: IndexRecommendation[] = [];
+  const redundant: RedundantIndex[] = [];
+
+  const tableNames = new Set([
+    ...query.tables.map((t) => t.name),
+    ...Object.keys(query.indexes ?? {}),
+  ]);
+
+  for (const tableName of tableNames) {
+    const indexes = groupIndexes(query.indexes?.[tableName] ?? []);
+    const table = query.tables.find((t) => t.name === tableName);
+
+    const recommendation = recommendForTable(
+      tableName,
+      table,
+      references.filter((ref) => ref.table === tableName),
+      references.filter((ref) => ref.usage === "sort"),
+      indexes,
+    );
+    if (recommendation) {
+      recommendations.push(recommendation);
+    }
+
+    redundant.push(...findRedundantIndexes(tableName, indexes));
+  }
+
+  return { recommendations, redundant };
+}
+
+function recommendForTable(
+  tableName: string,
+  table: Table | undefined,
+  references: ColumnReference[],
+  allSortReferences: ColumnReference[],
+  indexes: GroupedIndex[],
+): IndexRecommendation | null {
+  const unique = (columns: string[]) => [...new Set(columns)];
+
+  // Joins on a primary or unique key are already single-row lookups
+  const uniqueKeys = new Set(
+    indexes
+      .filter((index) => index.unique && index.columns.length === 1)
+      .map((index) => index.columns[0]),
+  );
+
+  // Constant filters first, then join columns: both are equality lookups
+  const equality = unique([
+    ...references.filter((ref) => ref.usage === "filter").map((ref) => ref.column),
+    ...references
+      .filter((ref) => ref.usage === "join" && !uniqueKeys.has(ref.column))
+      .map((ref) => ref.column),
+  ]);
+  const range = references.find(
+    (ref) => ref.usage === "range" && !equality.includes(ref.column),
+  )?.column;
+
+  // ORDER BY can only use the index when it sorts on this table alone and no range comes first
+  const sortsOnThisTable =
+    allSortReferences.length > 0 && allSortReferences.every((ref) => ref.table === tableName);
+  const sort =
+    !range && sortsOnThisTable
+      ? unique(allSortReferences.map((ref) => ref.column)).filter(
+          (column) => !equality.includes(column),
+        )
+      : [];
+
+  const tail = range ? [range] : sort;
+  const candidate = [...equality, ...tail];
+  if (candidate.length === 0) {
+    return null;
+  }
+
+  let best: { index: GroupedIndex; matched: number } | null = null;
+  for (const index of indexes) {
+    const matched = matchPrefix(index.columns, equality, tail);
+    if (matched === candidate.length) {
+      return null;
+    }
+    if (matched > 0 && (!best || matched > best.matched)) {
+      best = { index, matched };
+    }
+  }
+
+  const usage = describeUsage(references, candidate, sort);
+  const reason = best
+    ? sprintf(
+        /* translators: 1: column usage, 2: index name, 3: indexed columns */
+        __("%1$s, but the best existing index %2$s only covers %3$s", "simple-sql-query-analyzer"),
+        usage,
+        best.index.name,
+        best.index.columns.slice(0, best.matched).join(", "),
+      )
+    : sprintf(
+        /* translators: 1: column usage, 2: list of existing indexes */
+        __(
+          "%1$s, but no index starts with these columns (available: %2$s)",
+          "simple-sql-query-analyzer",
+        ),
+        usage,
+        indexes.length > 0
+          ? indexes.map((index) => `${index.name}(${index.columns.join(", ")})`).join("; ")
+          : __("none", "simple-sql-query-analyzer"),
+      );
+
+  return {
+    table: tableName,
+    columns: candidate,
+    statement: buildStatement(tableName, candidate, table),
+    reason,
+  };
+}
+
+/**
+ * Count how many leading columns of an index can be used for a lookup on the
+ * equality columns (in any order) followed by the range or sort columns.
+ */
+function matchPrefix(indexColumns: string[], equality: string[], tail: string[]): number {
+  const lower = indexColumns.map((column) => column.toLowerCase());
+  const equalitySet = new Set(equality.map((column) => column.toLowerCase()));
+
+  let matched = 0;
+  while (matched < lower.length && equalitySet.has(lower[matched])) {
+    equalitySet.delete(lower[matched]);
+    matched++;
+  }
+
+  if (equalitySet.size > 0) {
+    return matched;
+  }
+
+  for (const column of tail) {
+    if (lower[matched] !== column.toLowerCase()) {
+      break;
+    }
+    matched++;
+  }
+
+  return matched;
+}
+
+function describeUsage(references: ColumnReference[], candidate: string[], sort: string[]): string {
+  return candidate
+    .map((column) => {
+      if (sort.includes(column)) {
+        /* translators: %s is a column name */
+        return sprintf(__("%s used in ORDER BY", "simple-sql-query-analyzer"), column);
+      }
+
+      const usage = references.find(
+        (ref) => ref.column === column && ["filter", "join", "range"].includes(ref.usage),
+      )?.usage;
+      switch (usage) {
+        case "filter":
+          /* translators: %s is a column name */
+          return sprintf(__("%s used in equality filter", "simple-sql-query-analyzer"), column);
+        case "join":
+          /* translators: %s is a column name */
+          return sprintf(__("%s used in join condition", "simple-sql-query-analyzer"), column);
+        default:
+          /* translators: %s is a column name */
+          return sprintf(__("%s used in range filter", "simple-sql-query-analyzer"), column);
+      }
+    })
+    .join(", ");
+}
+
+function buildStatement(tableName: string, columns: string[], table: Table | undefined): string {
+  const indexName = `idx_${columns.join("_")}`.slice(0, MAX_INDEX_NAME_LENGTH);
+  const columnList = columns
+    .map((column) => {
+      const type =
+        table?.columns.find((c) => c.name.toLowerCase() === column.toLowerCase())?.type ?? "";
+      // TEXT/BLOB columns can only be indexed with a prefix length
+      const prefix = /text|blob/i.test(type) ? `(${TEXT_PREFIX_LENGTH})` : "";
+      return `\`${column}\`${prefix}`;
+    })
+    .join(", ");
+
+  return `ALTER TABLE ${quoteTableName(tableName)} ADD INDEX \`${indexName}\` (${columnList});`;
+}
+
+/** Quote a table name, optionally qualified with its schema, one identifier at a time */
+function quoteTableName(tableName: string): string {
+  return tableName
+    .split(".")
+    .map((part) => `\`${part}\``)
+    .join(".");
+}
+
+/**
+ * Non-unique indexes whose columns are a leading prefix of another index are
+ * redundant: the longer index serves the same lookups. A column indexed with a
+ * prefix length is only covered by the full column or a prefix at least as long.
+ */
+function findRedundantIndexes(tableName: string, indexes: GroupedIndex[]): RedundantIndex[] {
+  const redundant: RedundantIndex[] = [];
+
+  for (const index of indexes) {
+    if (index.unique || index.name === "PRIMARY" || index.type === "FULLTEXT") {
+      continue;
+    }
+
+    const coveredBy = indexes.find(
+      (other) =>
+        other !== index &&
+        other.type !== "FULLTEXT" &&
+        other.parts.length >= index.parts.length &&
+        index.parts.every((part, i) => coversPart(other.parts[i], part)) &&
+        // Of two identical indexes, only report the second one
+        (other.parts.length > index.parts.length ||
+          !other.parts.every((part, i) => coversPart(index.parts[i], part)) ||
+          indexes.indexOf(other) < indexes.indexOf(index)),
+    );
+
+    if (coveredBy) {
+      redundant.push({ table: tableName, index: index.name, coveredBy: coveredBy.name });
+    }
+  }
+
+  return redundant;
+}
+
+/** Whether an index column serves every lookup another index column serves */
+function coversPart(part: Index, covered: Index): boolean {
+  if (part.column !== covered.column) {
+    return false;
+  }
+  // An undefined or null prefix length means the full column is indexed
+  if (part.sub_part == null) {
+    return true;
+  }
+  return covered.sub_part != null && part.sub_part >= covered.sub_part;
+}
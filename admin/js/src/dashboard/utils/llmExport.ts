@@ -0,0 +1,81 @@
+import { detectAntiPatterns } from "./antiPatterns";
+import { adviseIndexes } from "./indexAdvisor";
+import type { AnalysisResponse } from "../types";
+
+const SEPARATOR = "=".repeat(80);
+const FOOTER = `${SEPARATOR}\nEND OF MULTI-QUERY REPORT`;
+
+/**
+ * Build the text copied to LLM chats.
+ *
+ * The server formats the plans and schema; findings and index recommendations
+ * computed in the dashboard are added as extra sections right before the footer.
+ */
+export function buildLlmExport(response: AnalysisResponse): string {
+  const output = response.complete_output ?? "";
+  const section = formatFindingsSection(response) + formatIndexSection(response);
+
+  if (!section) {
+    return output;
+  }
+
+  const footerIndex = output.lastIndexOf(FOOTER);
+  if (footerIndex === -1) {
+    return `${output}\n${section}`;
+  }
+
+  return output.slice(0, footerIndex) + section + output.slice(footerIndex);
+}
+
+function formatFindingsSection(response: AnalysisResponse): string {
+  let section = "";
+
+  (response.queries ?? []).forEach((query, index) => {
+    const findings = detectAntiPatterns(query);
+    if (findings.length === 0) {
+      return;
+    }
+
+    section += `Query ${index + 1}: ${query.label}\n`;
+    for (const finding of findings) {
+      section += `  [${finding.severity.toUpperCase()}] ${finding.message}\n`;
+      if (finding.node) {
+        section += `    at: ${finding.node.operation}\n`;
+      }
+    }
+    section += "\n";
+  });
+
+  if (!section) {
+    return "";
+  }
+
+  return `${SEPARATOR}\nAUTOMATED FINDINGS\n${SEPARATOR}\n${section}`;
+}
+
+function formatIndexSection(response: AnalysisResponse): string {
+  let section = "";
+
+  (response.queries ?? []).forEach((query, index) => {
+    const { recommendations, redundant } = adviseIndexes(query);
+    if (recommendations.length === 0 && redundant.length === 0) {
+      return;
+    }
+
+    section += `Query ${index + 1}: ${query.label}\n`;
+    for (const recommendation of recommendations) {
+      section += `  ${recommendation.statement}\n`;
+      section += `    reason: ${recommendation.reason}\n`;
+    }
+    for (const entry of redundant) {
+      section += `  Redundant index: ${entry.table}.${entry.index} (prefix of ${entry.coveredBy})\n`;
+    }
+    section += "\n";
+  });
+
+  if (!section) {
+    return "";
+  }
+
+  return `${SEPARATOR}\nINDEX RECOMMENDATIONS\n${SEPARATOR}\n${section}`;
+}
@@ -0,0 +1,214 @@
+/** An access path the optimizer weighed for a table, with its estimate and verdict */
+export interface TraceAccessPath {
+  table: string;
+  /** "join" for the paths of the join planner, "range" for those of the range analysis */
+  source: "join" | "range";
+  /** e.g. ref, range or scan; null for range alternatives, which are all range scans */
+  accessType: string | null;
+  index: string | null;
+  rows: number | null;
+  cost: number | null;
+  /** Null when the trace does not say, e.g. for a table scan baseline */
+  chosen: boolean | null;
+  /** Why the path was rejected, e.g. "cost" or "not_applicable" */
+  cause: string | null;
+  /** Tables already joined when the join planner considered the path */
+  planPrefix: string[];
+}
+
+export interface TraceSummary {
+  accessPaths: TraceAccessPath[];
+  /** Tables in the final join order */
+  joinOrder: string[];
+}
+
+type TraceObject = Record<string, unknown>;
+
+/**
+ * Parse the TRACE column of INFORMATION_SCHEMA.OPTIMIZER_TRACE, or null when
+ * it is not valid JSON, e.g. because the trace was cut off by its memory limit.
+ */
+export function parseOptimizerTrace(raw: string | null): unknown {
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Collect the access paths the optimizer considered and the final join order
+ * from a trace.
+ *
+ * The join planner lists its candidates under best_access_path for every plan
+ * prefix it explores; the range analysis lists range_scan_alternatives and the
+ * potential_range_indexes it ruled out. MySQL reports the final order in
+ * refine_plan, MariaDB in best_join_order.
+ */
+export function summarizeOptimizerTrace(trace: unknown): TraceSummary {
+  const accessPaths: TraceAccessPath[] = [];
+  let joinOrder: string[] = [];
+
+  const walk = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(walk);
+      return;
+    }
+    if (!isObject(node)) {
+      return;
+    }
+
+    const table = typeof node.table === "string" ? unquote(node.table) : null;
+
+    if (table && isObject(node.best_access_path)) {
+      const planPrefix = Array.isArray(node.plan_prefix)
+        ? node.plan_prefix.map(String).map(unquote)
+        : [];
+      for (const path of asObjects(node.best_access_path.considered_access_paths)) {
+        const rangeDetails = isObject(path.range_details) ? path.range_details : {};
+        accessPaths.push({
+          table,
+          source: "join",
+          accessType: asString(path.access_type),
+          index: asString(path.index) ?? asString(rangeDetails.used_index),
+          rows: asNumber(path.rows_to_scan ?? path.rows),
+          cost: asNumber(path.cost),
+          chosen: typeof path.chosen === "boolean" ? path.chosen : null,
+          cause: asString(path.cause),
+          planPrefix,
+        });
+      }
+    }
+
+    if (table && isObject(node.range_analysis)) {
+      accessPaths.push(...getRangeAccessPaths(table, node.range_analysis));
+    }
+
+    if (Array.isArray(node.refine_plan)) {
+      joinOrder = asObjects(node.refine_plan)
+        .map((step) => (typeof step.table === "string" ? unquote(step.table) : null))
+        .filter((name): name is string => name !== null);
+    } else if (Array.isArray(node.best_join_order) && joinOrder.length === 0) {
+      joinOrder = node.best_join_order.map(String).map(unquote);
+    }
+
+    Object.values(node).forEach(walk);
+  };
+
+  walk(trace);
+
+  return { accessPaths, joinOrder };
+}
+
+/**
+ * Find the nodes of a trace whose key or value contains the search text, case
+ * insensitive. Paths join the keys and array positions from the root with "/";
+ * the root itself is "".
+ */
+export function findTracePaths(
+  trace: unknown,
+  search: string,
+): { matches: Set<string>; ancestors: Set<string> } {
+  const matches = new Set<string>();
+  const ancestors = new Set<string>();
+  const needle = search.trim().toLowerCase();
+
+  if (!needle) {
+    return { matches, ancestors };
+  }
+
+  const walk = (node: unknown, key: string, path: string, parents: string[]) => {
+    const isBranch = typeof node === "object" && node !== null;
+    const text = isBranch ? key : `${key} ${String(node)}`;
+
+    if (text.toLowerCase().includes(needle)) {
+      matches.add(path);
+      parents.forEach((parent) => ancestors.add(parent));
+    }
+
+    if (isBranch) {
+      for (const [childKey, child] of Object.entries(node)) {
+        walk(child, childKey, `${path}/${childKey}`, [...parents, path]);
+      }
+    }
+  };
+
+  walk(trace, "", "", []);
+
+  return { matches, ancestors };
+}
+
+function getRangeAccessPaths(table: string, analysis: TraceObject): TraceAccessPath[] {
+  const paths: TraceAccessPath[] = [];
+  const base = { table, source: "range" as const, planPrefix: [] };
+
+  if (isObject(analysis.table_scan)) {
+    paths.push({
+      ...base,
+      accessType: "scan",
+      index: null,
+      rows: asNumber(analysis.table_scan.rows),
+      cost: asNumber(analysis.table_scan.cost),
+      chosen: null,
+      cause: null,
+    });
+  }
+
+  // Indexes ruled out before costing, e.g. because no condition uses them
+  for (const index of asObjects(analysis.potential_range_indexes)) {
+    if (index.usable === false) {
+      paths.push({
+        ...base,
+        accessType: null,
+        index: asString(index.index),
+        rows: null,
+        cost: null,
+        chosen: false,
+        cause: asString(index.cause),
+      });
+    }
+  }
+
+  const alternatives = isObject(analysis.analyzing_range_alternatives)
+    ? analysis.analyzing_range_alternatives.range_scan_alternatives
+    : null;
+  for (const alternative of asObjects(alternatives)) {
+    paths.push({
+      ...base,
+      accessType: null,
+      index: asString(alternative.index),
+      rows: asNumber(alternative.rows),
+      cost: asNumber(alternative.cost),
+      chosen: typeof alternative.chosen === "boolean" ? alternative.chosen : null,
+      cause: asString(alternative.cause),
+    });
+  }
+
+  return paths;
+}
+
+function isObject(value: unknown): value is TraceObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asObjects(value: unknown): TraceObject[] {
+  return Array.isArray(value) ? value.filter(isObject) : [];
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function asNumber(value: unknown): number | null {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : null;
+}
+
+// Table names are quoted with backticks and may carry the database name
+function unquote(name: string): string {
+  return name.replace(/`/g, "");
+}
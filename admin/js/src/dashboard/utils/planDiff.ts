@@ -0,0 +1,146 @@
+import type { ExplainNode } from "../types";
+
+export type PlanDiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+export type PlanDiffChange = "access" | "index" | "condition";
+
+export interface PlanDiffNode {
+  status: PlanDiffStatus;
+  before: ExplainNode | null;
+  after: ExplainNode | null;
+  changes: PlanDiffChange[];
+  costDelta: number | null;
+  rowsDelta: number | null;
+  children: PlanDiffNode[];
+}
+
+/**
+ * Get the access type of a node, e.g. "Index range scan" for
+ * "Index range scan on p using type_status_date over (...)".
+ */
+export function getAccessType(node: ExplainNode): string {
+  return node.operation.split(/\s+on\s+|:|\s+\(/)[0].trim();
+}
+
+/**
+ * Key used to align nodes of two plans. Table accesses are aligned by table
+ * so that a table scan turning into an index scan shows up as a change.
+ */
+function getAlignmentKey(node: ExplainNode): string {
+  return node.table !== null ? `table:${node.table}` : `op:${getAccessType(node)}`;
+}
+
+/**
+ * Align two parsed plans and report which nodes were added, removed or changed.
+ */
+export function diffPlans(before: ExplainNode[], after: ExplainNode[]): PlanDiffNode[] {
+  const pairs = alignSiblings(before, after);
+
+  return pairs.map(([beforeNode, afterNode]) => {
+    if (beforeNode && afterNode) {
+      return diffNodes(beforeNode, afterNode);
+    }
+    return wrapUnmatched(beforeNode ? "removed" : "added", (beforeNode ?? afterNode) as ExplainNode);
+  });
+}
+
+/**
+ * Count diff nodes by status, for a one-line summary.
+ */
+export function countDiffStatuses(nodes: PlanDiffNode[]): Record<PlanDiffStatus, number> {
+  const counts: Record<PlanDiffStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+
+  const traverse = (nodeList: PlanDiffNode[]) => {
+    for (const node of nodeList) {
+      counts[node.status]++;
+      traverse(node.children);
+    }
+  };
+
+  traverse(nodes);
+  return counts;
+}
+
+function diffNodes(before: ExplainNode, after: ExplainNode): PlanDiffNode {
+  const changes: PlanDiffChange[] = [];
+  if (getAccessType(before) !== getAccessType(after)) {
+    changes.push("access");
+  }
+  if (before.index !== after.index) {
+    changes.push("index");
+  }
+  if (before.condition !== after.condition) {
+    changes.push("condition");
+  }
+
+  return {
+    status: changes.length > 0 ? "changed" : "unchanged",
+    before,
+    after,
+    changes,
+    costDelta: before.cost !== null && after.cost !== null ? after.cost - before.cost : null,
+    rowsDelta:
+      before.estimated_rows !== null && after.estimated_rows !== null
+        ? after.estimated_rows - before.estimated_rows
+        : null,
+    children: diffPlans(before.children, after.children),
+  };
+}
+
+function wrapUnmatched(status: "added" | "removed", node: ExplainNode): PlanDiffNode {
+  return {
+    status,
+    before: status === "removed" ? node : null,
+    after: status === "added" ? node : null,
+    changes: [],
+    costDelta: null,
+    rowsDelta: null,
+    children: node.children.map((child) => wrapUnmatched(status, child)),
+  };
+}
+
+/**
+ * Pair siblings using the longest common subsequence of their alignment keys.
+ * Unpaired nodes are returned with a null partner, in plan order.
+ */
+function alignSiblings(
+  before: ExplainNode[],
+  after: ExplainNode[],
+): Array<[ExplainNode | null, ExplainNode | null]> {
+  const beforeKeys = before.map(getAlignmentKey);
+  const afterKeys = after.map(getAlignmentKey);
+
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths: number[][] = Array.from({ length: before.length + 1 }, () =>
+    Array.from({ length: after.length + 1 }, () => 0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        beforeKeys[i] === afterKeys[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[ExplainNode | null, ExplainNode | null]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (beforeKeys[i] === afterKeys[j]) {
+      pairs.push([before[i++], after[j++]]);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pairs.push([before[i++], null]);
+    } else {
+      pairs.push([null, after[j++]]);
+    }
+  }
+  while (i < before.length) {
+    pairs.push([before[i++], null]);
+  }
+  while (j < after.length) {
+    pairs.push([null, after[j++]]);
+  }
+
+  return pairs;
+}
@@ -0,0 +1,29 @@
+import type { TrackedSample } from "../types";
+
+export interface PlanChange {
+  /** Index of the first sample with the new plan */
+  index: number;
+  before: TrackedSample;
+  after: TrackedSample;
+}
+
+/**
+ * Find the samples where the plan shape differs from the previous successful
+ * sample. Samples that failed to explain are skipped rather than reported.
+ */
+export function findPlanChanges(samples: TrackedSample[]): PlanChange[] {
+  const changes: PlanChange[] = [];
+  let previous: TrackedSample | null = null;
+
+  samples.forEach((sample, index) => {
+    if (sample.error || !sample.shape_hash) {
+      return;
+    }
+    if (previous && previous.shape_hash !== sample.shape_hash) {
+      changes.push({ index, before: previous, after: sample });
+    }
+    previous = sample;
+  });
+
+  return changes;
+}
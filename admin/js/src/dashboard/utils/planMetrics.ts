@@ -0,0 +1,110 @@
+import type { ExplainNode } from "../types";
+
+export interface ExclusiveMetrics {
+  /**
+   * Node cost minus the cost of its direct children, over all the estimated
+   * executions of the node; null when the number of executions is unknown
+   */
+  cost: number | null;
+  /** Estimated executions of the node: above 1 on the inner side of a nested loop */
+  loops: number | null;
+  /** Total actual time (ms, all loops) minus the total time of its direct children */
+  time: number | null;
+}
+
+export interface HotNode {
+  node: ExplainNode;
+  metrics: ExclusiveMetrics;
+  /** Exclusive time or cost, whichever the nodes are ranked by */
+  value: number;
+}
+
+export interface HotNodeRanking {
+  nodes: HotNode[];
+  /** "time" when ANALYZE data exists, "cost" otherwise */
+  metric: "time" | "cost";
+}
+
+/**
+ * Compute the exclusive ("self") cost and time of every node in the plan.
+ *
+ * MySQL reports cumulative values, so a parent always includes the work of
+ * its children. Negative results caused by rounding are clamped to zero.
+ *
+ * The inner side of a nested loop runs once per row of the outer side, but its
+ * cost is reported for a single run while the join's cost covers all of them.
+ * Inner costs are therefore multiplied by the estimated rows of the outer side,
+ * the way actual times are multiplied by their loops.
+ */
+export function computeExclusiveMetrics(nodes: ExplainNode[]): Map<ExplainNode, ExclusiveMetrics> {
+  const metrics = new Map<ExplainNode, ExclusiveMetrics>();
+
+  const traverse = (nodeList: ExplainNode[], loops: number | null) => {
+    for (const node of nodeList) {
+      const childLoops = getChildLoops(node, loops);
+      const childCost = node.children.reduce<number | null>((sum, child, i) => {
+        const cost = scaleCost(child.cost, childLoops[i]);
+        return sum !== null && (cost !== null || child.cost === null) ? sum + (cost ?? 0) : null;
+      }, 0);
+      const childTime = node.children.reduce(
+        (sum, child) => sum + (child.actual_time?.total ?? 0),
+        0,
+      );
+      const cost = scaleCost(node.cost, loops);
+
+      metrics.set(node, {
+        cost: cost !== null && childCost !== null ? Math.max(cost - childCost, 0) : null,
+        loops,
+        time: node.actual_time !== null ? Math.max(node.actual_time.total - childTime, 0) : null,
+      });
+
+      node.children.forEach((child, i) => traverse([child], childLoops[i]));
+    }
+  };
+
+  traverse(nodes, 1);
+  return metrics;
+}
+
+/**
+ * List the nodes doing the most work on their own, sorted by exclusive time
+ * when ANALYZE data exists and by exclusive cost otherwise.
+ */
+export function getHottestNodes(
+  metrics: Map<ExplainNode, ExclusiveMetrics>,
+  limit: number = 5,
+): HotNodeRanking {
+  const hasTime = [...metrics.values()].some((nodeMetrics) => nodeMetrics.time !== null);
+  const metric = hasTime ? "time" : "cost";
+
+  const nodes = [...metrics.entries()]
+    .map(([node, nodeMetrics]) => ({
+      node,
+      metrics: nodeMetrics,
+      value: (hasTime ? nodeMetrics.time : nodeMetrics.cost) ?? 0,
+    }))
+    .filter((entry) => entry.value > 0)
+    .sort((a, b) => b.value - a.value)
+    .slice(0, limit);
+
+  return { nodes, metric };
+}
+
+/**
+ * Estimated executions of each child of a node. The first child of a nested
+ * loop is its outer side; every later child runs once per outer row.
+ */
+function getChildLoops(node: ExplainNode, loops: number | null): (number | null)[] {
+  if (!/^Nested loop\b/i.test(node.operation)) {
+    return node.children.map(() => loops);
+  }
+
+  const outerRows = node.children[0]?.estimated_rows ?? null;
+  const innerLoops = loops !== null && outerRows !== null ? loops * outerRows : null;
+
+  return node.children.map((_, i) => (i === 0 ? loops : innerLoops));
+}
+
+function scaleCost(cost: number | null, loops: number | null): number | null {
+  return cost !== null && loops !== null ? cost * loops : null;
+}
@@ -0,0 +1,553 @@
+import { parseSql } from "./sqlParser";
+import type {
+  SqlExpression,
+  SqlOrderItem,
+  SqlSelect,
+  SqlStatement,
+  SqlTableSource,
+} from "./sqlParser";
+import type {
+  ColumnReference,
+  ColumnUsage,
+  ParsedColumnReference,
+  QueryReferences,
+  Table,
+} from "../types";
+
+/**
+ * What a name in a FROM clause stands for. A CTE that selects plain columns of
+ * one table passes them through, so its columns resolve to that table; other
+ * CTE columns and the columns of derived tables cannot be indexed directly.
+ */
+type Relation =
+  | { kind: "table"; table: string }
+  | {
+      kind: "cte";
+      /** Real table behind each output column, by lowercase column name */
+      columns: Map<string, string>;
+      /** Table whose columns all pass through, for SELECT * */
+      allColumnsOf: string | null;
+    }
+  | { kind: "derived" };
+
+/** Names visible in one query block */
+interface Scope {
+  parent: Scope | null;
+  sources: Map<string, Relation>;
+  ctes: Map<string, Relation>;
+  /** Select list aliases, which ORDER BY and GROUP BY may refer to */
+  selectAliases: Set<string>;
+}
+
+const RANGE_OPERATORS = new Set(["<", "<=", ">", ">="]);
+
+/**
+ * Parse a query and list the tables, aliases and columns it references.
+ *
+ * Returns null when the query cannot be parsed, so callers can fall back to
+ * letting the server work out the tables.
+ */
+export function analyzeQueryReferences(query: string): QueryReferences | null {
+  let statement: SqlStatement;
+  try {
+    statement = parseSql(query);
+  } catch {
+    return null;
+  }
+
+  return new ReferenceCollector().collect(statement);
+}
+
+/**
+ * Find the columns a query filters, joins, sorts and groups on.
+ *
+ * Columns are resolved to real table names through the aliases in the parsed
+ * query, or through the table metadata when they are not qualified.
+ */
+export function extractColumnReferences(query: string, tables: Table[]): ColumnReference[] {
+  const parsed = analyzeQueryReferences(query);
+  if (!parsed) {
+    return [];
+  }
+
+  const references: ColumnReference[] = [];
+  const seen = new Set<string>();
+
+  for (const ref of parsed.columns) {
+    const table = ref.table ?? resolveByMetadata(ref.column, tables);
+    const key = `${table}.${ref.column}.${ref.usage}`;
+    if (table && !seen.has(key)) {
+      seen.add(key);
+      references.push({ table, column: ref.column, usage: ref.usage });
+    }
+  }
+
+  return references;
+}
+
+function resolveByMetadata(column: string, tables: Table[]): string | null {
+  const lower = column.toLowerCase();
+  const owners = tables.filter((table) =>
+    table.columns.some((c) => c.name.toLowerCase() === lower),
+  );
+  return owners.length === 1 ? owners[0].name : null;
+}
+
+class ReferenceCollector {
+  private tables: string[] = [];
+  private aliases: Record<string, string> = {};
+  private columns: ParsedColumnReference[] = [];
+  private seen = new Set<string>();
+
+  collect(statement: SqlStatement): QueryReferences {
+    this.walkStatement(statement, null);
+    return { tables: this.tables, aliases: this.aliases, columns: this.columns };
+  }
+
+  private createScope(parent: Scope | null): Scope {
+    return { parent, sources: new Map(), ctes: new Map(), selectAliases: new Set() };
+  }
+
+  private walkStatement(statement: SqlStatement, parent: Scope | null): void {
+    // CTEs are visible to the statement body and to the CTEs defined after them
+    const cteScope = this.createScope(parent);
+    for (const cte of statement.with) {
+      this.walkStatement(cte.query, cteScope);
+      cteScope.ctes.set(cte.name.toLowerCase(), this.getCteRelation(cte.query, cteScope));
+    }
+
+    const scope = this.createScope(cteScope);
+
+    switch (statement.kind) {
+      case "select":
+        this.walkSelect(statement, scope, cteScope);
+        break;
+
+      case "insert":
+        this.addSources([statement.table], scope, cteScope);
+        for (const column of statement.columns) {
+          this.addColumn({ table: null, column }, scope, "other");
+        }
+        for (const row of statement.values) {
+          row.forEach((value) => this.walkExpression(value, scope, "other"));
+        }
+        if (statement.select) {
+          this.walkStatement(statement.select, cteScope);
+        }
+        for (const assignment of [...statement.set, ...statement.onDuplicate]) {
+          this.walkExpression(assignment.column, scope, "other");
+          this.walkExpression(assignment.value, scope, "other");
+        }
+        break;
+
+      case "update":
+        this.addSources(statement.tables, scope, cteScope);
+        for (const assignment of statement.set) {
+          this.walkExpression(assignment.column, scope, "other");
+          this.walkExpression(assignment.value, scope, "other");
+        }
+        this.walkPredicate(statement.where, scope);
+        this.walkOrderBy(statement.orderBy, scope);
+        break;
+
+      case "delete":
+        this.addSources(statement.from, scope, cteScope);
+        this.walkPredicate(statement.where, scope);
+        this.walkOrderBy(statement.orderBy, scope);
+        break;
+    }
+  }
+
+  private walkSelect(select: SqlSelect, scope: Scope, cteScope: Scope): void {
+    this.addSources(select.from, scope, cteScope);
+
+    for (const item of select.columns) {
+      this.walkExpression(item.expr, scope, "select");
+      if (item.alias) {
+        scope.selectAliases.add(item.alias.toLowerCase());
+      }
+    }
+
+    this.walkPredicate(select.where, scope);
+    for (const expr of select.groupBy) {
+      this.walkListItem(expr, scope, "group");
+    }
+    this.walkPredicate(select.having, scope);
+    this.walkOrderBy(select.orderBy, scope);
+
+    // UNION members are separate query blocks sharing only the CTEs
+    for (const member of select.compound) {
+      this.walkStatement(member, cteScope);
+    }
+  }
+
+  private walkOrderBy(items: SqlOrderItem[], scope: Scope): void {
+    for (const item of items) {
+      this.walkListItem(item.expr, scope, "sort");
+    }
+  }
+
+  /** ORDER BY and GROUP BY items are sort/group columns only when they are plain columns */
+  private walkListItem(expr: SqlExpression, scope: Scope, usage: ColumnUsage): void {
+    if (expr.kind === "column") {
+      if (expr.table || !scope.selectAliases.has(expr.column.toLowerCase())) {
+        this.addColumn(expr, scope, usage);
+      }
+    } else {
+      this.walkExpression(expr, scope, "other");
+    }
+  }
+
+  private addSources(sources: SqlTableSource[], scope: Scope, cteScope: Scope): void {
+    for (const source of sources) {
+      this.addSource(source, scope, cteScope);
+    }
+  }
+
+  private addSource(source: SqlTableSource, scope: Scope, cteScope: Scope): void {
+    switch (source.kind) {
+      case "table": {
+        const relation: Relation = (source.schema ? null : this.findCte(source.name, scope)) ?? {
+          kind: "table",
+          table: getQualifiedName(source),
+        };
+
+        scope.sources.set((source.alias ?? source.name).toLowerCase(), relation);
+        if (relation.kind === "table") {
+          const { table } = relation;
+          if (!this.tables.some((name) => name.toLowerCase() === table.toLowerCase())) {
+            this.tables.push(table);
+          }
+          if (source.alias) {
+            this.aliases[source.alias] = table;
+          }
+        }
+        break;
+      }
+
+      case "derived":
+        this.walkStatement(source.query, cteScope);
+        if (source.alias) {
+          scope.sources.set(source.alias.toLowerCase(), { kind: "derived" });
+        }
+        break;
+
+      case "join":
+        this.addSource(source.left, scope, cteScope);
+        this.addSource(source.right, scope, cteScope);
+        this.walkPredicate(source.on, scope);
+        for (const column of source.using) {
+          for (const side of [source.left, source.right]) {
+            const table = getJoinedTable(side);
+            if (table) {
+              this.addColumn({ table, column }, scope, "join");
+            }
+          }
+        }
+        break;
+    }
+  }
+
+  private findCte(name: string, scope: Scope | null): Relation | null {
+    for (let current = scope; current; current = current.parent) {
+      const cte = current.ctes.get(name.toLowerCase());
+      if (cte) {
+        return cte;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Map the output columns of a CTE to the table they come from, when the CTE
+   * is a single query block reading one table or CTE.
+   */
+  private getCteRelation(query: SqlStatement, scope: Scope): Relation {
+    const relation: Relation = { kind: "cte", columns: new Map(), allColumnsOf: null };
+    if (
+      query.kind !== "select" ||
+      query.compound.length > 0 ||
+      query.from.length !== 1 ||
+      query.from[0].kind !== "table"
+    ) {
+      return relation;
+    }
+
+    const source = query.from[0];
+    const inner: Relation = (source.schema ? null : this.findCte(source.name, scope)) ?? {
+      kind: "table",
+      table: getQualifiedName(source),
+    };
+    const sourceName = (source.alias ?? source.name).toLowerCase();
+
+    for (const item of query.columns) {
+      const { expr } = item;
+      if (expr.kind === "star" && (!expr.table || expr.table.toLowerCase() === sourceName)) {
+        relation.allColumnsOf = resolveRelationColumn(inner, "*") ?? null;
+      } else if (
+        expr.kind === "column" &&
+        (!expr.table || expr.table.toLowerCase() === sourceName)
+      ) {
+        const table = resolveRelationColumn(inner, expr.column);
+        if (table) {
+          relation.columns.set((item.alias ?? expr.column).toLowerCase(), table);
+        }
+      }
+    }
+
+    return relation;
+  }
+
+  /**
+   * Classify the columns of a WHERE, ON or HAVING condition by how an index
+   * could serve them.
+   */
+  private walkPredicate(expr: SqlExpression | null, scope: Scope): void {
+    if (!expr) {
+      return;
+    }
+
+    switch (expr.kind) {
+      case "binary":
+        if (["AND", "OR", "XOR"].includes(expr.operator)) {
+          this.walkPredicate(expr.left, scope);
+          this.walkPredicate(expr.right, scope);
+          return;
+        }
+
+        if (
+          expr.operator === "=" ||
+          expr.operator === "<=>" ||
+          RANGE_OPERATORS.has(expr.operator)
+        ) {
+          const equality = !RANGE_OPERATORS.has(expr.operator);
+          if (expr.left.kind === "column" && expr.right.kind === "column") {
+            const usage = equality ? "join" : "range";
+            this.addColumn(expr.left, scope, usage);
+            this.addColumn(expr.right, scope, usage);
+            return;
+          }
+          if (
+            this.walkComparedColumn(expr.left, expr.right, scope, equality ? "filter" : "range")
+          ) {
+            return;
+          }
+          if (
+            this.walkComparedColumn(expr.right, expr.left, scope, equality ? "filter" : "range")
+          ) {
+            return;
+          }
+        }
+
+        if (
+          expr.operator === "LIKE" &&
+          expr.left.kind === "column" &&
+          isPrefixPattern(expr.right)
+        ) {
+          this.addColumn(expr.left, scope, "range");
+          return;
+        }
+        break;
+
+      case "unary":
+        if (expr.operator === "NOT") {
+          this.walkPredicate(expr.operand, scope);
+          return;
+        }
+        break;
+
+      case "between":
+        if (expr.operand.kind === "column" && !expr.not) {
+          this.addColumn(expr.operand, scope, "range");
+          this.walkExpression(expr.low, scope, "other");
+          this.walkExpression(expr.high, scope, "other");
+          return;
+        }
+        break;
+
+      case "in":
+        if (expr.operand.kind === "column" && !expr.not) {
+          this.addColumn(expr.operand, scope, "filter");
+          this.walkInValues(expr.values, scope);
+          return;
+        }
+        break;
+
+      case "is":
+        if (expr.operand.kind === "column" && expr.value === "NULL") {
+          this.addColumn(expr.operand, scope, expr.not ? "range" : "filter");
+          return;
+        }
+        break;
+    }
+
+    this.walkExpression(expr, scope, "other");
+  }
+
+  /** A column compared with a constant; returns false when the other side is not constant */
+  private walkComparedColumn(
+    column: SqlExpression,
+    other: SqlExpression,
+    scope: Scope,
+    usage: ColumnUsage,
+  ): boolean {
+    if (column.kind !== "column" || !isConstant(other)) {
+      return false;
+    }
+    this.addColumn(column, scope, usage);
+    this.walkExpression(other, scope, "other");
+    return true;
+  }
+
+  private walkInValues(values: SqlExpression[] | SqlStatement, scope: Scope): void {
+    if (Array.isArray(values)) {
+      values.forEach((value) => this.walkExpression(value, scope, "other"));
+    } else {
+      this.walkStatement(values, scope);
+    }
+  }
+
+  private walkExpression(expr: SqlExpression, scope: Scope, usage: ColumnUsage): void {
+    switch (expr.kind) {
+      case "column":
+        this.addColumn(expr, scope, usage);
+        break;
+      case "binary":
+        this.walkExpression(expr.left, scope, usage);
+        this.walkExpression(expr.right, scope, usage);
+        break;
+      case "unary":
+        this.walkExpression(expr.operand, scope, usage);
+        break;
+      case "between":
+        [expr.operand, expr.low, expr.high].forEach((e) => this.walkExpression(e, scope, usage));
+        break;
+      case "in":
+        this.walkExpression(expr.operand, scope, usage);
+        this.walkInValues(expr.values, scope);
+        break;
+      case "is":
+        this.walkExpression(expr.operand, scope, usage);
+        break;
+      case "function":
+        expr.args.forEach((arg) => this.walkExpression(arg, scope, usage));
+        break;
+      case "case":
+        [...(expr.operand ? [expr.operand] : []), ...expr.branches].forEach((e) =>
+          this.walkExpression(e, scope, usage),
+        );
+        break;
+      case "list":
+        expr.items.forEach((item) => this.walkExpression(item, scope, usage));
+        break;
+      case "subquery":
+      case "exists":
+        this.walkStatement(expr.query, scope);
+        break;
+    }
+  }
+
+  private addColumn(
+    expr: { table: string | null; column: string },
+    scope: Scope,
+    usage: ColumnUsage,
+  ): void {
+    const resolved = this.resolveColumn(expr.table, expr.column, scope);
+    if (resolved === undefined) {
+      return;
+    }
+
+    const key = `${resolved?.toLowerCase()}.${expr.column.toLowerCase()}.${usage}`;
+    if (!this.seen.has(key)) {
+      this.seen.add(key);
+      this.columns.push({ table: resolved, column: expr.column, usage });
+    }
+  }
+
+  /**
+   * The real table a column belongs to. Returns null when an unqualified column
+   * could come from several tables, and undefined when it is computed by a CTE
+   * or belongs to a derived table, or the qualifier is unknown.
+   */
+  private resolveColumn(
+    qualifier: string | null,
+    column: string,
+    scope: Scope,
+  ): string | null | undefined {
+    if (qualifier) {
+      for (let current: Scope | null = scope; current; current = current.parent) {
+        const source = current.sources.get(qualifier.toLowerCase());
+        if (source !== undefined) {
+          return resolveRelationColumn(source, column);
+        }
+      }
+      return undefined;
+    }
+
+    // Unqualified columns belong to the innermost block that has a FROM clause
+    for (let current: Scope | null = scope; current; current = current.parent) {
+      if (current.sources.size > 0) {
+        const sources = [...current.sources.values()];
+        if (sources.length === 1) {
+          return resolveRelationColumn(sources[0], column);
+        }
+        return null;
+      }
+    }
+    return undefined;
+  }
+}
+
+/** The table a column of a relation comes from; "*" asks for the table behind every column */
+function resolveRelationColumn(relation: Relation, column: string): string | undefined {
+  switch (relation.kind) {
+    case "table":
+      return relation.table;
+    case "cte":
+      return (
+        (column === "*" ? undefined : relation.columns.get(column.toLowerCase())) ??
+        relation.allColumnsOf ??
+        undefined
+      );
+    case "derived":
+      return undefined;
+  }
+}
+
+/** Table name with its schema, when the query names one */
+function getQualifiedName(source: { schema: string | null; name: string }): string {
+  return source.schema ? `${source.schema}.${source.name}` : source.name;
+}
+
+/** The table on one side of a join, when that side is a single table */
+function getJoinedTable(source: SqlTableSource): string | null {
+  if (source.kind === "table") {
+    return source.alias ?? source.name;
+  }
+  return source.kind === "join" ? getJoinedTable(source.right) : null;
+}
+
+/** Literals, placeholders and expressions built only from them */
+function isConstant(expr: SqlExpression): boolean {
+  switch (expr.kind) {
+    case "literal":
+    case "placeholder":
+    case "variable":
+      return true;
+    case "unary":
+      return isConstant(expr.operand);
+    case "binary":
+      return isConstant(expr.left) && isConstant(expr.right);
+    case "function":
+      return expr.args.every(isConstant);
+    case "list":
+      return expr.items.every(isConstant);
+    default:
+      return false;
+  }
+}
+
+/** LIKE 'abc%' can use an index range; LIKE '%abc' cannot */
+function isPrefixPattern(expr: SqlExpression): boolean {
+  return expr.kind === "literal" && expr.literalType === "string" && !/^[%_]/.test(expr.value);
+}
@@ -0,0 +1,171 @@
+import { __, sprintf } from "@wordpress/i18n";
+import { tokenizeSql } from "./sqlParser";
+import type { SqlToken } from "./sqlParser";
+import type { ParamSet, QueryBinding, QueryInput } from "../types";
+
+export type PlaceholderType = "s" | "d" | "f" | "i" | "?";
+
+export interface Placeholder {
+  type: PlaceholderType;
+  /** Offsets of the placeholder in the template, including quotes around '%s' */
+  start: number;
+  end: number;
+}
+
+/** A query as sent to the analyze endpoint */
+export interface AnalyzeInput {
+  id: string;
+  label: string;
+  query: string;
+  binding?: QueryBinding;
+}
+
+const QUOTED_PLACEHOLDER = /^%[sdfFi]$/;
+
+/**
+ * Find the $wpdb->prepare() (%s, %d, %f, %i) and prepared statement (?)
+ * placeholders of a query template, in order. Placeholders inside other string
+ * literals are not counted, except a quoted '%s', which $wpdb->prepare() unquotes.
+ */
+export function findPlaceholders(template: string): Placeholder[] {
+  let tokens: SqlToken[];
+  try {
+    tokens = tokenizeSql(template);
+  } catch {
+    return [];
+  }
+
+  return tokens.flatMap((token): Placeholder[] => {
+    if (token.type === "placeholder") {
+      return [{ type: getPlaceholderType(token.value), start: token.start, end: token.end }];
+    }
+    if (token.type === "string" && QUOTED_PLACEHOLDER.test(token.value)) {
+      return [{ type: getPlaceholderType(token.value), start: token.start, end: token.end }];
+    }
+    return [];
+  });
+}
+
+function getPlaceholderType(value: string): PlaceholderType {
+  if (value === "?") {
+    return "?";
+  }
+  const type = value.slice(1).toLowerCase();
+  return type === "d" || type === "f" || type === "i" ? type : "s";
+}
+
+/**
+ * Replace the placeholders of a template with values, the way $wpdb->prepare()
+ * does: %d and %f are cast to numbers, %s is quoted and escaped, %i is quoted
+ * as an identifier. "?" takes numbers as they are and quotes anything else.
+ * Missing values bind as empty strings.
+ */
+export function bindParams(template: string, values: string[]): string {
+  const placeholders = findPlaceholders(template);
+  // $wpdb->prepare() also turns "%%" into "%", e.g. in LIKE '%%term%%'
+  const isPrepareTemplate = placeholders.some((placeholder) => placeholder.type !== "?");
+  const literal = (text: string) => (isPrepareTemplate ? text.replace(/%%/g, "%") : text);
+
+  let query = "";
+  let position = 0;
+
+  placeholders.forEach((placeholder, i) => {
+    query += literal(template.slice(position, placeholder.start));
+    query += formatValue(placeholder.type, values[i] ?? "");
+    position = placeholder.end;
+  });
+
+  return query + literal(template.slice(position));
+}
+
+function formatValue(type: PlaceholderType, value: string): string {
+  switch (type) {
+    case "d":
+      return String(parseInt(value, 10) || 0);
+    case "f":
+      return String(parseFloat(value) || 0);
+    case "i":
+      return `\`${value.replace(/`/g, "``")}\``;
+    case "?":
+      if (/^-?\d+(?:\.\d+)?$/.test(value.trim())) {
+        return value.trim();
+      }
+      return quoteString(value);
+    default:
+      return quoteString(value);
+  }
+}
+
+function quoteString(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Expand a query input into one analyze input per value set. Templates without
+ * placeholders or value sets are sent as they are.
+ */
+export function expandQueryInput(input: QueryInput, label: string): AnalyzeInput[] {
+  const sets = input.params ?? [];
+  if (sets.length === 0 || findPlaceholders(input.query).length === 0) {
+    return [{ id: input.id, label, query: input.query.trim() }];
+  }
+
+  return sets.map((set, i) => {
+    const name = set.name.trim() || getDefaultSetName(i);
+    return {
+      id: `${input.id}:${set.id}`,
+      label: `${label} · ${name}`,
+      query: bindParams(input.query.trim(), set.values),
+      binding: {
+        template_id: input.id,
+        template: input.query.trim(),
+        label,
+        set: name,
+        values: set.values,
+      },
+    };
+  });
+}
+
+/**
+ * Rebuild the query inputs of a report, folding expanded value sets back into
+ * their template.
+ */
+export function collapseBindings(
+  results: { id: string; label: string; query: string; binding?: QueryBinding | null }[],
+): QueryInput[] {
+  const inputs: QueryInput[] = [];
+
+  for (const result of results) {
+    const binding = result.binding;
+    if (!binding) {
+      inputs.push({ id: result.id, label: result.label, query: result.query });
+      continue;
+    }
+
+    let input = inputs.find((q) => q.id === binding.template_id);
+    if (!input) {
+      input = {
+        id: binding.template_id,
+        label: binding.label,
+        query: binding.template,
+        params: [],
+      };
+      inputs.push(input);
+    }
+
+    const set: ParamSet = {
+      id: result.id.slice(binding.template_id.length + 1) || String(input.params?.length ?? 0),
+      name: binding.set,
+      values: binding.values,
+    };
+    input.params = [...(input.params ?? []), set];
+  }
+
+  return inputs;
+}
+
+export function getDefaultSetName(index: number): string {
+  /* translators: %d is the number of the value set */
+  return sprintf(__("Set %d", "simple-sql-query-analyzer"), index + 1);
+}
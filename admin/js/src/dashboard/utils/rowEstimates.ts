@@ -0,0 +1,99 @@
+import type { ExplainNode } from "../types";
+
+export type MisestimateSeverity = "moderate" | "severe";
+
+export interface RowEstimateComparison {
+  estimated: number;
+  actual: number;
+  ratio: number;
+  direction: "under" | "over";
+  severity: MisestimateSeverity | null;
+}
+
+const MODERATE_RATIO = 10;
+const SEVERE_RATIO = 100;
+
+/**
+ * Compare the optimizer's row estimate of a node with what EXPLAIN ANALYZE measured.
+ *
+ * Both sides are multiplied by the loop count, so nodes on the inner side of a
+ * nested loop are compared by the total number of rows they produced. When the
+ * ANALYZE line has no estimate, the matching node of the estimated plan is used.
+ */
+export function compareRowEstimate(
+  node: ExplainNode,
+  estimatedNode?: ExplainNode | null,
+): RowEstimateComparison | null {
+  const estimatedRows = node.estimated_rows ?? estimatedNode?.estimated_rows ?? null;
+
+  if (estimatedRows === null || node.actual_rows === null || !node.actual_loops) {
+    return null;
+  }
+
+  const estimated = estimatedRows * node.actual_loops;
+  const actual = node.actual_rows * node.actual_loops;
+
+  // Anything below one row is noise, not a misestimate
+  const ratio = Math.max(estimated, actual, 1) / Math.max(Math.min(estimated, actual), 1);
+
+  let severity: MisestimateSeverity | null = null;
+  if (ratio >= SEVERE_RATIO) {
+    severity = "severe";
+  } else if (ratio >= MODERATE_RATIO) {
+    severity = "moderate";
+  }
+
+  return {
+    estimated,
+    actual,
+    ratio,
+    direction: actual > estimated ? "under" : "over",
+    severity,
+  };
+}
+
+/**
+ * Pair every node of an ANALYZE plan with the node at the same position in the
+ * estimated plan. Pairing stops at the first branch where the shapes diverge.
+ */
+export function matchEstimatedNodes(
+  actualNodes: ExplainNode[],
+  estimatedNodes: ExplainNode[],
+  matches: Map<ExplainNode, ExplainNode> = new Map(),
+): Map<ExplainNode, ExplainNode> {
+  actualNodes.forEach((actualNode, index) => {
+    const estimatedNode = estimatedNodes[index];
+    if (!estimatedNode || estimatedNode.operation !== actualNode.operation) {
+      return;
+    }
+
+    matches.set(actualNode, estimatedNode);
+    matchEstimatedNodes(actualNode.children, estimatedNode.children, matches);
+  });
+
+  return matches;
+}
+
+/**
+ * Collect the row estimate comparison of every node in the plan.
+ */
+export function collectRowEstimates(
+  nodes: ExplainNode[],
+  estimatedNodes: ExplainNode[] = [],
+): Map<ExplainNode, RowEstimateComparison> {
+  const estimatedMatches = matchEstimatedNodes(nodes, estimatedNodes);
+  const comparisons = new Map<ExplainNode, RowEstimateComparison>();
+
+  const traverse = (nodeList: ExplainNode[]) => {
+    for (const node of nodeList) {
+      const comparison = compareRowEstimate(node, estimatedMatches.get(node));
+      if (comparison) {
+        comparisons.set(node, comparison);
+      }
+      traverse(node.children);
+    }
+  };
+
+  traverse(nodes);
+  return comparisons;
+}
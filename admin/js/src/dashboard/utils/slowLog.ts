@@ -0,0 +1,119 @@
+import type { StatementGroup } from "../types";
+
+export interface SlowLogEntry {
+  query: string;
+  /** Seconds */
+  queryTime: number;
+  rowsSent: number;
+  rowsExamined: number;
+}
+
+/**
+ * Parse a MySQL slow query log into its statements and their metrics.
+ *
+ * Each entry starts with "# Time:" / "# User@Host:" / "# Query_time:" header
+ * lines, optionally followed by "use db;" and "SET timestamp=...;", then the
+ * statement itself, which may span several lines.
+ */
+export function parseSlowLog(text: string): SlowLogEntry[] {
+  const entries: SlowLogEntry[] = [];
+  let metrics: Omit<SlowLogEntry, "query"> | null = null;
+  let statement: string[] = [];
+
+  const flush = () => {
+    const query = statement.join("\n").trim().replace(/;\s*$/, "");
+    if (metrics && query) {
+      entries.push({ query, ...metrics });
+    }
+    statement = [];
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.startsWith("#")) {
+      if (statement.length > 0) {
+        flush();
+        metrics = null;
+      }
+
+      const match = line.match(
+        /^# Query_time:\s*([\d.]+).*?Rows_sent:\s*(\d+).*?Rows_examined:\s*(\d+)/,
+      );
+      if (match) {
+        metrics = {
+          queryTime: Number(match[1]),
+          rowsSent: Number(match[2]),
+          rowsExamined: Number(match[3]),
+        };
+      }
+      continue;
+    }
+
+    // Server restart banners and per-entry session statements
+    if (
+      statement.length === 0 &&
+      (/^(use\s+\S+|SET\s+timestamp\s*=\s*\d+);\s*$/i.test(line) ||
+        /^(\S+, Version: |Tcp port: |Time\s+Id\s+Command)/.test(line))
+    ) {
+      continue;
+    }
+
+    if (metrics && (statement.length > 0 || line.trim())) {
+      statement.push(line);
+    }
+  }
+
+  flush();
+  return entries;
+}
+
+/**
+ * Reduce a statement to its fingerprint by replacing literal values, the same
+ * way captured $wpdb queries are grouped on the server.
+ */
+export function fingerprintQuery(query: string): string {
+  return query
+    .replace(/'(?:[^'\\]|\\.|'')*'/g, "?")
+    .replace(/"(?:[^"\\]|\\.)*"/g, "?")
+    .replace(/\b\d+(?:\.\d+)?\b/g, "?")
+    .replace(/\(\s*\?(?:\s*,\s*\?)+\s*\)/g, "(?+)")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Group slow log entries by fingerprint and return the top groups by total time.
+ * The slowest statement of each group is kept as its representative query.
+ */
+export function groupSlowLogEntries(entries: SlowLogEntry[], limit: number): StatementGroup[] {
+  const groups = new Map<string, StatementGroup>();
+
+  for (const entry of entries) {
+    const fingerprint = fingerprintQuery(entry.query);
+    const group = groups.get(fingerprint);
+
+    if (!group) {
+      groups.set(fingerprint, {
+        fingerprint,
+        query: entry.query,
+        has_sample: true,
+        count: 1,
+        total_time: entry.queryTime,
+        max_time: entry.queryTime,
+        rows_examined: entry.rowsExamined,
+        rows_sent: entry.rowsSent,
+      });
+      continue;
+    }
+
+    group.count++;
+    group.total_time += entry.queryTime;
+    group.rows_examined += entry.rowsExamined;
+    group.rows_sent += entry.rowsSent;
+    if (entry.queryTime > group.max_time) {
+      group.max_time = entry.queryTime;
+      group.query = entry.query;
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => b.total_time - a.total_time).slice(0, limit);
+}
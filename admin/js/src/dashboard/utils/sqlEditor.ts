@@ -0,0 +1,574 @@
+import { SqlParseError, tokenizeSql } from "./sqlParser";
+import type { SqlToken } from "./sqlParser";
+import type { Table } from "../types";
+
+export const SQL_KEYWORDS = new Set([
+  "ALL",
+  "ANALYZE",
+  "AND",
+  "ANY",
+  "AS",
+  "ASC",
+  "BETWEEN",
+  "BINARY",
+  "BY",
+  "CASE",
+  "COLLATE",
+  "CROSS",
+  "CURRENT_DATE",
+  "CURRENT_TIMESTAMP",
+  "DAY",
+  "DEFAULT",
+  "DELAYED",
+  "DELETE",
+  "DESC",
+  "DISTINCT",
+  "DIV",
+  "DUPLICATE",
+  "ELSE",
+  "END",
+  "ESCAPE",
+  "EXCEPT",
+  "EXISTS",
+  "EXPLAIN",
+  "FALSE",
+  "FOR",
+  "FORCE",
+  "FORMAT",
+  "FROM",
+  "GROUP",
+  "HAVING",
+  "HIGH_PRIORITY",
+  "HOUR",
+  "IGNORE",
+  "IN",
+  "INDEX",
+  "INNER",
+  "INSERT",
+  "INTERSECT",
+  "INTERVAL",
+  "INTO",
+  "IS",
+  "JOIN",
+  "KEY",
+  "LATERAL",
+  "LEFT",
+  "LIKE",
+  "LIMIT",
+  "LOCK",
+  "LOW_PRIORITY",
+  "MINUTE",
+  "MOD",
+  "MODE",
+  "MONTH",
+  "NATURAL",
+  "NOT",
+  "NULL",
+  "OFFSET",
+  "ON",
+  "OR",
+  "ORDER",
+  "OUTER",
+  "OVER",
+  "PARTITION",
+  "QUICK",
+  "RECURSIVE",
+  "REGEXP",
+  "REPLACE",
+  "RIGHT",
+  "RLIKE",
+  "ROLLUP",
+  "SECOND",
+  "SELECT",
+  "SEPARATOR",
+  "SET",
+  "SHARE",
+  "SOME",
+  "SQL_BIG_RESULT",
+  "SQL_CALC_FOUND_ROWS",
+  "SQL_NO_CACHE",
+  "SQL_SMALL_RESULT",
+  "STRAIGHT_JOIN",
+  "TABLE",
+  "THEN",
+  "TRUE",
+  "UNION",
+  "UPDATE",
+  "USE",
+  "USING",
+  "VALUE",
+  "VALUES",
+  "WEEK",
+  "WHEN",
+  "WHERE",
+  "WINDOW",
+  "WITH",
+  "XOR",
+  "YEAR",
+]);
+
+/** Keywords that start a clause on a new line when formatting */
+const CLAUSES = [
+  "WITH",
+  "SELECT",
+  "FROM",
+  "WHERE",
+  "GROUP BY",
+  "HAVING",
+  "WINDOW",
+  "ORDER BY",
+  "LIMIT",
+  "UNION ALL",
+  "UNION DISTINCT",
+  "UNION",
+  "EXCEPT",
+  "INTERSECT",
+  "INSERT INTO",
+  "INSERT IGNORE INTO",
+  "INSERT",
+  "REPLACE INTO",
+  "UPDATE",
+  "DELETE FROM",
+  "DELETE",
+  "SET",
+  "VALUES",
+  "ON DUPLICATE KEY UPDATE",
+  "FOR UPDATE",
+];
+
+/** Clauses whose top-level AND/OR conditions go on their own lines */
+const CONDITION_CLAUSES = new Set(["WHERE", "HAVING", "FROM", "UPDATE", "DELETE FROM"]);
+
+const JOIN_WORDS = new Set(["INNER", "CROSS", "LEFT", "RIGHT", "OUTER", "NATURAL", "JOIN"]);
+
+export const INDENT = "  ";
+
+export type HighlightType =
+  | "keyword"
+  | "function"
+  | "identifier"
+  | "string"
+  | "number"
+  | "comment"
+  | "operator"
+  | "placeholder"
+  | "variable"
+  | "text";
+
+export interface HighlightSegment {
+  text: string;
+  type: HighlightType;
+  start: number;
+}
+
+export interface BracketPair {
+  open: number;
+  close: number;
+}
+
+export type CompletionType = "table" | "column" | "keyword";
+
+export interface Completion {
+  label: string;
+  type: CompletionType;
+  /** Column type or owning table, shown next to the label */
+  detail?: string;
+}
+
+export interface CompletionResult {
+  /** Offset where the replaced word starts */
+  from: number;
+  items: Completion[];
+}
+
+const MAX_COMPLETIONS = 50;
+
+// Letters typed before the list opens by itself, so that short words stay undisturbed
+const MIN_AUTO_PREFIX = 2;
+
+/**
+ * Tokenize a query that may be half-typed. Text the tokenizer rejects is
+ * returned as plain text, and an unterminated string or comment runs to the end.
+ */
+function tokenizeLoosely(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let offset = 0;
+
+  while (offset < sql.length) {
+    const rest = sql.slice(offset);
+    try {
+      tokens.push(...shiftTokens(tokenizeSql(rest, true), offset));
+      break;
+    } catch (error) {
+      if (!(error instanceof SqlParseError)) {
+        throw error;
+      }
+
+      tokens.push(...shiftTokens(tokenizeSql(rest.slice(0, error.position), true), offset));
+      const start = offset + error.position;
+      const char = sql[start];
+      const unterminated = ["'", '"', "`"].includes(char) || sql.startsWith("/*", start);
+      const end = unterminated ? sql.length : start + 1;
+      const value = sql.slice(start, end);
+      tokens.push({
+        type: unterminated ? (char === "/" ? "comment" : "string") : "operator",
+        value,
+        upper: value.toUpperCase(),
+        start,
+        end,
+      });
+      offset = end;
+    }
+  }
+
+  return tokens;
+}
+
+function shiftTokens(tokens: SqlToken[], offset: number): SqlToken[] {
+  return tokens.map((token) => ({
+    ...token,
+    start: token.start + offset,
+    end: token.end + offset,
+  }));
+}
+
+/**
+ * Split a query into highlighted segments that cover every character,
+ * including whitespace, so the result can be laid under a textarea.
+ */
+export function highlightSql(sql: string): HighlightSegment[] {
+  const tokens = tokenizeLoosely(sql);
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+
+  tokens.forEach((token, i) => {
+    if (token.start > position) {
+      segments.push({ text: sql.slice(position, token.start), type: "text", start: position });
+    }
+    segments.push({
+      text: sql.slice(token.start, token.end),
+      type: getHighlightType(token, tokens[i + 1]),
+      start: token.start,
+    });
+    position = token.end;
+  });
+
+  if (position < sql.length) {
+    segments.push({ text: sql.slice(position), type: "text", start: position });
+  }
+
+  return segments;
+}
+
+function getHighlightType(token: SqlToken, next: SqlToken | undefined): HighlightType {
+  switch (token.type) {
+    case "word":
+      if (next?.type === "operator" && next.value === "(" && next.start === token.end) {
+        return "function";
+      }
+      return SQL_KEYWORDS.has(token.upper) ? "keyword" : "identifier";
+    case "quoted":
+      return "identifier";
+    default:
+      return token.type;
+  }
+}
+
+/**
+ * Find the parenthesis next to the caret and its match, ignoring parentheses
+ * in strings and comments.
+ */
+export function findMatchingBracket(sql: string, caret: number): BracketPair | null {
+  const brackets = tokenizeLoosely(sql).filter(
+    (token) => token.type === "operator" && (token.value === "(" || token.value === ")"),
+  );
+
+  // Prefer the bracket before the caret, as editors do
+  const index = [caret - 1, caret]
+    .map((position) => brackets.findIndex((token) => token.start === position))
+    .find((i) => i !== -1);
+  if (index === undefined) {
+    return null;
+  }
+
+  const bracket = brackets[index];
+  const step = bracket.value === "(" ? 1 : -1;
+  let depth = 0;
+
+  for (let i = index; i >= 0 && i < brackets.length; i += step) {
+    depth += brackets[i].value === "(" ? 1 : -1;
+    if (depth === 0) {
+      const [open, close] = [bracket.start, brackets[i].start].sort((a, b) => a - b);
+      return { open, close };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Pretty-print a query: one clause per line, joins and AND/OR conditions
+ * indented below their clause, and subqueries indented one level. Keywords are
+ * uppercased; identifiers, literals and comments are kept as written.
+ *
+ * @throws SqlParseError when the query contains an unterminated string or comment
+ */
+export function formatSql(sql: string): string {
+  const tokens = tokenizeSql(sql, true);
+  const lines: string[] = [];
+  let line = "";
+  let indent = 0;
+  // Set after a unary operator or "(" so the next token follows without a space
+  let glue = false;
+
+  // One entry per open parenthesis. Query blocks (the top level and subqueries)
+  // track their own clause; other parentheses inherit it.
+  const stack: FormatContext[] = [];
+  let context: FormatContext = { block: true, clause: "", between: false, outerIndent: 0 };
+
+  const newLine = (extraIndent = 0) => {
+    if (line.trim()) {
+      lines.push(line.trimEnd());
+    }
+    line = INDENT.repeat(indent + extraIndent);
+    glue = true;
+  };
+
+  const append = (text: string, spaceBefore = true) => {
+    line += spaceBefore && !glue ? ` ${text}` : text;
+    glue = false;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const previous = tokens[i - 1];
+    const raw = sql.slice(token.start, token.end);
+
+    if (token.type === "comment") {
+      append(raw);
+      if (!raw.startsWith("/*")) {
+        newLine();
+      }
+      continue;
+    }
+
+    if (token.type === "word" && SQL_KEYWORDS.has(token.upper)) {
+      // VALUES(col) in ON DUPLICATE KEY UPDATE is a function, not a clause
+      const call = tokens[i + 1]?.value === "(" && tokens[i + 1].start === token.end;
+      const clause = call ? null : matchPhrase(tokens, i, CLAUSES);
+      if (clause) {
+        context.clause = clause;
+        newLine();
+        append(clause);
+        i += clause.split(" ").length - 1;
+        continue;
+      }
+
+      if (JOIN_WORDS.has(token.upper) && !JOIN_WORDS.has(previous?.upper ?? "")) {
+        newLine(1);
+      }
+
+      if (token.upper === "BETWEEN") {
+        context.between = true;
+      } else if (token.upper === "AND" && context.between) {
+        context.between = false;
+      } else if (
+        (token.upper === "AND" || token.upper === "OR") &&
+        context.block &&
+        CONDITION_CLAUSES.has(context.clause)
+      ) {
+        newLine(1);
+      }
+
+      append(token.upper);
+      continue;
+    }
+
+    if (token.type === "operator") {
+      switch (token.value) {
+        case "(": {
+          const block = ["SELECT", "WITH"].includes(tokens[i + 1]?.upper ?? "");
+          // Function calls keep "(" next to the name, as written
+          const call =
+            previous?.end === token.start &&
+            (previous.type === "word" || previous.type === "quoted");
+          append("(", !call);
+          glue = true;
+          stack.push(context);
+          context = { block, clause: context.clause, between: false, outerIndent: indent };
+          if (block) {
+            // Indent the subquery one level deeper than the line that opens it
+            indent = (line.length - line.trimStart().length) / INDENT.length + 1;
+          }
+          continue;
+        }
+        case ")":
+          if (context.block && stack.length > 0) {
+            newLine(-1);
+            indent = context.outerIndent;
+          }
+          context = stack.pop() ?? context;
+          append(")", false);
+          continue;
+        case ",":
+          append(",", false);
+          if (context.block && context.clause === "SELECT") {
+            newLine(1);
+          }
+          continue;
+        case ".":
+          append(".", false);
+          glue = true;
+          continue;
+        case ";":
+          append(";", false);
+          newLine();
+          continue;
+      }
+
+      append(raw);
+      // Unary minus and plus stick to their operand
+      if (
+        (token.value === "-" || token.value === "+") &&
+        (!previous ||
+          previous.type === "operator" ||
+          (previous.type === "word" && SQL_KEYWORDS.has(previous.upper)))
+      ) {
+        glue = true;
+      }
+      continue;
+    }
+
+    append(raw);
+  }
+
+  newLine();
+  return lines.join("\n");
+}
+
+interface FormatContext {
+  block: boolean;
+  clause: string;
+  between: boolean;
+  /** Indent to restore when the parenthesis closes */
+  outerIndent: number;
+}
+
+/** The longest phrase from the list that starts at the given token */
+function matchPhrase(tokens: SqlToken[], index: number, phrases: string[]): string | null {
+  for (const phrase of phrases) {
+    const words = phrase.split(" ");
+    if (
+      words.every(
+        (word, i) => tokens[index + i]?.type === "word" && tokens[index + i].upper === word,
+      )
+    ) {
+      return phrase;
+    }
+  }
+  return null;
+}
+
+/**
+ * Suggest tables, columns and keywords for the word before the caret.
+ *
+ * After "alias." only the columns of that table are offered. Otherwise columns
+ * of the tables already named in the query come first, then tables, then
+ * keywords; no keywords are offered once the word is a keyword itself, so that
+ * OR does not turn into ORDER. Unless forced, suggestions need "alias." or a
+ * few letters. Returns null inside strings and comments, or when nothing matches.
+ */
+export function getCompletions(
+  sql: string,
+  caret: number,
+  schema: Table[],
+  force = false,
+): CompletionResult | null {
+  const tokens = tokenizeLoosely(sql);
+  const inside = tokens.find((token) => token.start < caret && caret <= token.end);
+  if (inside && (inside.type === "string" || inside.type === "comment")) {
+    return null;
+  }
+
+  const match = sql.slice(0, caret).match(/(?:([\w$]+)\.)?([\w$]*)$/);
+  const qualifier = match?.[1];
+  const prefix = match?.[2] ?? "";
+  if (!qualifier && prefix.length < MIN_AUTO_PREFIX && !force) {
+    return null;
+  }
+
+  const from = caret - prefix.length;
+  const lower = prefix.toLowerCase();
+  const matches = (label: string) =>
+    label.toLowerCase().startsWith(lower) && label.toLowerCase() !== lower;
+  const columnItems = (table: Table): Completion[] =>
+    table.columns
+      .filter((column) => matches(column.name))
+      .map((column) => ({ label: column.name, type: "column", detail: column.type }));
+
+  const tablesByName = new Map(schema.map((table) => [table.name.toLowerCase(), table]));
+  const aliases = findAliases(tokens, tablesByName);
+
+  let items: Completion[];
+  if (qualifier) {
+    const table = aliases.get(qualifier.toLowerCase());
+    items = table ? columnItems(table) : [];
+  } else {
+    const used = [...new Set(aliases.values())];
+    items = [
+      ...used.flatMap((table) =>
+        columnItems(table).map((item) => ({ ...item, detail: `${table.name}, ${item.detail}` })),
+      ),
+      ...schema
+        .filter((table) => matches(table.name))
+        .map((table): Completion => ({ label: table.name, type: "table" })),
+      ...[...SQL_KEYWORDS]
+        .filter((keyword) => prefix && !SQL_KEYWORDS.has(prefix.toUpperCase()) && matches(keyword))
+        .map((keyword): Completion => ({ label: keyword, type: "keyword" })),
+    ];
+  }
+
+  // Columns shared by several tables are listed once
+  const seen = new Set<string>();
+  items = items.filter((item) => {
+    const key = `${item.type}:${item.label.toLowerCase()}`;
+    return !seen.has(key) && seen.add(key);
+  });
+
+  return items.length > 0 ? { from, items: items.slice(0, MAX_COMPLETIONS) } : null;
+}
+
+/**
+ * Map table names and their aliases in the query to schema tables. Works on
+ * tokens rather than the parser, because the query is usually incomplete
+ * while it is being typed.
+ */
+function findAliases(tokens: SqlToken[], tablesByName: Map<string, Table>): Map<string, Table> {
+  const aliases = new Map<string, Table>();
+  const words = tokens.filter((token) => token.type !== "comment");
+
+  words.forEach((token, i) => {
+    if (token.type !== "word" && token.type !== "quoted") {
+      return;
+    }
+    const table = tablesByName.get(token.value.toLowerCase());
+    if (!table) {
+      return;
+    }
+
+    aliases.set(token.value.toLowerCase(), table);
+
+    let next = words[i + 1];
+    if (next?.upper === "AS") {
+      next = words[i + 2];
+    }
+    if (
+      next &&
+      (next.type === "quoted" || (next.type === "word" && !SQL_KEYWORDS.has(next.upper)))
+    ) {
+      aliases.set(next.value.toLowerCase(), table);
+    }
+  });
+
+  return aliases;
+}
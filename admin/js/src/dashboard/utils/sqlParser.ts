@@ -0,0 +1,1412 @@
+/**
+ * Tokenizer and parser for the MySQL statements the analyzer works with:
+ * SELECT (with CTEs, subqueries and UNION), INSERT/REPLACE, UPDATE and DELETE.
+ *
+ * The AST keeps what is needed to find tables, aliases and column references.
+ * Expressions the parser does not model (window specifications, index hints,
+ * locking clauses, ...) are skipped rather than rejected.
+ */
+
+export type SqlTokenType =
+  | "word"
+  | "quoted"
+  | "string"
+  | "number"
+  | "placeholder"
+  | "variable"
+  | "operator"
+  | "comment";
+
+export interface SqlToken {
+  type: SqlTokenType;
+  /** Identifier without backticks, string without quotes, or the raw text */
+  value: string;
+  /** Uppercase value, for keyword comparison */
+  upper: string;
+  /** Offset of the token in the query */
+  start: number;
+  /** Offset just after the token */
+  end: number;
+}
+
+export type SqlExpression =
+  | { kind: "column"; table: string | null; column: string }
+  | { kind: "star"; table: string | null }
+  | {
+      kind: "literal";
+      value: string;
+      literalType: "string" | "number" | "null" | "boolean" | "keyword";
+    }
+  | { kind: "placeholder"; value: string }
+  | { kind: "variable"; name: string }
+  | { kind: "binary"; operator: string; left: SqlExpression; right: SqlExpression }
+  | { kind: "unary"; operator: string; operand: SqlExpression }
+  | {
+      kind: "between";
+      operand: SqlExpression;
+      low: SqlExpression;
+      high: SqlExpression;
+      not: boolean;
+    }
+  | { kind: "in"; operand: SqlExpression; values: SqlExpression[] | SqlStatement; not: boolean }
+  | { kind: "is"; operand: SqlExpression; value: string; not: boolean }
+  | { kind: "function"; name: string; args: SqlExpression[] }
+  | { kind: "case"; operand: SqlExpression | null; branches: SqlExpression[] }
+  | { kind: "list"; items: SqlExpression[] }
+  | { kind: "subquery"; query: SqlStatement }
+  | { kind: "exists"; query: SqlStatement };
+
+export type SqlTableSource =
+  | { kind: "table"; schema: string | null; name: string; alias: string | null }
+  | { kind: "derived"; query: SqlStatement; alias: string | null }
+  | {
+      kind: "join";
+      joinType: string;
+      left: SqlTableSource;
+      right: SqlTableSource;
+      on: SqlExpression | null;
+      using: string[];
+    };
+
+export interface SqlCte {
+  name: string;
+  query: SqlStatement;
+}
+
+export interface SqlSelectItem {
+  expr: SqlExpression;
+  alias: string | null;
+}
+
+export interface SqlOrderItem {
+  expr: SqlExpression;
+  descending: boolean;
+}
+
+export interface SqlAssignment {
+  column: SqlExpression;
+  value: SqlExpression;
+}
+
+export interface SqlSelect {
+  kind: "select";
+  with: SqlCte[];
+  columns: SqlSelectItem[];
+  from: SqlTableSource[];
+  where: SqlExpression | null;
+  groupBy: SqlExpression[];
+  having: SqlExpression | null;
+  orderBy: SqlOrderItem[];
+  /** Statements combined with UNION, EXCEPT or INTERSECT */
+  compound: SqlStatement[];
+}
+
+export interface SqlInsert {
+  kind: "insert";
+  with: SqlCte[];
+  table: SqlTableSource;
+  columns: string[];
+  values: SqlExpression[][];
+  select: SqlStatement | null;
+  set: SqlAssignment[];
+  onDuplicate: SqlAssignment[];
+}
+
+export interface SqlUpdate {
+  kind: "update";
+  with: SqlCte[];
+  tables: SqlTableSource[];
+  set: SqlAssignment[];
+  where: SqlExpression | null;
+  orderBy: SqlOrderItem[];
+}
+
+export interface SqlDelete {
+  kind: "delete";
+  with: SqlCte[];
+  /** Tables or aliases rows are deleted from, for multi-table DELETE */
+  targets: string[];
+  from: SqlTableSource[];
+  where: SqlExpression | null;
+  orderBy: SqlOrderItem[];
+}
+
+export type SqlStatement = SqlSelect | SqlInsert | SqlUpdate | SqlDelete;
+
+export class SqlParseError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+  ) {
+    super(message);
+    this.name = "SqlParseError";
+  }
+}
+
+const OPERATORS = [
+  "->>",
+  "<=>",
+  "->",
+  "<=",
+  ">=",
+  "<>",
+  "!=",
+  ":=",
+  "||",
+  "&&",
+  "<<",
+  ">>",
+  "(",
+  ")",
+  ",",
+  ".",
+  ";",
+  "=",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "!",
+  "~",
+  "^",
+  "&",
+  "|",
+];
+
+/** Words that end an expression or table reference, so they are never taken as an alias */
+const CLAUSE_KEYWORDS = new Set([
+  "SELECT",
+  "FROM",
+  "WHERE",
+  "GROUP",
+  "HAVING",
+  "ORDER",
+  "LIMIT",
+  "OFFSET",
+  "UNION",
+  "EXCEPT",
+  "INTERSECT",
+  "JOIN",
+  "INNER",
+  "LEFT",
+  "RIGHT",
+  "CROSS",
+  "NATURAL",
+  "STRAIGHT_JOIN",
+  "OUTER",
+  "ON",
+  "USING",
+  "SET",
+  "VALUES",
+  "VALUE",
+  "FOR",
+  "LOCK",
+  "INTO",
+  "WINDOW",
+  "USE",
+  "IGNORE",
+  "FORCE",
+  "PARTITION",
+  "AND",
+  "OR",
+  "XOR",
+  "NOT",
+  "AS",
+  "ASC",
+  "DESC",
+  "WITH",
+  "RETURNING",
+  "THEN",
+  "WHEN",
+  "ELSE",
+  "END",
+  "IS",
+  "IN",
+  "LIKE",
+  "BETWEEN",
+  "REGEXP",
+  "RLIKE",
+  "SOUNDS",
+  "DIV",
+  "MOD",
+  "COLLATE",
+  "SEPARATOR",
+  "OVER",
+]);
+
+/** Words that are values rather than column names when not followed by "(" */
+const VALUE_KEYWORDS = new Set([
+  "CURRENT_DATE",
+  "CURRENT_TIME",
+  "CURRENT_TIMESTAMP",
+  "CURRENT_USER",
+  "LOCALTIME",
+  "LOCALTIMESTAMP",
+  "UTC_DATE",
+  "UTC_TIME",
+  "UTC_TIMESTAMP",
+  "DEFAULT",
+  "UNKNOWN",
+]);
+
+const COMPARISON_OPERATORS = new Set(["=", "<=>", "<>", "!=", "<", "<=", ">", ">="]);
+
+/**
+ * Split a query into tokens. Comments are dropped unless `keepComments` is set,
+ * as the editor needs them for highlighting and formatting.
+ */
+export function tokenizeSql(sql: string, keepComments = false): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  const push = (type: SqlTokenType, value: string, start: number, end = start + value.length) => {
+    tokens.push({ type, value, upper: value.toUpperCase(), start, end });
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const rest = sql.slice(i);
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // "-- " needs a space or control character after it in MySQL
+    if (/^--(\s|$)/.test(rest) || char === "#") {
+      const newline = sql.indexOf("\n", i);
+      const end = newline === -1 ? sql.length : newline;
+      if (keepComments) {
+        push("comment", sql.slice(i, end), i);
+      }
+      i = end;
+      continue;
+    }
+
+    if (rest.startsWith("/*")) {
+      const close = sql.indexOf("*/", i + 2);
+      if (close === -1) {
+        throw new SqlParseError("Unterminated comment", i);
+      }
+      if (keepComments) {
+        push("comment", sql.slice(i, close + 2), i);
+      }
+      i = close + 2;
+      continue;
+    }
+
+    if (char === "'" || char === '"' || char === "`") {
+      const start = i;
+      let value = "";
+      i++;
+      while (true) {
+        if (i >= sql.length) {
+          throw new SqlParseError("Unterminated quoted text", start);
+        }
+        if (sql[i] === "\\" && char !== "`") {
+          value += sql[i + 1] ?? "";
+          i += 2;
+        } else if (sql[i] === char) {
+          // Doubled quote is an escaped quote
+          if (sql[i + 1] === char) {
+            value += char;
+            i += 2;
+          } else {
+            i++;
+            break;
+          }
+        } else {
+          value += sql[i++];
+        }
+      }
+      push(char === "`" ? "quoted" : "string", value, start, i);
+      continue;
+    }
+
+    const number = rest.match(/^(?:0x[0-9a-f]+|(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(?![\w$])/i);
+    if (number) {
+      push("number", number[0], i);
+      i += number[0].length;
+      continue;
+    }
+
+    const word = rest.match(/^[A-Za-z_$\d][\w$]*/);
+    if (word) {
+      push("word", word[0], i);
+      i += word[0].length;
+      continue;
+    }
+
+    const variable = rest.match(/^@@?(?:[\w$.]+|`[^`]*`|'[^']*')/);
+    if (variable) {
+      push("variable", variable[0], i);
+      i += variable[0].length;
+      continue;
+    }
+
+    // Prepared statement and $wpdb->prepare() placeholders
+    const placeholder = rest.match(/^(?:\?|%[sdfiF])/);
+    if (placeholder) {
+      push("placeholder", placeholder[0], i);
+      i += placeholder[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => rest.startsWith(op));
+    if (operator) {
+      push("operator", operator, i);
+      i += operator.length;
+      continue;
+    }
+
+    throw new SqlParseError(`Unexpected character "${char}"`, i);
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a single SQL statement into an AST.
+ *
+ * @throws SqlParseError when the statement cannot be parsed
+ */
+export function parseSql(sql: string): SqlStatement {
+  return new Parser(tokenizeSql(sql)).parseScript();
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: SqlToken[]) {}
+
+  parseScript(): SqlStatement {
+    const statement = this.parseStatement();
+    this.acceptOperator(";");
+    if (this.peek()) {
+      this.fail("Unexpected text after the end of the statement");
+    }
+    return statement;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Token helpers
+
+  private peek(offset = 0): SqlToken | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private next(): SqlToken {
+    const token = this.tokens[this.pos++];
+    if (!token) {
+      this.fail("Unexpected end of query");
+    }
+    return token;
+  }
+
+  private fail(message: string): never {
+    const token = this.peek();
+    throw new SqlParseError(
+      token ? `${message} near "${token.value}"` : message,
+      token?.start ?? this.tokens[this.tokens.length - 1]?.start ?? 0,
+    );
+  }
+
+  private isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.type === "word" && token.upper === keyword;
+  }
+
+  private isOperator(operator: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.type === "operator" && token.value === operator;
+  }
+
+  private acceptKeyword(...keywords: string[]): boolean {
+    if (keywords.every((keyword, i) => this.isKeyword(keyword, i))) {
+      this.pos += keywords.length;
+      return true;
+    }
+    return false;
+  }
+
+  /** Accept one of several single-word keywords */
+  private acceptAnyKeyword(...keywords: string[]): boolean {
+    return keywords.some((keyword) => this.acceptKeyword(keyword));
+  }
+
+  private acceptOperator(operator: string): boolean {
+    if (this.isOperator(operator)) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(...keywords: string[]): void {
+    if (!this.acceptKeyword(...keywords)) {
+      this.fail(`Expected ${keywords.join(" ")}`);
+    }
+  }
+
+  private expectOperator(operator: string): void {
+    if (!this.acceptOperator(operator)) {
+      this.fail(`Expected "${operator}"`);
+    }
+  }
+
+  private isIdentifier(offset = 0): boolean {
+    const token = this.peek(offset);
+    return (
+      token?.type === "quoted" || (token?.type === "word" && !CLAUSE_KEYWORDS.has(token.upper))
+    );
+  }
+
+  private parseIdentifier(): string {
+    const token = this.next();
+    if (token.type !== "word" && token.type !== "quoted") {
+      this.pos--;
+      this.fail("Expected an identifier");
+    }
+    return token.value;
+  }
+
+  /** Skip a balanced parenthesized group, the "(" being the current token */
+  private skipParenthesized(): void {
+    this.expectOperator("(");
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.type === "operator" && token.value === "(") {
+        depth++;
+      } else if (token.type === "operator" && token.value === ")") {
+        depth--;
+      }
+    }
+  }
+
+  /** Optional "[AS] alias" */
+  private parseAlias(): string | null {
+    if (this.acceptKeyword("AS")) {
+      const token = this.next();
+      return token.value;
+    }
+    if (this.isIdentifier() || this.peek()?.type === "string") {
+      return this.next().value;
+    }
+    return null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Statements
+
+  private parseStatement(): SqlStatement {
+    const ctes = this.parseWith();
+
+    let statement: SqlStatement;
+    if (this.isKeyword("SELECT") || this.isOperator("(")) {
+      statement = this.parseSelectStatement();
+    } else if (this.isKeyword("INSERT") || this.isKeyword("REPLACE")) {
+      statement = this.parseInsert();
+    } else if (this.isKeyword("UPDATE")) {
+      statement = this.parseUpdate();
+    } else if (this.isKeyword("DELETE")) {
+      statement = this.parseDelete();
+    } else {
+      this.fail("Unsupported statement");
+    }
+
+    statement.with = [...ctes, ...statement.with];
+    return statement;
+  }
+
+  private parseWith(): SqlCte[] {
+    if (!this.acceptKeyword("WITH")) {
+      return [];
+    }
+    this.acceptKeyword("RECURSIVE");
+
+    const ctes: SqlCte[] = [];
+    do {
+      const name = this.parseIdentifier();
+      if (this.isOperator("(")) {
+        this.skipParenthesized();
+      }
+      this.expectKeyword("AS");
+      this.expectOperator("(");
+      const query = this.parseStatement();
+      this.expectOperator(")");
+      ctes.push({ name, query });
+    } while (this.acceptOperator(","));
+
+    return ctes;
+  }
+
+  /** SELECT with optional UNION/EXCEPT/INTERSECT and trailing ORDER BY/LIMIT */
+  private parseSelectStatement(): SqlSelect {
+    const first = this.parseSelectTerm();
+
+    while (this.isKeyword("UNION") || this.isKeyword("EXCEPT") || this.isKeyword("INTERSECT")) {
+      this.next();
+      this.acceptAnyKeyword("ALL", "DISTINCT");
+      first.compound.push(this.parseSelectTerm());
+    }
+
+    // ORDER BY and LIMIT after a parenthesized term or a compound apply to the whole result
+    first.orderBy.push(...this.parseOrderBy());
+    this.skipLimitAndLocking();
+
+    return first;
+  }
+
+  private parseSelectTerm(): SqlSelect {
+    if (this.acceptOperator("(")) {
+      const inner = this.parseStatement();
+      this.expectOperator(")");
+      if (inner.kind !== "select") {
+        this.fail("Expected a SELECT");
+      }
+      return inner;
+    }
+    return this.parseSelect();
+  }
+
+  private parseSelect(): SqlSelect {
+    const ctes = this.parseWith();
+    this.expectKeyword("SELECT");
+
+    const modifiers = [
+      "ALL",
+      "DISTINCT",
+      "DISTINCTROW",
+      "HIGH_PRIORITY",
+      "STRAIGHT_JOIN",
+      "SQL_SMALL_RESULT",
+      "SQL_BIG_RESULT",
+      "SQL_BUFFER_RESULT",
+      "SQL_NO_CACHE",
+      "SQL_CACHE",
+      "SQL_CALC_FOUND_ROWS",
+    ];
+    while (modifiers.some((modifier) => this.isKeyword(modifier))) {
+      this.next();
+    }
+
+    const columns: SqlSelectItem[] = [];
+    do {
+      const expr = this.parseExpression();
+      columns.push({ expr, alias: this.parseAlias() });
+    } while (this.acceptOperator(","));
+
+    this.skipInto();
+
+    const select: SqlSelect = {
+      kind: "select",
+      with: ctes,
+      columns,
+      from: [],
+      where: null,
+      groupBy: [],
+      having: null,
+      orderBy: [],
+      compound: [],
+    };
+
+    if (this.acceptKeyword("FROM")) {
+      select.from = this.parseTableReferences();
+    }
+    if (this.acceptKeyword("WHERE")) {
+      select.where = this.parseExpression();
+    }
+    if (this.acceptKeyword("GROUP", "BY")) {
+      do {
+        select.groupBy.push(this.parseExpression());
+        this.acceptAnyKeyword("ASC", "DESC");
+      } while (this.acceptOperator(","));
+      this.acceptKeyword("WITH", "ROLLUP");
+    }
+    if (this.acceptKeyword("HAVING")) {
+      select.having = this.parseExpression();
+    }
+    if (this.acceptKeyword("WINDOW")) {
+      do {
+        this.parseIdentifier();
+        this.expectKeyword("AS");
+        this.skipParenthesized();
+      } while (this.acceptOperator(","));
+    }
+    select.orderBy = this.parseOrderBy();
+    this.skipLimitAndLocking();
+    this.skipInto();
+
+    return select;
+  }
+
+  private skipInto(): void {
+    if (!this.acceptKeyword("INTO")) {
+      return;
+    }
+    if (this.acceptKeyword("OUTFILE") || this.acceptKeyword("DUMPFILE")) {
+      this.next();
+    }
+    while (this.peek() && !CLAUSE_KEYWORDS.has(this.peek()?.upper ?? "") && !this.isOperator(")")) {
+      this.next();
+    }
+  }
+
+  private parseOrderBy(): SqlOrderItem[] {
+    if (!this.acceptKeyword("ORDER", "BY")) {
+      return [];
+    }
+
+    const items: SqlOrderItem[] = [];
+    do {
+      const expr = this.parseExpression();
+      const descending = this.acceptKeyword("DESC");
+      if (!descending) {
+        this.acceptKeyword("ASC");
+      }
+      items.push({ expr, descending });
+    } while (this.acceptOperator(","));
+
+    return items;
+  }
+
+  private skipLimitAndLocking(): void {
+    if (this.acceptKeyword("LIMIT")) {
+      this.parseExpression();
+      if (this.acceptOperator(",") || this.acceptKeyword("OFFSET")) {
+        this.parseExpression();
+      }
+    }
+
+    while (this.isKeyword("FOR") || this.isKeyword("LOCK")) {
+      // FOR UPDATE / FOR SHARE [OF t] [NOWAIT | SKIP LOCKED], LOCK IN SHARE MODE
+      while (
+        this.peek() &&
+        !this.isOperator(")") &&
+        !this.isOperator(";") &&
+        !this.isKeyword("UNION") &&
+        !this.isKeyword("INTO")
+      ) {
+        this.next();
+      }
+    }
+  }
+
+  private parseInsert(): SqlInsert {
+    this.next(); // INSERT or REPLACE
+    while (["LOW_PRIORITY", "DELAYED", "HIGH_PRIORITY", "IGNORE"].some((m) => this.isKeyword(m))) {
+      this.next();
+    }
+    this.acceptKeyword("INTO");
+
+    const insert: SqlInsert = {
+      kind: "insert",
+      with: [],
+      table: this.parseTableName(false),
+      columns: [],
+      values: [],
+      select: null,
+      set: [],
+      onDuplicate: [],
+    };
+
+    if (this.acceptKeyword("PARTITION")) {
+      this.skipParenthesized();
+    }
+
+    // Column list, unless the parenthesis opens a SELECT
+    if (this.isOperator("(") && !this.isKeyword("SELECT", 1) && !this.isKeyword("WITH", 1)) {
+      this.next();
+      if (!this.isOperator(")")) {
+        do {
+          insert.columns.push(this.parseIdentifier());
+        } while (this.acceptOperator(","));
+      }
+      this.expectOperator(")");
+    }
+
+    if (this.acceptKeyword("VALUES") || this.acceptKeyword("VALUE")) {
+      do {
+        this.acceptKeyword("ROW");
+        this.expectOperator("(");
+        const row: SqlExpression[] = [];
+        if (!this.isOperator(")")) {
+          do {
+            row.push(this.parseExpression());
+          } while (this.acceptOperator(","));
+        }
+        this.expectOperator(")");
+        insert.values.push(row);
+      } while (this.acceptOperator(","));
+    } else if (this.acceptKeyword("SET")) {
+      insert.set = this.parseAssignments();
+    } else if (this.acceptKeyword("TABLE")) {
+      const table = this.parseTableName(false);
+      insert.select = {
+        kind: "select",
+        with: [],
+        columns: [{ expr: { kind: "star", table: null }, alias: null }],
+        from: [table],
+        where: null,
+        groupBy: [],
+        having: null,
+        orderBy: [],
+        compound: [],
+      };
+    } else {
+      insert.select = this.parseStatement();
+    }
+
+    // Row alias for ON DUPLICATE KEY UPDATE (MySQL 8.0.19+)
+    if (this.acceptKeyword("AS")) {
+      this.parseIdentifier();
+      if (this.isOperator("(")) {
+        this.skipParenthesized();
+      }
+    }
+
+    if (this.acceptKeyword("ON", "DUPLICATE", "KEY", "UPDATE")) {
+      insert.onDuplicate = this.parseAssignments();
+    }
+
+    return insert;
+  }
+
+  private parseUpdate(): SqlUpdate {
+    this.expectKeyword("UPDATE");
+    while (this.isKeyword("LOW_PRIORITY") || this.isKeyword("IGNORE")) {
+      this.next();
+    }
+
+    const tables = this.parseTableReferences();
+    this.expectKeyword("SET");
+    const set = this.parseAssignments();
+    const where = this.acceptKeyword("WHERE") ? this.parseExpression() : null;
+    const orderBy = this.parseOrderBy();
+    this.skipLimitAndLocking();
+
+    return { kind: "update", with: [], tables, set, where, orderBy };
+  }
+
+  private parseDelete(): SqlDelete {
+    this.expectKeyword("DELETE");
+    while (["LOW_PRIORITY", "QUICK", "IGNORE"].some((m) => this.isKeyword(m))) {
+      this.next();
+    }
+
+    const del: SqlDelete = {
+      kind: "delete",
+      with: [],
+      targets: [],
+      from: [],
+      where: null,
+      orderBy: [],
+    };
+
+    if (this.acceptKeyword("FROM")) {
+      // DELETE FROM t [AS a] ... or DELETE FROM t1, t2 USING <table references>
+      const first = this.parseTableName(true);
+      if (this.isOperator(",") || this.isKeyword("USING")) {
+        del.targets.push(getSourceName(first));
+        while (this.acceptOperator(",")) {
+          del.targets.push(getSourceName(this.parseTableName(false)));
+        }
+        this.expectKeyword("USING");
+        del.from = this.parseTableReferences();
+      } else {
+        if (this.acceptKeyword("PARTITION")) {
+          this.skipParenthesized();
+        }
+        del.from = [first];
+        del.targets.push(getSourceName(first));
+      }
+    } else {
+      // DELETE t1[.*], t2 FROM <table references>
+      do {
+        del.targets.push(this.parseIdentifier());
+        if (this.acceptOperator(".")) {
+          if (!this.acceptOperator("*")) {
+            this.parseIdentifier();
+          }
+        }
+      } while (this.acceptOperator(","));
+      this.expectKeyword("FROM");
+      del.from = this.parseTableReferences();
+    }
+
+    del.where = this.acceptKeyword("WHERE") ? this.parseExpression() : null;
+    del.orderBy = this.parseOrderBy();
+    this.skipLimitAndLocking();
+
+    return del;
+  }
+
+  private parseAssignments(): SqlAssignment[] {
+    const assignments: SqlAssignment[] = [];
+    do {
+      const column = this.parsePrimary();
+      if (!this.acceptOperator("=")) {
+        this.expectOperator(":=");
+      }
+      assignments.push({ column, value: this.parseExpression() });
+    } while (this.acceptOperator(","));
+    return assignments;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Table references
+
+  private parseTableReferences(): SqlTableSource[] {
+    const sources: SqlTableSource[] = [];
+    do {
+      sources.push(this.parseJoinedTable());
+    } while (this.acceptOperator(","));
+    return sources;
+  }
+
+  private parseJoinedTable(): SqlTableSource {
+    let left = this.parseTableFactor();
+
+    while (true) {
+      const joinType = this.parseJoinType();
+      if (!joinType) {
+        return left;
+      }
+
+      const right = this.parseTableFactor();
+      let on: SqlExpression | null = null;
+      const using: string[] = [];
+
+      if (this.acceptKeyword("ON")) {
+        on = this.parseExpression();
+      } else if (this.acceptKeyword("USING")) {
+        this.expectOperator("(");
+        do {
+          using.push(this.parseIdentifier());
+        } while (this.acceptOperator(","));
+        this.expectOperator(")");
+      }
+
+      left = { kind: "join", joinType, left, right, on, using };
+    }
+  }
+
+  private parseJoinType(): string | null {
+    const start = this.pos;
+    const words: string[] = [];
+
+    while (["INNER", "CROSS", "LEFT", "RIGHT", "OUTER", "NATURAL"].some((w) => this.isKeyword(w))) {
+      words.push(this.next().upper);
+    }
+    if (this.acceptKeyword("STRAIGHT_JOIN")) {
+      return "STRAIGHT_JOIN";
+    }
+    if (this.acceptKeyword("JOIN")) {
+      return [...words, "JOIN"].join(" ");
+    }
+
+    this.pos = start;
+    return null;
+  }
+
+  private parseTableFactor(): SqlTableSource {
+    if (this.acceptKeyword("LATERAL") || this.isOperator("(")) {
+      this.expectOperator("(");
+
+      if (this.isKeyword("SELECT") || this.isKeyword("WITH") || this.isOperator("(")) {
+        // Either a derived table or a parenthesized table reference list
+        const start = this.pos;
+        try {
+          const query = this.parseStatement();
+          this.expectOperator(")");
+          const alias = this.parseAlias();
+          if (this.isOperator("(")) {
+            this.skipParenthesized();
+          }
+          return { kind: "derived", query, alias };
+        } catch (error) {
+          if (!(error instanceof SqlParseError) || !this.isOperatorAt(start, "(")) {
+            throw error;
+          }
+          this.pos = start;
+        }
+      }
+
+      const sources = this.parseTableReferences();
+      this.expectOperator(")");
+      return sources.reduce((left, right) => ({
+        kind: "join",
+        joinType: "CROSS JOIN",
+        left,
+        right,
+        on: null,
+        using: [],
+      }));
+    }
+
+    if (this.isKeyword("JSON_TABLE")) {
+      this.next();
+      this.skipParenthesized();
+      const alias = this.parseAlias();
+      return { kind: "derived", query: emptySelect(), alias };
+    }
+
+    return this.parseTableName(true);
+  }
+
+  private isOperatorAt(position: number, operator: string): boolean {
+    const token = this.tokens[position];
+    return token?.type === "operator" && token.value === operator;
+  }
+
+  private parseTableName(allowAlias: boolean): SqlTableSource {
+    let name = this.parseIdentifier();
+    let schema: string | null = null;
+    if (this.acceptOperator(".")) {
+      schema = name;
+      name = this.parseIdentifier();
+    }
+
+    if (this.acceptKeyword("PARTITION")) {
+      this.skipParenthesized();
+    }
+
+    const alias = allowAlias ? this.parseAlias() : null;
+
+    // Index hints: USE|FORCE|IGNORE {INDEX|KEY} [FOR ...] (list)
+    while (
+      (this.isKeyword("USE") || this.isKeyword("FORCE") || this.isKeyword("IGNORE")) &&
+      (this.isKeyword("INDEX", 1) || this.isKeyword("KEY", 1))
+    ) {
+      this.pos += 2;
+      if (this.acceptKeyword("FOR") && !this.acceptKeyword("JOIN")) {
+        this.acceptAnyKeyword("ORDER", "GROUP");
+        this.expectKeyword("BY");
+      }
+      this.skipParenthesized();
+    }
+
+    return { kind: "table", schema, name, alias };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions, lowest precedence first
+
+  parseExpression(): SqlExpression {
+    return this.parseOr();
+  }
+
+  private parseOr(): SqlExpression {
+    let left = this.parseXor();
+    while (this.isKeyword("OR") || this.isOperator("||")) {
+      this.next();
+      left = { kind: "binary", operator: "OR", left, right: this.parseXor() };
+    }
+    return left;
+  }
+
+  private parseXor(): SqlExpression {
+    let left = this.parseAnd();
+    while (this.acceptKeyword("XOR")) {
+      left = { kind: "binary", operator: "XOR", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): SqlExpression {
+    let left = this.parseNot();
+    while (this.isKeyword("AND") || this.isOperator("&&")) {
+      this.next();
+      left = { kind: "binary", operator: "AND", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): SqlExpression {
+    if (this.acceptKeyword("NOT")) {
+      return { kind: "unary", operator: "NOT", operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): SqlExpression {
+    let left = this.parseBitOr();
+
+    while (true) {
+      const token = this.peek();
+      if (!token) {
+        return left;
+      }
+
+      if (token.type === "operator" && COMPARISON_OPERATORS.has(token.value)) {
+        this.next();
+        // col = ANY (subquery) and friends
+        if (this.acceptKeyword("ANY") || this.acceptKeyword("SOME") || this.acceptKeyword("ALL")) {
+          left = {
+            kind: "in",
+            operand: left,
+            values: this.parseSubqueryOrList(),
+            not: token.value !== "=",
+          };
+          continue;
+        }
+        left = { kind: "binary", operator: token.value, left, right: this.parseBitOr() };
+        continue;
+      }
+
+      if (this.acceptKeyword("IS")) {
+        const not = this.acceptKeyword("NOT");
+        const value = this.next().upper;
+        left = { kind: "is", operand: left, value, not };
+        continue;
+      }
+
+      const not = this.isKeyword("NOT") ? 1 : 0;
+      if (this.isKeyword("IN", not) && this.isOperator("(", not + 1)) {
+        this.pos += not + 1;
+        left = { kind: "in", operand: left, values: this.parseSubqueryOrList(), not: not === 1 };
+        continue;
+      }
+      if (this.isKeyword("BETWEEN", not)) {
+        this.pos += not + 1;
+        const low = this.parseBitOr();
+        this.expectKeyword("AND");
+        left = { kind: "between", operand: left, low, high: this.parseBitOr(), not: not === 1 };
+        continue;
+      }
+      if (
+        this.isKeyword("LIKE", not) ||
+        this.isKeyword("REGEXP", not) ||
+        this.isKeyword("RLIKE", not)
+      ) {
+        this.pos += not;
+        const operator = this.next().upper;
+        const right = this.parseBitOr();
+        if (this.acceptKeyword("ESCAPE")) {
+          this.parseBitOr();
+        }
+        const expr: SqlExpression = { kind: "binary", operator, left, right };
+        left = not ? { kind: "unary", operator: "NOT", operand: expr } : expr;
+        continue;
+      }
+      if (this.acceptKeyword("SOUNDS", "LIKE")) {
+        left = { kind: "binary", operator: "SOUNDS LIKE", left, right: this.parseBitOr() };
+        continue;
+      }
+
+      return left;
+    }
+  }
+
+  private parseSubqueryOrList(): SqlExpression[] | SqlStatement {
+    this.expectOperator("(");
+    if (this.isKeyword("SELECT") || this.isKeyword("WITH")) {
+      const query = this.parseStatement();
+      this.expectOperator(")");
+      return query;
+    }
+
+    const values: SqlExpression[] = [];
+    if (!this.isOperator(")")) {
+      do {
+        values.push(this.parseExpression());
+      } while (this.acceptOperator(","));
+    }
+    this.expectOperator(")");
+    return values;
+  }
+
+  private parseBinaryLevel(operators: string[], parseOperand: () => SqlExpression): SqlExpression {
+    let left = parseOperand();
+    while (true) {
+      const token = this.peek();
+      const matches =
+        token &&
+        ((token.type === "operator" && operators.includes(token.value)) ||
+          (token.type === "word" && operators.includes(token.upper)));
+      if (!matches) {
+        return left;
+      }
+      this.next();
+      left = { kind: "binary", operator: token.upper, left, right: parseOperand() };
+    }
+  }
+
+  private parseBitOr(): SqlExpression {
+    return this.parseBinaryLevel(["|"], () => this.parseBitAnd());
+  }
+
+  private parseBitAnd(): SqlExpression {
+    return this.parseBinaryLevel(["&"], () => this.parseShift());
+  }
+
+  private parseShift(): SqlExpression {
+    return this.parseBinaryLevel(["<<", ">>"], () => this.parseAdditive());
+  }
+
+  private parseAdditive(): SqlExpression {
+    return this.parseBinaryLevel(["+", "-"], () => this.parseMultiplicative());
+  }
+
+  private parseMultiplicative(): SqlExpression {
+    return this.parseBinaryLevel(["*", "/", "%", "DIV", "MOD"], () => this.parseBitXor());
+  }
+
+  private parseBitXor(): SqlExpression {
+    return this.parseBinaryLevel(["^"], () => this.parseUnary());
+  }
+
+  private parseUnary(): SqlExpression {
+    const token = this.peek();
+    if (token?.type === "operator" && ["-", "+", "~", "!"].includes(token.value)) {
+      this.next();
+      return { kind: "unary", operator: token.value, operand: this.parseUnary() };
+    }
+    if (this.acceptKeyword("BINARY")) {
+      return this.parseUnary();
+    }
+
+    let expr = this.parsePrimary();
+
+    while (true) {
+      if (this.acceptKeyword("COLLATE")) {
+        this.next();
+      } else if (this.isOperator("->") || this.isOperator("->>")) {
+        const operator = this.next().value;
+        expr = { kind: "binary", operator, left: expr, right: this.parsePrimary() };
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  parsePrimary(): SqlExpression {
+    const token = this.next();
+
+    switch (token.type) {
+      case "string": {
+        // Adjacent strings are concatenated: 'a' 'b'
+        let value = token.value;
+        while (this.peek()?.type === "string") {
+          value += this.next().value;
+        }
+        return { kind: "literal", value, literalType: "string" };
+      }
+      case "number":
+        return { kind: "literal", value: token.value, literalType: "number" };
+      case "placeholder":
+        return { kind: "placeholder", value: token.value };
+      case "variable":
+        return { kind: "variable", name: token.value };
+      case "operator":
+        if (token.value === "*") {
+          return { kind: "star", table: null };
+        }
+        if (token.value === "(") {
+          return this.parseParenthesized();
+        }
+        this.pos--;
+        return this.fail("Unexpected operator");
+      case "quoted":
+        return this.parseColumnOrCall(token);
+      case "word":
+        return this.parseWord(token);
+      case "comment":
+        // The parser is never given comment tokens
+        this.pos--;
+        return this.fail("Unexpected comment");
+    }
+  }
+
+  private parseParenthesized(): SqlExpression {
+    if (this.isKeyword("SELECT") || this.isKeyword("WITH")) {
+      const query = this.parseStatement();
+      this.expectOperator(")");
+      return { kind: "subquery", query };
+    }
+
+    const items: SqlExpression[] = [];
+    do {
+      items.push(this.parseExpression());
+    } while (this.acceptOperator(","));
+    this.expectOperator(")");
+
+    return items.length === 1 ? items[0] : { kind: "list", items };
+  }
+
+  private parseWord(token: SqlToken): SqlExpression {
+    switch (token.upper) {
+      case "NULL":
+        return { kind: "literal", value: "NULL", literalType: "null" };
+      case "TRUE":
+      case "FALSE":
+        return { kind: "literal", value: token.upper, literalType: "boolean" };
+      case "EXISTS": {
+        this.expectOperator("(");
+        const query = this.parseStatement();
+        this.expectOperator(")");
+        return { kind: "exists", query };
+      }
+      case "CASE":
+        return this.parseCase();
+      case "INTERVAL": {
+        const value = this.parseExpression();
+        this.next(); // Unit, e.g. DAY
+        return { kind: "function", name: "INTERVAL", args: [value] };
+      }
+      case "DATE":
+      case "TIME":
+      case "TIMESTAMP":
+        // Temporal literals: DATE '2024-01-01'
+        if (this.peek()?.type === "string") {
+          return { kind: "literal", value: this.next().value, literalType: "string" };
+        }
+        break;
+    }
+
+    if (VALUE_KEYWORDS.has(token.upper) && !this.isOperator("(")) {
+      return { kind: "literal", value: token.upper, literalType: "keyword" };
+    }
+
+    // Charset introducers: _utf8mb4'text'
+    if (token.value.startsWith("_") && this.peek()?.type === "string") {
+      return this.parsePrimary();
+    }
+
+    return this.parseColumnOrCall(token);
+  }
+
+  private parseCase(): SqlExpression {
+    const operand = this.isKeyword("WHEN") ? null : this.parseExpression();
+    const branches: SqlExpression[] = [];
+
+    while (this.acceptKeyword("WHEN")) {
+      branches.push(this.parseExpression());
+      this.expectKeyword("THEN");
+      branches.push(this.parseExpression());
+    }
+    if (this.acceptKeyword("ELSE")) {
+      branches.push(this.parseExpression());
+    }
+    this.expectKeyword("END");
+
+    return { kind: "case", operand, branches };
+  }
+
+  private parseColumnOrCall(token: SqlToken): SqlExpression {
+    if (token.type === "word" && this.isOperator("(")) {
+      return this.parseFunctionCall(token.value);
+    }
+
+    const parts = [token.value];
+    while (this.acceptOperator(".")) {
+      if (this.acceptOperator("*")) {
+        return { kind: "star", table: parts[parts.length - 1] };
+      }
+      parts.push(this.parseIdentifier());
+    }
+
+    // schema.table.column keeps the table part only
+    return {
+      kind: "column",
+      table: parts.length > 1 ? parts[parts.length - 2] : null,
+      column: parts[parts.length - 1],
+    };
+  }
+
+  /**
+   * Parse the arguments of a function call. Keyword-separated arguments, as in
+   * CAST(x AS CHAR), EXTRACT(DAY FROM x) or GROUP_CONCAT(x ORDER BY y SEPARATOR ','),
+   * keep their expressions and drop the keywords and type names.
+   */
+  private parseFunctionCall(name: string): SqlExpression {
+    const upperName = name.toUpperCase();
+    this.expectOperator("(");
+    const args: SqlExpression[] = [];
+
+    if (upperName === "EXTRACT") {
+      this.next(); // Unit
+      this.expectKeyword("FROM");
+    }
+
+    while (!this.acceptOperator(")")) {
+      if (
+        this.acceptKeyword("DISTINCT") ||
+        this.acceptKeyword("ALL") ||
+        this.acceptKeyword("LEADING") ||
+        this.acceptKeyword("TRAILING") ||
+        this.acceptKeyword("BOTH") ||
+        this.acceptOperator(",") ||
+        this.acceptKeyword("FROM") ||
+        this.acceptKeyword("FOR") ||
+        this.acceptKeyword("SEPARATOR") ||
+        this.acceptKeyword("ORDER", "BY") ||
+        this.acceptKeyword("ASC") ||
+        this.acceptKeyword("DESC")
+      ) {
+        continue;
+      }
+
+      // Type names, charsets and search modifiers are not expressions
+      if (
+        this.isKeyword("AS") ||
+        this.isKeyword("USING") ||
+        (this.isKeyword("IN") && !this.isOperator("(", 1)) ||
+        this.isKeyword("WITH")
+      ) {
+        this.skipUntilArgumentEnd();
+        continue;
+      }
+
+      args.push(this.parseExpression());
+    }
+
+    // Window functions: f(...) OVER (...) or OVER name
+    if (this.acceptKeyword("OVER")) {
+      if (this.isOperator("(")) {
+        this.skipParenthesized();
+      } else {
+        this.parseIdentifier();
+      }
+    }
+
+    return { kind: "function", name: upperName, args };
+  }
+
+  private skipUntilArgumentEnd(): void {
+    let depth = 0;
+    while (this.peek()) {
+      if (depth === 0 && (this.isOperator(",") || this.isOperator(")"))) {
+        return;
+      }
+      const token = this.next();
+      if (token.type === "operator" && token.value === "(") {
+        depth++;
+      } else if (token.type === "operator" && token.value === ")") {
+        depth--;
+      }
+    }
+  }
+}
+
+function getSourceName(source: SqlTableSource): string {
+  return source.kind === "table" ? (source.alias ?? source.name) : "";
+}
+
+function emptySelect(): SqlSelect {
+  return {
+    kind: "select",
+    with: [],
+    columns: [],
+    from: [],
+    where: null,
+    groupBy: [],
+    having: null,
+    orderBy: [],
+    compound: [],
+  };
+}
@@ -30,8 +30,59 @@ define( 'SIMPLE_SQL_QUERY_ANALYZER_FILE', __FILE__ );
 define( 'SIMPLE_SQL_QUERY_ANALYZER_DIR', plugin_dir_path( __FILE__ ) );
 define( 'SIMPLE_SQL_QUERY_ANALYZER_URL', plugin_dir_url( __FILE__ ) );
 
+add_action( 'init', 'simple_sql_query_analyzer_register_post_types' );
 add_action( 'admin_menu', 'simple_sql_query_analyzer_register_menu' );
 add_action( 'rest_api_init', 'simple_sql_query_analyzer_register_rest_endpoint' );
+add_action( 'init', 'simple_sql_query_analyzer_schedule_tracking' );
+add_action( 'simple_sql_query_analyzer_track_queries', 'simple_sql_query_analyzer_run_tracked_queries' );
+register_deactivation_hook( __FILE__, 'simple_sql_query_analyzer_unschedule_tracking' );
+
+// Query capture has to start before the rest of the request runs its queries.
+simple_sql_query_analyzer_maybe_start_capture();
+
+/**
+ * Register custom post types.
+ *
+ * Analysis reports and tracked queries are stored as private posts so that
+ * every administrator of the site can browse them from the dashboard.
+ *
+ * @return void
+ */
+function simple_sql_query_analyzer_register_post_types(): void {
+	register_post_type(
+		'ssqa_report',
+		array(
+			'labels'       => array(
+				'name'          => __( 'SQL Analysis Reports', 'simple-sql-query-analyzer' ),
+				'singular_name' => __( 'SQL Analysis Report', 'simple-sql-query-analyzer' ),
+			),
+			'public'       => false,
+			'show_ui'      => false,
+			'show_in_rest' => false,
+			'rewrite'      => false,
+			'query_var'    => false,
+			'can_export'   => false,
+			'supports'     => array( 'title', 'editor', 'author' ),
+		)
+	);
+
+	register_post_type(
+		'ssqa_tracked',
+		array(
+			'labels'       => array(
+				'name'          => __( 'Tracked SQL Queries', 'simple-sql-query-analyzer' ),
+				'singular_name' => __( 'Tracked SQL Query', 'simple-sql-query-analyzer' ),
+			),
+			'public'       => false,
+			'show_ui'      => false,
+			'show_in_rest' => false,
+			'rewrite'      => false,
+			'query_var'    => false,
+			'can_export'   => false,
+			'supports'     => array( 'title', 'editor', 'author' ),
+		)
+	);
+}
 
 /**
  * Register the admin menu.
@@ -114,6 +165,12 @@ function simple_sql_query_analyzer_enqueue_assets(): void {
 		'restRoot'        => rest_url(),
 		'restNonce'       => wp_create_nonce( 'wp_rest' ),
 		'analyzeEndpoint' => rest_url( 'simple-sql-query-analyzer/v1/analyze' ),
+		'whatIfEndpoint'  => rest_url( 'simple-sql-query-analyzer/v1/what-if-index' ),
+		'historyEndpoint' => rest_url( 'simple-sql-query-analyzer/v1/history' ),
+		'trackedEndpoint' => rest_url( 'simple-sql-query-analyzer/v1/tracked' ),
+		'captureEndpoint' => rest_url( 'simple-sql-query-analyzer/v1/capture' ),
+		'digestEndpoint'  => rest_url( 'simple-sql-query-analyzer/v1/digests' ),
+		'schemaEndpoint'  => rest_url( 'simple-sql-query-analyzer/v1/schema' ),
 		'version'         => SIMPLE_SQL_QUERY_ANALYZER_VERSION,
 	);
 
@@ -125,9 +182,10 @@ function simple_sql_query_analyzer_enqueue_assets(): void {
 }
 
 /**
- * Register REST API endpoint.
+ * Register REST API endpoints.
  *
- * Registers the analyze endpoint with WordPress REST API.
+ * Registers the analyze, what-if index, history, tracked query, query
+ * capture and statement digest endpoints with WordPress REST API.
  *
  * @return void
  */
@@ -142,30 +200,362 @@ function simple_sql_query_analyzer_register_rest_endpoint(): void {
 				return current_user_can( 'manage_options' );
 			},
 			'args'                => array(
-				'queries'         => array(
+				'queries'            => array(
 					'type'        => 'array',
 					'items'       => array(
 						'type'       => 'object',
 						'properties' => array(
-							'id'    => array( 'type' => 'string' ),
-							'label' => array( 'type' => 'string' ),
-							'query' => array( 'type' => 'string' ),
+							'id'      => array( 'type' => 'string' ),
+							'label'   => array( 'type' => 'string' ),
+							'query'   => array( 'type' => 'string' ),
+							'tables'  => array(
+								'type'  => 'array',
+								'items' => array( 'type' => 'string' ),
+							),
+							'aliases' => array( 'type' => 'object' ),
+							'columns' => array(
+								'type'  => 'array',
+								'items' => array( 'type' => 'object' ),
+							),
+							'binding' => array( 'type' => 'object' ),
 						),
 					),
 					'required'    => true,
 					'description' => 'Array of SQL queries to analyze',
 				),
-				'include_analyze' => array(
+				'include_analyze'    => array(
 					'type'        => 'boolean',
 					'required'    => false,
 					'default'     => false,
 					'description' => 'Whether to include ANALYZE results',
 				),
+				'include_json'       => array(
+					'type'        => 'boolean',
+					'required'    => false,
+					'default'     => false,
+					'description' => 'Whether to include EXPLAIN FORMAT=JSON plans',
+				),
+				'analyze_time_limit' => array(
+					'type'        => 'integer',
+					'required'    => false,
+					'default'     => 10000,
+					'minimum'     => 100,
+					'maximum'     => 600000,
+					'description' => 'Time limit for each execution of a query by ANALYZE, benchmarks or counter measurements, in milliseconds',
+				),
+				'benchmark_runs'     => array(
+					'type'        => 'integer',
+					'required'    => false,
+					'default'     => 0,
+					'minimum'     => 0,
+					'maximum'     => 100,
+					'description' => 'Number of measured runs of each SELECT query, 0 to skip benchmarking',
+				),
+				'benchmark_warmup'   => array(
+					'type'        => 'integer',
+					'required'    => false,
+					'default'     => 1,
+					'minimum'     => 0,
+					'maximum'     => 10,
+					'description' => 'Number of unmeasured warm-up runs before benchmarking',
+				),
+				'include_status'     => array(
+					'type'        => 'boolean',
+					'required'    => false,
+					'default'     => false,
+					'description' => 'Whether to run each SELECT query once and return its session status counter deltas',
+				),
+				'include_trace'      => array(
+					'type'        => 'boolean',
+					'required'    => false,
+					'default'     => false,
+					'description' => 'Whether to include the optimizer trace of each query',
+				),
+				'save_history'       => array(
+					'type'        => 'boolean',
+					'required'    => false,
+					'default'     => true,
+					'description' => 'Whether to save the report to the history',
+				),
+			),
+		)
+	);
+
+	register_rest_route(
+		'simple-sql-query-analyzer/v1',
+		'/what-if-index',
+		array(
+			'methods'             => 'POST',
+			'callback'            => 'simple_sql_query_analyzer_handle_what_if_request',
+			'permission_callback' => function () {
+				return current_user_can( 'manage_options' );
+			},
+			'args'                => array(
+				'query'   => array(
+					'type'        => 'string',
+					'required'    => true,
+					'description' => 'SQL query to explain with and without the index',
+				),
+				'table'   => array(
+					'type'        => 'string',
+					'required'    => true,
+					'description' => 'Table that receives the hypothetical index',
+				),
+				'columns' => array(
+					'type'        => 'array',
+					'items'       => array( 'type' => 'string' ),
+					'required'    => true,
+					'description' => 'Index columns in order, optionally with a prefix length, e.g. meta_value(191)',
+				),
+				'tables'  => array(
+					'type'        => 'array',
+					'items'       => array( 'type' => 'string' ),
+					'required'    => false,
+					'description' => 'Tables used by the query, as parsed by the dashboard',
+				),
+			),
+		)
+	);
+
+	register_rest_route(
+		'simple-sql-query-analyzer/v1',
+		'/history',
+		array(
+			array(
+				'methods'             => 'GET',
+				'callback'            => 'simple_sql_query_analyzer_handle_history_list_request',
+				'permission_callback' => function () {
+					return current_user_can( 'manage_options' );
+				},
+				'args'                => array(
+					'search' => array(
+						'type'        => 'string',
+						'required'    => false,
+						'default'     => '',
+						'description' => 'Search term matched against report titles and queries',
+					),
+					'page'   => array(
+						'type'        => 'integer',
+						'required'    => false,
+						'default'     => 1,
+						'minimum'     => 1,
+						'description' => 'Page of results',
+					),
+				),
+			),
+			array(
+				'methods'             => 'POST',
+				'callback'            => 'simple_sql_query_analyzer_handle_history_create_request',
+				'permission_callback' => function () {
+					return current_user_can( 'manage_options' );
+				},
+				'args'                => array(
+					'queries' => array(
+						'type'        => 'array',
+						'items'       => array( 'type' => 'object' ),
+						'required'    => true,
+						'description' => 'Query results analyzed one request at a time',
+					),
+				),
+			),
+		)
+	);
+
+	register_rest_route(
+		'simple-sql-query-analyzer/v1',
+		'/history/(?P<id>\\d+)',
+		array(
+			array(
+				'methods'             => 'GET',
+				'callback'            => 'simple_sql_query_analyzer_handle_history_get_request',
+				'permission_callback' => function () {
+					return current_user_can( 'manage_options' );
+				},
+			),
+			array(
+				'methods'             => 'DELETE',
+				'callback'            => 'simple_sql_query_analyzer_handle_history_delete_request',
+				'permission_callback' => function () {
+					return current_user_can( 'manage_options' );
+				},
+			),
+		)
+	);
+
+	register_rest_route(
+		'simple-sql-query-analyzer/v1',
+		'/tracked',
+		array(
+			array(
+				'methods'             => 'GET',
+				'callback'            => 'simple_sql_query_analyzer_handle_tracked_list_request',
+				'permission_callback' => function () {
+					return current_user_can( 'manage_options' );
+				},
+			),
+			array(
+				'methods'             => 'POST',
+				'callback'            => 'simple_sql_query_analyzer_handle_track_request',
+				'permission_callback' => function () {
+					return current_user_can( 'manage_options' );
+				},
+				'args'                => array(
+					'label' => array(
+						'type'        => 'string',
+						'required'    => false,
+						'default'     => '',
+						'description' => 'Label of the tracked query',
+					),
+					'query' => array(
+						'type'        => 'string',
+						'required'    => true,
+						'description' => 'SQL query to re-explain on a schedule',
+					),
+				),
+			),
+		)
+	);
+
+	register_rest_route(
+		'simple-sql-query-analyzer/v1',
+		'/tracked/(?P<id>\\d+)',
+		array(
+			'methods'             => 'DELETE',
+			'callback'            => 'simple_sql_query_analyzer_handle_untrack_request',
+			'permission_callback' => function () {
+				return current_user_can( 'manage_options' );
+			},
+		)
+	);
+
+	register_rest_route(
+		'simple-sql-query-analyzer/v1',
+		'/tracked/(?P<id>\\d+)/run',
+		array(
+			'methods'             => 'POST',
+			'callback'            => 'simple_sql_query_analyzer_handle_tracked_run_request',
+			'permission_callback' => function () {
+				return current_user_can( 'manage_options' );
+			},
+		)
+	);
+
+	register_rest_route(
+		'simple-sql-query-analyzer/v1',
+		'/capture',
+		array(
+			array(
+				'methods'             => 'GET',
+				'callback'            => 'simple_sql_query_analyzer_handle_capture_get_request',
+				'permission_callback' => function () {
+					return current_user_can( 'manage_options' );
+				},
+			),
+			array(
+				'methods'             => 'POST',
+				'callback'            => 'simple_sql_query_analyzer_handle_capture_start_request',
+				'permission_callback' => function () {
+					return current_user_can( 'manage_options' );
+				},
+				'args'                => array(
+					'url_pattern' => array(
+						'type'        => 'string',
+						'required'    => false,
+						'default'     => '',
+						'description' => 'Only capture requests whose URL contains this text; empty captures all requests',
+					),
+					'minutes'     => array(
+						'type'        => 'integer',
+						'required'    => false,
+						'default'     => 10,
+						'minimum'     => 1,
+						'maximum'     => 1440,
+						'description' => 'How long to keep capturing',
+					),
+				),
+			),
+			array(
+				'methods'             => 'DELETE',
+				'callback'            => 'simple_sql_query_analyzer_handle_capture_stop_request',
+				'permission_callback' => function () {
+					return current_user_can( 'manage_options' );
+				},
+				'args'                => array(
+					'clear' => array(
+						'type'        => 'boolean',
+						'required'    => false,
+						'default'     => false,
+						'description' => 'Also delete the captured queries',
+					),
+				),
+			),
+		)
+	);
+
+	register_rest_route(
+		'simple-sql-query-analyzer/v1',
+		'/digests',
+		array(
+			'methods'             => 'GET',
+			'callback'            => 'simple_sql_query_analyzer_handle_digest_request',
+			'permission_callback' => function () {
+				return current_user_can( 'manage_options' );
+			},
+			'args'                => array(
+				'limit' => array(
+					'type'        => 'integer',
+					'required'    => false,
+					'default'     => 25,
+					'minimum'     => 1,
+					'maximum'     => 500,
+					'description' => 'Number of statement digests to return, by total time',
+				),
+			),
+		)
+	);
+
+	register_rest_route(
+		'simple-sql-query-analyzer/v1',
+		'/schema',
+		array(
+			'methods'             => 'GET',
+			'callback'            => 'simple_sql_query_analyzer_handle_schema_request',
+			'permission_callback' => function () {
+				return current_user_can( 'manage_options' );
+			},
+			'args'                => array(
+				'details' => array(
+					'type'        => 'boolean',
+					'required'    => false,
+					'default'     => false,
+					'description' => 'Whether to include table statistics and indexes',
+				),
 			),
 		)
 	);
 }
 
+/**
+ * Verify the REST nonce of a request.
+ *
+ * @param \WP_REST_Request<array<string, mixed>> $request The REST request object.
+ * @return \WP_REST_Response|null Error response if verification fails, null otherwise.
+ */
+function simple_sql_query_analyzer_verify_rest_nonce( $request ) {
+	$nonce = $request->get_header( 'X-WP-Nonce' );
+	if ( ! $nonce || ! wp_verify_nonce( $nonce, 'wp_rest' ) ) {
+		return new \WP_REST_Response(
+			array(
+				'success' => false,
+				'message' => __( 'Security verification failed. Please refresh the page.', 'simple-sql-query-analyzer' ),
+			),
+			403
+		);
+	}
+
+	return null;
+}
+
 /**
  * Handle REST API request.
  *
@@ -176,19 +566,22 @@ function simple_sql_query_analyzer_register_rest_endpoint(): void {
  */
 function simple_sql_query_analyzer_handle_request( $request ) {
 	try {
-		$nonce = $request->get_header( 'X-WP-Nonce' );
-		if ( ! $nonce || ! wp_verify_nonce( $nonce, 'wp_rest' ) ) {
-			return new \WP_REST_Response(
-				array(
-					'success' => false,
-					'message' => __( 'Security verification failed. Please refresh the page.', 'simple-sql-query-analyzer' ),
-				),
-				403
-			);
+		$nonce_error = simple_sql_query_analyzer_verify_rest_nonce( $request );
+		if ( $nonce_error ) {
+			return $nonce_error;
 		}
 
 		$queries         = $request->get_param( 'queries' );
 		$include_analyze = (bool) $request->get_param( 'include_analyze' );
+		$include_json    = (bool) $request->get_param( 'include_json' );
+		$time_limit      = (int) $request->get_param( 'analyze_time_limit' );
+		$save_history    = (bool) $request->get_param( 'save_history' );
+		$include_status  = (bool) $request->get_param( 'include_status' );
+		$include_trace   = (bool) $request->get_param( 'include_trace' );
+		$benchmark       = array(
+			'runs'   => (int) $request->get_param( 'benchmark_runs' ),
+			'warmup' => (int) $request->get_param( 'benchmark_warmup' ),
+		);
 
 		if ( empty( $queries ) || ! is_array( $queries ) ) {
 			return new \WP_REST_Response(
@@ -200,22 +593,25 @@ function simple_sql_query_analyzer_handle_request( $request ) {
 			);
 		}
 
-		$results = simple_sql_query_analyzer_analyze_queries( $queries, $include_analyze );
+		$results = simple_sql_query_analyzer_analyze_queries( $queries, $include_analyze, $include_json, $time_limit, $benchmark, $include_status, $include_trace );
 
-		return new \WP_REST_Response(
-			array(
-				'success'         => true,
-				'message'         => sprintf(
-					/* translators: %d = number of queries */
-					__( 'Analyzed %d queries successfully.', 'simple-sql-query-analyzer' ),
-					count( $results['queries'] )
-				),
-				'queries'         => $results['queries'],
-				'summary'         => $results['summary'],
-				'complete_output' => $results['complete_output'],
+		$response = array(
+			'success'         => true,
+			'message'         => sprintf(
+				/* translators: %d = number of queries */
+				__( 'Analyzed %d queries successfully.', 'simple-sql-query-analyzer' ),
+				count( $results['queries'] )
 			),
-			200
+			'queries'         => $results['queries'],
+			'summary'         => $results['summary'],
+			'complete_output' => $results['complete_output'],
+			'server'          => simple_sql_query_analyzer_get_server_info(),
 		);
+
+		// The dashboard analyzes one query per request and saves the whole report at the end.
+		$response['history_id'] = $save_history ? simple_sql_query_analyzer_save_report( $response ) : null;
+
+		return new \WP_REST_Response( $response, 200 );
 	} catch ( \Exception $e ) {
 		return new \WP_REST_Response(
 			array(
@@ -229,239 +625,2412 @@ function simple_sql_query_analyzer_handle_request( $request ) {
 }
 
 /**
- * Validate SQL query.
+ * Handle what-if index REST API request.
  *
- * Ensures only a single query is executed (no stacked queries) and blocks
- * dangerous functions. Allows all query types (SELECT, INSERT, UPDATE, DELETE)
- * since EXPLAIN prefix prevents actual data modification.
+ * Tests a hypothetical index and returns the plans with and without it.
  *
- * @param string $query The SQL query to validate.
- * @return bool True if query is safe for analysis.
+ * @param \WP_REST_Request<array<string, mixed>> $request The REST request object.
+ * @return \WP_REST_Response The REST API response.
  */
-function simple_sql_query_analyzer_validate_query( string $query ): bool {
-	$query = trim( $query );
-
-	// Remove SQL comments that could hide malicious code.
-	$clean_query = (string) preg_replace( '/--.*$/m', '', $query );
-	$clean_query = (string) preg_replace( '|/\*.*?\*/|s', '', $clean_query );
-	$clean_query = trim( $clean_query );
-
-	// Block semicolons to prevent stacked queries (multi-statement attacks).
-	// This must be checked AFTER removing comments to catch hidden semicolons.
-	if ( strpos( $clean_query, ';' ) !== false ) {
-		return false;
-	}
+function simple_sql_query_analyzer_handle_what_if_request( $request ) {
+	try {
+		$nonce_error = simple_sql_query_analyzer_verify_rest_nonce( $request );
+		if ( $nonce_error ) {
+			return $nonce_error;
+		}
 
-	// Block dangerous functions that could cause harm even in single queries.
-	$dangerous_patterns = array(
-		'/INTO\s+OUTFILE/i',  // File write.
-		'/INTO\s+DUMPFILE/i', // File write.
-		'/LOAD_FILE\s*\(/i',  // File read.
-		'/BENCHMARK\s*\(/i',  // DoS.
-		'/SLEEP\s*\(/i',      // DoS.
-	);
+		$query   = trim( (string) $request->get_param( 'query' ) );
+		$table   = (string) $request->get_param( 'table' );
+		$columns = $request->get_param( 'columns' );
 
-	foreach ( $dangerous_patterns as $pattern ) {
-		if ( preg_match( $pattern, $clean_query ) ) {
-			return false;
+		if ( '' === $query || '' === $table || empty( $columns ) || ! is_array( $columns ) ) {
+			return new \WP_REST_Response(
+				array(
+					'success' => false,
+					'message' => __( 'A query, a table and at least one column are required', 'simple-sql-query-analyzer' ),
+				),
+				400
+			);
 		}
-	}
 
-	return true;
-}
+		if ( ! simple_sql_query_analyzer_validate_query( $query ) ) {
+			return new \WP_REST_Response(
+				array(
+					'success' => false,
+					'message' => __( 'Query blocked: contains stacked queries (semicolons) or dangerous functions', 'simple-sql-query-analyzer' ),
+				),
+				400
+			);
+		}
 
-/**
- * Extract table names from query.
- *
- * Parses a SQL query to extract all table names referenced.
- *
- * @param string $query The SQL query to parse.
- * @return array<int, string> Array of table names found in query.
- */
-function simple_sql_query_analyzer_extract_table_names( string $query ): array {
-	$tables = array();
+		$result = simple_sql_query_analyzer_test_hypothetical_index( $query, $table, array_map( 'strval', $columns ), $request->get_param( 'tables' ) );
 
-	// Remove SQL comments.
-	$query = (string) preg_replace( '/--.*$/m', '', $query );
+		return new \WP_REST_Response(
+			array_merge(
+				array(
+					'success' => true,
+					'message' => $result['index_used']
+						? __( 'The optimizer chose the hypothetical index.', 'simple-sql-query-analyzer' )
+						: __( 'The optimizer did not choose the hypothetical index.', 'simple-sql-query-analyzer' ),
+				),
+				$result
+			),
+			200
+		);
+	} catch ( \Exception $e ) {
+		return new \WP_REST_Response(
+			array(
+				'success' => false,
+				/* translators: %s = error message from exception */
+				'message' => wp_kses_post( sprintf( __( 'What-if index error: %s', 'simple-sql-query-analyzer' ), $e->getMessage() ) ),
+			),
+			500
+		);
+	}
+}
+
+/**
+ * Save an analysis response to the history.
+ *
+ * @param array<string, mixed> $response The analysis response returned to the dashboard.
+ * @return int|null The report ID, or null if it could not be saved.
+ */
+function simple_sql_query_analyzer_save_report( array $response ): ?int {
+	global $wpdb;
+
+	$queries = $response['queries'] ?? array();
+	$labels  = array_map(
+		function ( $query ) {
+			return $query['label'];
+		},
+		$queries
+	);
+
+	$post_id = wp_insert_post(
+		wp_slash(
+			array(
+				'post_type'    => 'ssqa_report',
+				'post_status'  => 'private',
+				'post_title'   => implode( ', ', $labels ),
+				// Query text is kept in the content so that it can be searched.
+				'post_content' => implode(
+					"\n\n",
+					array_map(
+						function ( $query ) {
+							return $query['query'];
+						},
+						$queries
+					)
+				),
+				'post_author'  => get_current_user_id(),
+				'meta_input'   => array(
+					'_ssqa_response'    => wp_json_encode( $response ),
+					'_ssqa_db_version'  => $wpdb->db_version(),
+					'_ssqa_query_count' => count( $queries ),
+				),
+			)
+		),
+		true
+	);
+
+	return is_wp_error( $post_id ) ? null : (int) $post_id;
+}
+
+/**
+ * Format a stored report as a history entry.
+ *
+ * @param \WP_Post $post The report post.
+ * @return array<string, mixed> History entry without the report itself.
+ */
+function simple_sql_query_analyzer_format_history_entry( \WP_Post $post ): array {
+	$author = get_userdata( (int) $post->post_author );
+
+	return array(
+		'id'          => $post->ID,
+		'title'       => $post->post_title,
+		'created_at'  => get_post_time( 'c', true, $post ),
+		'author'      => $author ? $author->display_name : '',
+		'db_version'  => (string) get_post_meta( $post->ID, '_ssqa_db_version', true ),
+		'query_count' => (int) get_post_meta( $post->ID, '_ssqa_query_count', true ),
+	);
+}
+
+/**
+ * Get a stored report post by ID.
+ *
+ * @param int $id The report ID.
+ * @return \WP_Post|null The report post, or null if it does not exist.
+ */
+function simple_sql_query_analyzer_get_report_post( int $id ): ?\WP_Post {
+	$post = get_post( $id );
+
+	return ( $post instanceof \WP_Post && 'ssqa_report' === $post->post_type ) ? $post : null;
+}
+
+/**
+ * Handle history create REST API request.
+ *
+ * Saves a report assembled by the dashboard from queries it analyzed one
+ * request at a time, with the summary and text output rebuilt on the server.
+ *
+ * @param \WP_REST_Request<array<string, mixed>> $request The REST request object.
+ * @return \WP_REST_Response The REST API response.
+ */
+function simple_sql_query_analyzer_handle_history_create_request( $request ) {
+	$nonce_error = simple_sql_query_analyzer_verify_rest_nonce( $request );
+	if ( $nonce_error ) {
+		return $nonce_error;
+	}
+
+	$queries = array_values(
+		array_filter(
+			(array) $request->get_param( 'queries' ),
+			function ( $query ) {
+				return is_array( $query ) && isset( $query['id'], $query['label'], $query['query'] ) && is_string( $query['query'] );
+			}
+		)
+	);
+
+	if ( empty( $queries ) ) {
+		return new \WP_REST_Response(
+			array(
+				'success' => false,
+				'message' => __( 'At least one query is required', 'simple-sql-query-analyzer' ),
+			),
+			400
+		);
+	}
+
+	$results  = simple_sql_query_analyzer_build_report( $queries );
+	$response = array(
+		'success'         => true,
+		'message'         => sprintf(
+			/* translators: %d = number of queries */
+			__( 'Analyzed %d queries successfully.', 'simple-sql-query-analyzer' ),
+			count( $results['queries'] )
+		),
+		'queries'         => $results['queries'],
+		'summary'         => $results['summary'],
+		'complete_output' => $results['complete_output'],
+		'server'          => simple_sql_query_analyzer_get_server_info(),
+	);
+
+	$response['history_id'] = simple_sql_query_analyzer_save_report( $response );
+
+	return new \WP_REST_Response( $response, 200 );
+}
+
+/**
+ * Handle history list REST API request.
+ *
+ * @param \WP_REST_Request<array<string, mixed>> $request The REST request object.
+ * @return \WP_REST_Response The REST API response.
+ */
+function simple_sql_query_analyzer_handle_history_list_request( $request ) {
+	$nonce_error = simple_sql_query_analyzer_verify_rest_nonce( $request );
+	if ( $nonce_error ) {
+		return $nonce_error;
+	}
+
+	$query = new \WP_Query(
+		array(
+			'post_type'      => 'ssqa_report',
+			'post_status'    => 'private',
+			's'              => (string) $request->get_param( 'search' ),
+			'paged'          => (int) $request->get_param( 'page' ),
+			'posts_per_page' => 20,
+			'orderby'        => 'date',
+			'order'          => 'DESC',
+		)
+	);
+
+	return new \WP_REST_Response(
+		array(
+			'success' => true,
+			'items'   => array_map( 'simple_sql_query_analyzer_format_history_entry', $query->posts ),
+			'total'   => (int) $query->found_posts,
+			'pages'   => (int) $query->max_num_pages,
+		),
+		200
+	);
+}
+
+/**
+ * Handle history get REST API request.
+ *
+ * @param \WP_REST_Request<array<string, mixed>> $request The REST request object.
+ * @return \WP_REST_Response The REST API response.
+ */
+function simple_sql_query_analyzer_handle_history_get_request( $request ) {
+	$nonce_error = simple_sql_query_analyzer_verify_rest_nonce( $request );
+	if ( $nonce_error ) {
+		return $nonce_error;
+	}
+
+	$post = simple_sql_query_analyzer_get_report_post( (int) $request->get_param( 'id' ) );
+	if ( ! $post ) {
+		return new \WP_REST_Response(
+			array(
+				'success' => false,
+				'message' => __( 'Report not found.', 'simple-sql-query-analyzer' ),
+			),
+			404
+		);
+	}
+
+	$report = json_decode( (string) get_post_meta( $post->ID, '_ssqa_response', true ), true );
+
+	return new \WP_REST_Response(
+		array(
+			'success' => true,
+			'entry'   => simple_sql_query_analyzer_format_history_entry( $post ),
+			'report'  => $report,
+		),
+		200
+	);
+}
+
+/**
+ * Handle history delete REST API request.
+ *
+ * @param \WP_REST_Request<array<string, mixed>> $request The REST request object.
+ * @return \WP_REST_Response The REST API response.
+ */
+function simple_sql_query_analyzer_handle_history_delete_request( $request ) {
+	$nonce_error = simple_sql_query_analyzer_verify_rest_nonce( $request );
+	if ( $nonce_error ) {
+		return $nonce_error;
+	}
+
+	$post = simple_sql_query_analyzer_get_report_post( (int) $request->get_param( 'id' ) );
+	if ( ! $post ) {
+		return new \WP_REST_Response(
+			array(
+				'success' => false,
+				'message' => __( 'Report not found.', 'simple-sql-query-analyzer' ),
+			),
+			404
+		);
+	}
+
+	wp_delete_post( $post->ID, true );
+
+	return new \WP_REST_Response(
+		array(
+			'success' => true,
+			'message' => __( 'Report deleted.', 'simple-sql-query-analyzer' ),
+		),
+		200
+	);
+}
+
+/**
+ * Schedule the daily re-run of tracked queries.
+ *
+ * @return void
+ */
+function simple_sql_query_analyzer_schedule_tracking(): void {
+	if ( ! wp_next_scheduled( 'simple_sql_query_analyzer_track_queries' ) ) {
+		wp_schedule_event( time(), 'daily', 'simple_sql_query_analyzer_track_queries' );
+	}
+}
+
+/**
+ * Remove the tracked queries schedule when the plugin is deactivated.
+ *
+ * @return void
+ */
+function simple_sql_query_analyzer_unschedule_tracking(): void {
+	wp_clear_scheduled_hook( 'simple_sql_query_analyzer_track_queries' );
+}
+
+/**
+ * Re-run EXPLAIN on every tracked query and store a sample for each.
+ *
+ * @return void
+ */
+function simple_sql_query_analyzer_run_tracked_queries(): void {
+	$posts = get_posts(
+		array(
+			'post_type'      => 'ssqa_tracked',
+			'post_status'    => 'private',
+			'posts_per_page' => -1,
+		)
+	);
+
+	foreach ( $posts as $post ) {
+		simple_sql_query_analyzer_sample_tracked_query( $post );
+	}
+}
+
+/**
+ * Explain a tracked query and store its cost, estimated rows and plan shape.
+ *
+ * The plan shape is the EXPLAIN tree with all cost and row estimates removed,
+ * so that its hash only changes when the optimizer picks a different plan.
+ *
+ * @param \WP_Post $post The tracked query post.
+ * @return array<string, mixed> The stored sample.
+ */
+function simple_sql_query_analyzer_sample_tracked_query( \WP_Post $post ): array {
+	$sample = array(
+		'time'       => gmdate( 'c' ),
+		'cost'       => null,
+		'rows'       => null,
+		'shape'      => '',
+		'shape_hash' => '',
+		'error'      => null,
+	);
+
+	try {
+		$explain      = simple_sql_query_analyzer_execute_explain( $post->post_content );
+		$explain_text = simple_sql_query_analyzer_format_plan_text( $explain );
+
+		if ( '' === $explain_text ) {
+			throw new \Exception( wp_kses_post( __( 'EXPLAIN returned no plan', 'simple-sql-query-analyzer' ) ) );
+		}
+
+		if ( preg_match( '/cost=([0-9.e+]+)/', $explain_text, $matches ) ) {
+			$sample['cost'] = floatval( $matches[1] );
+		}
+		if ( preg_match( '/rows=([0-9.e+]+)/', $explain_text, $matches ) ) {
+			$sample['rows'] = floatval( $matches[1] );
+		}
+
+		// Tabular plans carry their estimates in the rows and filtered columns.
+		$shape_rows = array_map(
+			function ( $row ) {
+				return array_diff_key( $row, array_flip( array( 'rows', 'filtered' ) ) );
+			},
+			$explain
+		);
+
+		$sample['shape']      = trim( (string) preg_replace( '/\s*\((?:cost|rows|actual|never)[^)]*\)/', '', simple_sql_query_analyzer_format_plan_text( $shape_rows ) ) );
+		$sample['shape_hash'] = md5( $sample['shape'] );
+	} catch ( \Exception $e ) {
+		$sample['error'] = $e->getMessage();
+	}
+
+	add_post_meta( $post->ID, '_ssqa_sample', wp_slash( (string) wp_json_encode( $sample ) ) );
+
+	return $sample;
+}
+
+/**
+ * Get a tracked query post by ID.
+ *
+ * @param int $id The tracked query ID.
+ * @return \WP_Post|null The tracked query post, or null if it does not exist.
+ */
+function simple_sql_query_analyzer_get_tracked_post( int $id ): ?\WP_Post {
+	$post = get_post( $id );
+
+	return ( $post instanceof \WP_Post && 'ssqa_tracked' === $post->post_type ) ? $post : null;
+}
+
+/**
+ * Format a tracked query with all of its samples, oldest first.
+ *
+ * @param \WP_Post $post The tracked query post.
+ * @return array<string, mixed> Tracked query.
+ */
+function simple_sql_query_analyzer_format_tracked_query( \WP_Post $post ): array {
+	$samples = array_values(
+		array_filter(
+			array_map(
+				function ( $sample ) {
+					return json_decode( (string) $sample, true );
+				},
+				get_post_meta( $post->ID, '_ssqa_sample' )
+			)
+		)
+	);
+
+	return array(
+		'id'         => $post->ID,
+		'label'      => $post->post_title,
+		'query'      => $post->post_content,
+		'created_at' => get_post_time( 'c', true, $post ),
+		'samples'    => $samples,
+	);
+}
+
+/**
+ * Handle tracked query list REST API request.
+ *
+ * @param \WP_REST_Request<array<string, mixed>> $request The REST request object.
+ * @return \WP_REST_Response The REST API response.
+ */
+function simple_sql_query_analyzer_handle_tracked_list_request( $request ) {
+	$nonce_error = simple_sql_query_analyzer_verify_rest_nonce( $request );
+	if ( $nonce_error ) {
+		return $nonce_error;
+	}
+
+	$posts = get_posts(
+		array(
+			'post_type'      => 'ssqa_tracked',
+			'post_status'    => 'private',
+			'posts_per_page' => -1,
+			'orderby'        => 'title',
+			'order'          => 'ASC',
+		)
+	);
+
+	return new \WP_REST_Response(
+		array(
+			'success' => true,
+			'tracked' => array_map( 'simple_sql_query_analyzer_format_tracked_query', $posts ),
+		),
+		200
+	);
+}
+
+/**
+ * Handle track query REST API request.
+ *
+ * Stores the query for scheduled re-runs and takes a first sample right away.
+ *
+ * @param \WP_REST_Request<array<string, mixed>> $request The REST request object.
+ * @return \WP_REST_Response The REST API response.
+ */
+function simple_sql_query_analyzer_handle_track_request( $request ) {
+	$nonce_error = simple_sql_query_analyzer_verify_rest_nonce( $request );
+	if ( $nonce_error ) {
+		return $nonce_error;
+	}
+
+	$query = trim( (string) $request->get_param( 'query' ) );
+	$label = trim( (string) $request->get_param( 'label' ) );
+
+	if ( '' === $query || ! simple_sql_query_analyzer_validate_query( $query ) ) {
+		return new \WP_REST_Response(
+			array(
+				'success' => false,
+				'message' => __( 'Query blocked: contains stacked queries (semicolons) or dangerous functions', 'simple-sql-query-analyzer' ),
+			),
+			400
+		);
+	}
+
+	$post_id = wp_insert_post(
+		wp_slash(
+			array(
+				'post_type'    => 'ssqa_tracked',
+				'post_status'  => 'private',
+				'post_title'   => '' !== $label ? $label : __( 'Untitled query', 'simple-sql-query-analyzer' ),
+				'post_content' => $query,
+				'post_author'  => get_current_user_id(),
+			)
+		),
+		true
+	);
+
+	$post = is_wp_error( $post_id ) ? null : simple_sql_query_analyzer_get_tracked_post( $post_id );
+	if ( ! $post ) {
+		return new \WP_REST_Response(
+			array(
+				'success' => false,
+				'message' => is_wp_error( $post_id ) ? $post_id->get_error_message() : __( 'The query could not be tracked.', 'simple-sql-query-analyzer' ),
+			),
+			500
+		);
+	}
+
+	simple_sql_query_analyzer_sample_tracked_query( $post );
+
+	return new \WP_REST_Response(
+		array(
+			'success' => true,
+			'message' => __( 'Query is now tracked. Its plan will be re-checked daily.', 'simple-sql-query-analyzer' ),
+			'tracked' => simple_sql_query_analyzer_format_tracked_query( $post ),
+		),
+		200
+	);
+}
+
+/**
+ * Handle untrack query REST API request.
+ *
+ * @param \WP_REST_Request<array<string, mixed>> $request The REST request object.
+ * @return \WP_REST_Response The REST API response.
+ */
+function simple_sql_query_analyzer_handle_untrack_request( $request ) {
+	$nonce_error = simple_sql_query_analyzer_verify_rest_nonce( $request );
+	if ( $nonce_error ) {
+		return $nonce_error;
+	}
+
+	$post = simple_sql_query_analyzer_get_tracked_post( (int) $request->get_param( 'id' ) );
+	if ( ! $post ) {
+		return new \WP_REST_Response(
+			array(
+				'success' => false,
+				'message' => __( 'Tracked query not found.', 'simple-sql-query-analyzer' ),
+			),
+			404
+		);
+	}
+
+	wp_delete_post( $post->ID, true );
+
+	return new \WP_REST_Response(
+		array(
+			'success' => true,
+			'message' => __( 'Query is no longer tracked.', 'simple-sql-query-analyzer' ),
+		),
+		200
+	);
+}
+
+/**
+ * Handle tracked query run REST API request.
+ *
+ * Takes a sample immediately instead of waiting for the next scheduled run.
+ *
+ * @param \WP_REST_Request<array<string, mixed>> $request The REST request object.
+ * @return \WP_REST_Response The REST API response.
+ */
+function simple_sql_query_analyzer_handle_tracked_run_request( $request ) {
+	$nonce_error = simple_sql_query_analyzer_verify_rest_nonce( $request );
+	if ( $nonce_error ) {
+		return $nonce_error;
+	}
+
+	$post = simple_sql_query_analyzer_get_tracked_post( (int) $request->get_param( 'id' ) );
+	if ( ! $post ) {
+		return new \WP_REST_Response(
+			array(
+				'success' => false,
+				'message' => __( 'Tracked query not found.', 'simple-sql-query-analyzer' ),
+			),
+			404
+		);
+	}
+
+	simple_sql_query_analyzer_sample_tracked_query( $post );
+
+	return new \WP_REST_Response(
+		array(
+			'success' => true,
+			'tracked' => simple_sql_query_analyzer_format_tracked_query( $post ),
+		),
+		200
+	);
+}
+
+/**
+ * Start recording queries if a capture session is active for this request.
+ *
+ * Defining SAVEQUERIES makes $wpdb keep every query with its caller stack and
+ * time; the queries are collected on shutdown. Requests to the plugin's own
+ * REST API are never captured.
+ *
+ * @return void
+ */
+function simple_sql_query_analyzer_maybe_start_capture(): void {
+	$settings = simple_sql_query_analyzer_get_capture_settings();
+	if ( ! $settings['active'] ) {
+		return;
+	}
+
+	$url = isset( $_SERVER['REQUEST_URI'] ) ? sanitize_text_field( wp_unslash( $_SERVER['REQUEST_URI'] ) ) : '';
+	if ( false !== strpos( $url, 'simple-sql-query-analyzer' ) ) {
+		return;
+	}
+	if ( '' !== $settings['url_pattern'] && false === strpos( $url, $settings['url_pattern'] ) ) {
+		return;
+	}
+
+	// Another plugin or wp-config.php may already record queries.
+	if ( ! defined( 'SAVEQUERIES' ) ) {
+		define( 'SAVEQUERIES', true );
+	}
+	if ( ! SAVEQUERIES ) {
+		return;
+	}
+
+	add_action(
+		'shutdown',
+		function () use ( $url ) {
+			simple_sql_query_analyzer_collect_captured_queries( $url );
+		},
+		PHP_INT_MAX
+	);
+}
+
+/**
+ * Get the query capture settings.
+ *
+ * The settings are read on every request, so they are stored autoloaded and
+ * the check costs no query of its own. A missing option would cost one, so the
+ * option is added the first time it is found missing and never deleted.
+ *
+ * @return array{active: bool, url_pattern: string, expires: int} Capture settings.
+ */
+function simple_sql_query_analyzer_get_capture_settings(): array {
+	if ( ! array_key_exists( 'simple_sql_query_analyzer_capture', wp_load_alloptions() ) ) {
+		// Earlier versions saved the option without autoloading it.
+		if ( ! add_option( 'simple_sql_query_analyzer_capture', array(), '', true ) ) {
+			wp_set_option_autoload( 'simple_sql_query_analyzer_capture', true );
+		}
+	}
+
+	$settings = get_option( 'simple_sql_query_analyzer_capture', array() );
+	$expires  = (int) ( $settings['expires'] ?? 0 );
+
+	return array(
+		'active'      => $expires > time(),
+		'url_pattern' => (string) ( $settings['url_pattern'] ?? '' ),
+		'expires'     => $expires,
+	);
+}
+
+/**
+ * Reduce a query to its fingerprint by replacing literal values.
+ *
+ * Queries that only differ in their values are grouped under one fingerprint.
+ *
+ * @param string $query The SQL query.
+ * @return string The query fingerprint.
+ */
+function simple_sql_query_analyzer_get_query_fingerprint( string $query ): string {
+	$fingerprint = preg_replace(
+		array(
+			"/'(?:[^'\\\\]|\\\\.|'')*'/",
+			'/"(?:[^"\\\\]|\\\\.)*"/',
+			'/\b\d+(?:\.\d+)?\b/',
+			'/\(\s*\?(?:\s*,\s*\?)+\s*\)/',
+			'/\s+/',
+		),
+		array( '?', '?', '?', '(?+)', ' ' ),
+		$query
+	);
+
+	return trim( (string) $fingerprint );
+}
+
+/**
+ * Get the name of the table that holds the captured queries.
+ *
+ * @return string The table name.
+ */
+function simple_sql_query_analyzer_get_capture_table(): string {
+	global $wpdb;
+
+	return $wpdb->prefix . 'ssqa_captured_queries';
+}
+
+/**
+ * Create the table that holds the captured queries, if it does not exist yet.
+ *
+ * Each captured request adds its own rows, one per query fingerprint, so that
+ * concurrent requests never overwrite each other's counts. The rows are merged
+ * when the captured queries are read.
+ *
+ * @return void
+ */
+function simple_sql_query_analyzer_create_capture_table(): void {
+	global $wpdb;
+
+	$table   = simple_sql_query_analyzer_get_capture_table();
+	$collate = $wpdb->get_charset_collate();
+
+	// phpcs:ignore WordPress.DB.PreparedSQL.InterpolatedNotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching,WordPress.DB.DirectDatabaseQuery.SchemaChange -- Table name built from $wpdb->prefix.
+	$wpdb->query(
+		"CREATE TABLE IF NOT EXISTS `$table` (
+			id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+			query_hash CHAR(32) NOT NULL,
+			fingerprint LONGTEXT NOT NULL,
+			query LONGTEXT NOT NULL,
+			count INT UNSIGNED NOT NULL,
+			total_time DOUBLE NOT NULL,
+			max_time DOUBLE NOT NULL,
+			callers TEXT NOT NULL,
+			url TEXT NOT NULL,
+			captured_at BIGINT UNSIGNED NOT NULL,
+			PRIMARY KEY (id),
+			KEY query_hash (query_hash)
+		) $collate"
+	);
+}
+
+/**
+ * Store the queries $wpdb recorded during this request as captured queries.
+ *
+ * The queries are grouped by fingerprint and written in a single INSERT.
+ *
+ * @param string $url The URL of the captured request.
+ * @return void
+ */
+function simple_sql_query_analyzer_collect_captured_queries( string $url ): void {
+	global $wpdb;
+
+	if ( empty( $wpdb->queries ) ) {
+		return;
+	}
+
+	$grouped = array();
+	foreach ( $wpdb->queries as $entry ) {
+		$sql         = (string) ( $entry[0] ?? '' );
+		$time        = (float) ( $entry[1] ?? 0 );
+		$caller      = (string) ( $entry[2] ?? '' );
+		$fingerprint = simple_sql_query_analyzer_get_query_fingerprint( $sql );
+		$key         = md5( $fingerprint );
+
+		if ( ! isset( $grouped[ $key ] ) ) {
+			$grouped[ $key ] = array(
+				'fingerprint' => $fingerprint,
+				'query'       => $sql,
+				'count'       => 0,
+				'total_time'  => 0.0,
+				'max_time'    => 0.0,
+				'callers'     => array(),
+			);
+		}
+
+		++$grouped[ $key ]['count'];
+		$grouped[ $key ]['total_time'] += $time;
+		$grouped[ $key ]['max_time']    = max( $grouped[ $key ]['max_time'], $time );
+		if ( ! in_array( $caller, $grouped[ $key ]['callers'], true ) && count( $grouped[ $key ]['callers'] ) < 5 ) {
+			$grouped[ $key ]['callers'][] = $caller;
+		}
+	}
+
+	$table = simple_sql_query_analyzer_get_capture_table();
+
+	// Keep the table bounded on busy sites.
+	// phpcs:ignore WordPress.DB.PreparedSQL.InterpolatedNotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Table name built from $wpdb->prefix.
+	$stored = $wpdb->get_var( "SELECT COUNT(*) FROM `$table`" );
+	if ( null === $stored || (int) $stored >= 20000 ) {
+		return;
+	}
+
+	$placeholders = array();
+	$values       = array();
+	foreach ( $grouped as $key => $group ) {
+		$placeholders[] = '(%s, %s, %s, %d, %f, %f, %s, %s, %d)';
+		array_push(
+			$values,
+			$key,
+			$group['fingerprint'],
+			$group['query'],
+			$group['count'],
+			$group['total_time'],
+			$group['max_time'],
+			(string) wp_json_encode( $group['callers'] ),
+			$url,
+			time()
+		);
+	}
+
+	// phpcs:ignore WordPress.DB.PreparedSQL.InterpolatedNotPrepared,WordPress.DB.PreparedSQLPlaceholders.UnfinishedPrepare,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Table name built from $wpdb->prefix, one placeholder group per row.
+	$wpdb->query( $wpdb->prepare( "INSERT INTO `$table` (query_hash, fingerprint, query, count, total_time, max_time, callers, url, captured_at) VALUES " . implode( ', ', $placeholders ), $values ) );
+}
+
+/**
+ * Merge the rows of every captured request into one entry per query fingerprint.
+ *
+ * The totals are summed by the database, which keeps the 500 fingerprints with
+ * the highest total time; the sample query, callers and URLs are then read for
+ * those fingerprints only.
+ *
+ * @return array<int, array<string, mixed>> Captured queries, slowest total time first.
+ */
+function simple_sql_query_analyzer_get_captured_queries(): array {
+	global $wpdb;
+
+	$table = simple_sql_query_analyzer_get_capture_table();
+
+	// phpcs:ignore WordPress.DB.PreparedSQL.InterpolatedNotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Table name built from $wpdb->prefix.
+	$totals = $wpdb->get_results(
+		"SELECT query_hash, MIN(id) AS first_id, SUM(count) AS count, SUM(total_time) AS total_time, MAX(max_time) AS max_time, MAX(captured_at) AS last_seen
+		FROM `$table` GROUP BY query_hash ORDER BY SUM(total_time) DESC LIMIT 500",
+		ARRAY_A
+	);
+
+	if ( empty( $totals ) ) {
+		return array();
+	}
+
+	$captured = array();
+	foreach ( $totals as $row ) {
+		$captured[ (string) $row['query_hash'] ] = array(
+			'id'          => (string) $row['query_hash'],
+			'fingerprint' => '',
+			'query'       => '',
+			'count'       => (int) $row['count'],
+			'total_time'  => (float) $row['total_time'],
+			'max_time'    => (float) $row['max_time'],
+			'callers'     => array(),
+			'urls'        => array(),
+			'last_seen'   => gmdate( 'c', (int) $row['last_seen'] ),
+		);
+	}
+
+	$hashes            = array_keys( $captured );
+	$hash_placeholders = implode( ', ', array_fill( 0, count( $hashes ), '%s' ) );
+	$id_placeholders   = implode( ', ', array_fill( 0, count( $hashes ), '%d' ) );
+
+	// The first row of each fingerprint holds its sample query.
+	// phpcs:ignore WordPress.DB.PreparedSQL.InterpolatedNotPrepared,WordPress.DB.PreparedSQLPlaceholders.UnfinishedPrepare,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Table name built from $wpdb->prefix, one placeholder per id.
+	$samples = $wpdb->get_results( $wpdb->prepare( "SELECT query_hash, fingerprint, query FROM `$table` WHERE id IN ($id_placeholders)", array_column( $totals, 'first_id' ) ), ARRAY_A );
+	foreach ( $samples ?? array() as $row ) {
+		$captured[ $row['query_hash'] ]['fingerprint'] = (string) $row['fingerprint'];
+		$captured[ $row['query_hash'] ]['query']       = (string) $row['query'];
+	}
+
+	// phpcs:ignore WordPress.DB.PreparedSQL.InterpolatedNotPrepared,WordPress.DB.PreparedSQLPlaceholders.UnfinishedPrepare,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Table name built from $wpdb->prefix, one placeholder per hash.
+	$sources = $wpdb->get_results( $wpdb->prepare( "SELECT query_hash, callers, url FROM `$table` WHERE query_hash IN ($hash_placeholders) GROUP BY query_hash, callers, url ORDER BY MIN(id)", $hashes ), ARRAY_A );
+	foreach ( $sources ?? array() as $row ) {
+		$key     = (string) $row['query_hash'];
+		$callers = json_decode( (string) $row['callers'], true );
+
+		foreach ( is_array( $callers ) ? $callers : array() as $caller ) {
+			if ( ! in_array( $caller, $captured[ $key ]['callers'], true ) && count( $captured[ $key ]['callers'] ) < 5 ) {
+				$captured[ $key ]['callers'][] = (string) $caller;
+			}
+		}
+		if ( ! in_array( $row['url'], $captured[ $key ]['urls'], true ) && count( $captured[ $key ]['urls'] ) < 5 ) {
+			$captured[ $key ]['urls'][] = (string) $row['url'];
+		}
+	}
+
+	return array_values( $captured );
+}
+
+/**
+ * Build the capture REST API response.
+ *
+ * @param string $message Optional message.
+ * @return \WP_REST_Response The REST API response.
+ */
+function simple_sql_query_analyzer_capture_response( string $message = '' ) {
+	simple_sql_query_analyzer_create_capture_table();
+	$queries = simple_sql_query_analyzer_get_captured_queries();
+
+	$settings            = simple_sql_query_analyzer_get_capture_settings();
+	$settings['expires'] = $settings['active'] ? gmdate( 'c', $settings['expires'] ) : null;
+
+	return new \WP_REST_Response(
+		array(
+			'success'  => true,
+			'message'  => $message,
+			'settings' => $settings,
+			'queries'  => $queries,
+		),
+		200
+	);
+}
+
+/**
+ * Handle capture status REST API request.
+ *
+ * @param \WP_REST_Request<array<string, mixed>> $request The REST request object.
+ * @return \WP_REST_Response The REST API response.
+ */
+function simple_sql_query_analyzer_handle_capture_get_request( $request ) {
+	$nonce_error = simple_sql_query_analyzer_verify_rest_nonce( $request );
+	if ( $nonce_error ) {
+		return $nonce_error;
+	}
+
+	return simple_sql_query_analyzer_capture_response();
+}
+
+/**
+ * Handle capture start REST API request.
+ *
+ * @param \WP_REST_Request<array<string, mixed>> $request The REST request object.
+ * @return \WP_REST_Response The REST API response.
+ */
+function simple_sql_query_analyzer_handle_capture_start_request( $request ) {
+	$nonce_error = simple_sql_query_analyzer_verify_rest_nonce( $request );
+	if ( $nonce_error ) {
+		return $nonce_error;
+	}
+
+	$minutes = (int) $request->get_param( 'minutes' );
+
+	// The table has to exist before the first captured request ends.
+	simple_sql_query_analyzer_create_capture_table();
+
+	update_option(
+		'simple_sql_query_analyzer_capture',
+		array(
+			'url_pattern' => trim( (string) $request->get_param( 'url_pattern' ) ),
+			'expires'     => time() + $minutes * MINUTE_IN_SECONDS,
+		),
+		true
+	);
+
+	return simple_sql_query_analyzer_capture_response(
+		sprintf(
+			/* translators: %d = number of minutes */
+			_n( 'Capturing queries for %d minute.', 'Capturing queries for %d minutes.', $minutes, 'simple-sql-query-analyzer' ),
+			$minutes
+		)
+	);
+}
+
+/**
+ * Handle capture stop REST API request.
+ *
+ * @param \WP_REST_Request<array<string, mixed>> $request The REST request object.
+ * @return \WP_REST_Response The REST API response.
+ */
+function simple_sql_query_analyzer_handle_capture_stop_request( $request ) {
+	global $wpdb;
+
+	$nonce_error = simple_sql_query_analyzer_verify_rest_nonce( $request );
+	if ( $nonce_error ) {
+		return $nonce_error;
+	}
+
+	// Emptied rather than deleted: a missing option would cost a query on every request.
+	update_option( 'simple_sql_query_analyzer_capture', array(), true );
+
+	if ( $request->get_param( 'clear' ) ) {
+		simple_sql_query_analyzer_create_capture_table();
+		$table = simple_sql_query_analyzer_get_capture_table();
+		// phpcs:ignore WordPress.DB.PreparedSQL.InterpolatedNotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Table name built from $wpdb->prefix.
+		$wpdb->query( "TRUNCATE TABLE `$table`" );
+		return simple_sql_query_analyzer_capture_response( __( 'Captured queries cleared.', 'simple-sql-query-analyzer' ) );
+	}
+
+	return simple_sql_query_analyzer_capture_response( __( 'Query capture stopped.', 'simple-sql-query-analyzer' ) );
+}
+
+/**
+ * Handle statement digest REST API request.
+ *
+ * @param \WP_REST_Request<array<string, mixed>> $request The REST request object.
+ * @return \WP_REST_Response The REST API response.
+ */
+function simple_sql_query_analyzer_handle_digest_request( $request ) {
+	try {
+		$nonce_error = simple_sql_query_analyzer_verify_rest_nonce( $request );
+		if ( $nonce_error ) {
+			return $nonce_error;
+		}
+
+		$groups = simple_sql_query_analyzer_get_statement_digests( (int) $request->get_param( 'limit' ) );
+
+		return new \WP_REST_Response(
+			array(
+				'success' => true,
+				'message' => sprintf(
+					/* translators: %d = number of statement digests */
+					__( 'Loaded %d statement digests from performance_schema.', 'simple-sql-query-analyzer' ),
+					count( $groups )
+				),
+				'groups'  => $groups,
+			),
+			200
+		);
+	} catch ( \Exception $e ) {
+		return new \WP_REST_Response(
+			array(
+				'success' => false,
+				/* translators: %s = error message from exception */
+				'message' => wp_kses_post( sprintf( __( 'Digest import error: %s', 'simple-sql-query-analyzer' ), $e->getMessage() ) ),
+			),
+			500
+		);
+	}
+}
+
+/**
+ * Read the top statements of the site database from performance_schema.
+ *
+ * Digests are already normalized by MySQL. QUERY_SAMPLE_TEXT (MySQL 8.0.3+)
+ * provides a concrete query for each digest; without it only the digest text,
+ * with "?" placeholders, is available.
+ *
+ * @param int $limit Number of digests to return, by total time.
+ * @return array<int, array<string, mixed>> Statement groups.
+ * @throws \Exception If performance_schema is not available.
+ */
+function simple_sql_query_analyzer_get_statement_digests( int $limit ): array {
+	global $wpdb;
+
+	$columns = 'DIGEST_TEXT, COUNT_STAR, SUM_TIMER_WAIT, MAX_TIMER_WAIT, SUM_ROWS_EXAMINED, SUM_ROWS_SENT';
+	$where   = 'WHERE SCHEMA_NAME = %s AND DIGEST_TEXT IS NOT NULL ORDER BY SUM_TIMER_WAIT DESC LIMIT %d';
+
+	$suppress = $wpdb->suppress_errors( true );
+
+	// phpcs:ignore WordPress.DB.PreparedSQL.NotPrepared,WordPress.DB.PreparedSQL.InterpolatedNotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Column list and clauses are constants.
+	$rows = $wpdb->get_results( $wpdb->prepare( "SELECT $columns, QUERY_SAMPLE_TEXT FROM performance_schema.events_statements_summary_by_digest $where", DB_NAME, $limit ), ARRAY_A );
+
+	if ( '' !== $wpdb->last_error ) {
+		// phpcs:ignore WordPress.DB.PreparedSQL.NotPrepared,WordPress.DB.PreparedSQL.InterpolatedNotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Column list and clauses are constants.
+		$rows = $wpdb->get_results( $wpdb->prepare( "SELECT $columns FROM performance_schema.events_statements_summary_by_digest $where", DB_NAME, $limit ), ARRAY_A );
+	}
+
+	$error = $wpdb->last_error;
+	$wpdb->suppress_errors( $suppress );
+
+	if ( '' !== $error ) {
+		/* translators: %s = database error */
+		throw new \Exception( wp_kses_post( sprintf( __( 'performance_schema is not available: %s', 'simple-sql-query-analyzer' ), $error ) ) );
+	}
+
+	// Timer columns are in picoseconds.
+	return array_map(
+		function ( $row ) {
+			$sample = (string) ( $row['QUERY_SAMPLE_TEXT'] ?? '' );
+
+			return array(
+				'fingerprint'   => (string) $row['DIGEST_TEXT'],
+				'query'         => '' !== $sample ? $sample : (string) $row['DIGEST_TEXT'],
+				'has_sample'    => '' !== $sample,
+				'count'         => (int) $row['COUNT_STAR'],
+				'total_time'    => (float) $row['SUM_TIMER_WAIT'] / 1e12,
+				'max_time'      => (float) $row['MAX_TIMER_WAIT'] / 1e12,
+				'rows_examined' => (int) $row['SUM_ROWS_EXAMINED'],
+				'rows_sent'     => (int) $row['SUM_ROWS_SENT'],
+			);
+		},
+		$rows ?? array()
+	);
+}
+
+/**
+ * Handle schema REST API request.
+ *
+ * Returns the tables and columns of the site database, which the query editor
+ * uses for autocomplete. With details, each table also carries its statistics
+ * and indexes for the schema explorer.
+ *
+ * @param \WP_REST_Request<array<string, mixed>> $request The REST request object.
+ * @return \WP_REST_Response The REST API response.
+ */
+function simple_sql_query_analyzer_handle_schema_request( $request ) {
+	global $wpdb;
+
+	$nonce_error = simple_sql_query_analyzer_verify_rest_nonce( $request );
+	if ( $nonce_error ) {
+		return $nonce_error;
+	}
+
+	// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+	$rows = $wpdb->get_results(
+		$wpdb->prepare(
+			'SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_SCHEMA = %s ORDER BY TABLE_NAME, ORDINAL_POSITION',
+			DB_NAME
+		),
+		ARRAY_A
+	);
+
+	$tables = array();
+	foreach ( $rows ?? array() as $row ) {
+		$name = (string) $row['TABLE_NAME'];
+		if ( ! isset( $tables[ $name ] ) ) {
+			$tables[ $name ] = array(
+				'name'    => $name,
+				'columns' => array(),
+			);
+		}
+		$tables[ $name ]['columns'][] = simple_sql_query_analyzer_format_column( $row );
+	}
+
+	if ( $request->get_param( 'details' ) ) {
+		$tables = simple_sql_query_analyzer_add_table_details( $tables );
+	}
+
+	return new \WP_REST_Response(
+		array(
+			'success' => true,
+			'tables'  => array_values( $tables ),
+		),
+		200
+	);
+}
+
+/**
+ * Add statistics and indexes to the tables of the schema response.
+ *
+ * Row counts and sizes come from INFORMATION_SCHEMA.TABLES, so for InnoDB they
+ * are estimates.
+ *
+ * @param array<string, array<string, mixed>> $tables Tables keyed by name, with their columns.
+ * @return array<string, array<string, mixed>> Tables with engine, collation, sizes and indexes.
+ */
+function simple_sql_query_analyzer_add_table_details( array $tables ): array {
+	global $wpdb;
+
+	// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+	$stats = $wpdb->get_results(
+		$wpdb->prepare(
+			'SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_SCHEMA = %s',
+			DB_NAME
+		),
+		ARRAY_A
+	);
+
+	foreach ( $stats ?? array() as $row ) {
+		$name = (string) $row['TABLE_NAME'];
+		if ( ! isset( $tables[ $name ] ) ) {
+			continue;
+		}
+
+		$tables[ $name ] += simple_sql_query_analyzer_format_table_stats( $row ) + array( 'indexes' => array() );
+	}
+
+	// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+	$indexes = $wpdb->get_results(
+		$wpdb->prepare(
+			// Named like the SHOW INDEX columns, so both share one formatter.
+			'SELECT TABLE_NAME, INDEX_NAME AS Key_name, INDEX_TYPE AS Index_type, NON_UNIQUE AS Non_unique,
+				COLUMN_NAME AS Column_name, SEQ_IN_INDEX AS Seq_in_index, CARDINALITY AS Cardinality,
+				SUB_PART AS Sub_part, NULLABLE AS `Null`, INDEX_COMMENT AS Index_comment
+			FROM INFORMATION_SCHEMA.STATISTICS WHERE TABLE_SCHEMA = %s ORDER BY TABLE_NAME, INDEX_NAME, SEQ_IN_INDEX',
+			DB_NAME
+		),
+		ARRAY_A
+	);
+
+	foreach ( $indexes ?? array() as $row ) {
+		$name = (string) $row['TABLE_NAME'];
+		if ( ! isset( $tables[ $name ] ) ) {
+			continue;
+		}
+
+		$tables[ $name ]['indexes'][] = simple_sql_query_analyzer_format_index( $row, $tables[ $name ]['rows'] ?? null );
+	}
+
+	return $tables;
+}
+
+/**
+ * Format an INFORMATION_SCHEMA.COLUMNS row for the dashboard.
+ *
+ * @param array<string, mixed> $col Column row.
+ * @return array<string, mixed> Column name, type, nullability, key and default.
+ */
+function simple_sql_query_analyzer_format_column( array $col ): array {
+	return array(
+		'name'    => $col['COLUMN_NAME'],
+		'type'    => $col['COLUMN_TYPE'],
+		'null'    => 'YES' === $col['IS_NULLABLE'],
+		'key'     => $col['COLUMN_KEY'],
+		'default' => $col['COLUMN_DEFAULT'],
+	);
+}
+
+/**
+ * Format an INFORMATION_SCHEMA.TABLES row for the dashboard.
+ *
+ * Row counts and sizes are estimates for InnoDB.
+ *
+ * @param array<string, mixed> $row Table row.
+ * @return array<string, mixed> Engine, collation, row estimate, sizes in bytes and next auto-increment value.
+ */
+function simple_sql_query_analyzer_format_table_stats( array $row ): array {
+	return array(
+		'engine'         => $row['ENGINE'],
+		'collation'      => $row['TABLE_COLLATION'],
+		'rows'           => null === $row['TABLE_ROWS'] ? null : (int) $row['TABLE_ROWS'],
+		'data_length'    => (int) $row['DATA_LENGTH'],
+		'index_length'   => (int) $row['INDEX_LENGTH'],
+		'data_free'      => (int) $row['DATA_FREE'],
+		'auto_increment' => null === $row['AUTO_INCREMENT'] ? null : (int) $row['AUTO_INCREMENT'],
+	);
+}
+
+/**
+ * Format a SHOW INDEX row for the dashboard.
+ *
+ * Selectivity is the cardinality divided by the table rows: close to 1 when the
+ * index prefix up to this column is nearly unique, close to 0 when a lookup
+ * matches a large share of the table.
+ *
+ * @param array<string, mixed> $idx Index row, one per indexed column.
+ * @param int|null             $table_rows Estimated rows of the table.
+ * @return array<string, mixed> Index name, type, uniqueness, column, position, cardinality, prefix length, nullability, comment and selectivity.
+ */
+function simple_sql_query_analyzer_format_index( array $idx, ?int $table_rows ): array {
+	$cardinality = null === $idx['Cardinality'] ? null : (int) $idx['Cardinality'];
+
+	$selectivity = null;
+	if ( null !== $cardinality && $table_rows ) {
+		$selectivity = min( 1, $cardinality / $table_rows );
+	}
+
+	return array(
+		'name'        => $idx['Key_name'],
+		'type'        => $idx['Index_type'],
+		'unique'      => ! (bool) $idx['Non_unique'],
+		'column'      => $idx['Column_name'],
+		'seq'         => (int) $idx['Seq_in_index'],
+		'cardinality' => $cardinality,
+		'sub_part'    => null === $idx['Sub_part'] ? null : (int) $idx['Sub_part'],
+		'nullable'    => 'YES' === $idx['Null'],
+		'comment'     => (string) $idx['Index_comment'],
+		'selectivity' => $selectivity,
+	);
+}
+
+/**
+ * Validate SQL query.
+ *
+ * Ensures only a single query is executed (no stacked queries) and blocks
+ * dangerous functions. Allows all query types (SELECT, INSERT, UPDATE, DELETE):
+ * plain EXPLAIN does not execute the statement, and ANALYZE, which does, runs
+ * in simple_sql_query_analyzer_execute_sandboxed_analyze().
+ *
+ * @param string $query The SQL query to validate.
+ * @return bool True if query is safe for analysis.
+ */
+function simple_sql_query_analyzer_validate_query( string $query ): bool {
+	$query = trim( $query );
+
+	// Remove SQL comments that could hide malicious code.
+	$clean_query = (string) preg_replace( '/--.*$/m', '', $query );
+	$clean_query = (string) preg_replace( '|/\*.*?\*/|s', '', $clean_query );
+	$clean_query = trim( $clean_query );
+
+	// Block semicolons to prevent stacked queries (multi-statement attacks).
+	// This must be checked AFTER removing comments to catch hidden semicolons.
+	if ( strpos( $clean_query, ';' ) !== false ) {
+		return false;
+	}
+
+	// Block dangerous functions that could cause harm even in single queries.
+	$dangerous_patterns = array(
+		'/INTO\s+OUTFILE/i',  // File write.
+		'/INTO\s+DUMPFILE/i', // File write.
+		'/LOAD_FILE\s*\(/i',  // File read.
+		'/BENCHMARK\s*\(/i',  // DoS.
+		'/SLEEP\s*\(/i',      // DoS.
+	);
+
+	foreach ( $dangerous_patterns as $pattern ) {
+		if ( preg_match( $pattern, $clean_query ) ) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+/**
+ * Extract table names from query.
+ *
+ * Parses a SQL query to extract all table names referenced.
+ *
+ * @param string $query The SQL query to parse.
+ * @return array<int, string> Array of table names found in query.
+ */
+function simple_sql_query_analyzer_extract_table_names( string $query ): array {
+	$tables = array();
+
+	// Remove SQL comments.
+	$query = (string) preg_replace( '/--.*$/m', '', $query );
 	$query = (string) preg_replace( '|/\*.*?\*/|s', '', $query );
 
-	// Pattern to match FROM clause.
-	$from_pattern = '/FROM\s+([a-zA-Z0-9_`\-\.]+)(?:\s+(?:AS\s+)?([a-zA-Z0-9_`]+))?/i';
-	if ( preg_match_all( $from_pattern, $query, $matches ) ) {
-		$tables = array_merge( $tables, $matches[1] );
+	// Pattern to match FROM clause.
+	$from_pattern = '/FROM\s+([a-zA-Z0-9_`\-\.]+)(?:\s+(?:AS\s+)?([a-zA-Z0-9_`]+))?/i';
+	if ( preg_match_all( $from_pattern, $query, $matches ) ) {
+		$tables = array_merge( $tables, $matches[1] );
+	}
+
+	// Pattern to match JOIN clauses.
+	$join_pattern = '/JOIN\s+([a-zA-Z0-9_`\-\.]+)(?:\s+(?:AS\s+)?([a-zA-Z0-9_`]+))?/i';
+	if ( preg_match_all( $join_pattern, $query, $matches ) ) {
+		$tables = array_merge( $tables, $matches[1] );
+	}
+
+	// Clean up table names.
+	$tables = array_map(
+		function ( $table ) {
+			$table = str_replace( '`', '', $table );
+			$table = trim( $table );
+			return ! empty( $table ) ? $table : null;
+		},
+		$tables
+	);
+
+	// Remove nulls and duplicates.
+	$tables = array_filter( $tables );
+	$tables = array_unique( $tables );
+
+	return array_values( $tables );
+}
+
+/**
+ * Resolve the tables a query uses.
+ *
+ * Prefers the table list parsed by the dashboard, which handles comma joins,
+ * subqueries, CTEs and DML statements, and falls back to the FROM/JOIN regexes
+ * for clients that do not send one.
+ *
+ * @param string $query The SQL query.
+ * @param mixed  $tables Table names sent by the client, if any.
+ * @return array<int, string> Table names.
+ */
+function simple_sql_query_analyzer_resolve_tables( string $query, $tables ): array {
+	if ( ! is_array( $tables ) || empty( $tables ) ) {
+		return simple_sql_query_analyzer_extract_table_names( $query );
+	}
+
+	$tables = array_filter(
+		array_map( 'strval', $tables ),
+		function ( $table ) {
+			return null !== simple_sql_query_analyzer_parse_table_identifier( $table );
+		}
+	);
+
+	return array_values( array_unique( $tables ) );
+}
+
+/**
+ * Sanitize the column references parsed by the dashboard before echoing them back.
+ *
+ * @param mixed $columns Column references sent by the client.
+ * @return array<int, array<string, string|null>> Column references with table, column and usage.
+ */
+function simple_sql_query_analyzer_sanitize_column_references( $columns ): array {
+	if ( ! is_array( $columns ) ) {
+		return array();
+	}
+
+	$references = array();
+	foreach ( $columns as $column ) {
+		if ( ! is_array( $column ) || empty( $column['column'] ) || empty( $column['usage'] ) ) {
+			continue;
+		}
+
+		$references[] = array(
+			'table'  => isset( $column['table'] ) ? sanitize_text_field( (string) $column['table'] ) : null,
+			'column' => sanitize_text_field( (string) $column['column'] ),
+			'usage'  => sanitize_key( (string) $column['usage'] ),
+		);
+	}
+
+	return $references;
+}
+
+/**
+ * Sanitize the placeholder binding of a query expanded from a template.
+ *
+ * The template itself is SQL and kept as sent, like the query.
+ *
+ * @param mixed $binding Binding sent by the dashboard: template_id, template, label, set and values.
+ * @return array<string, mixed>|null Sanitized binding, or null when there is none.
+ */
+function simple_sql_query_analyzer_sanitize_binding( $binding ): ?array {
+	if ( ! is_array( $binding ) || empty( $binding['template_id'] ) || ! isset( $binding['template'] ) ) {
+		return null;
+	}
+
+	$values = isset( $binding['values'] ) && is_array( $binding['values'] ) ? $binding['values'] : array();
+
+	return array(
+		'template_id' => sanitize_text_field( (string) $binding['template_id'] ),
+		'template'    => (string) $binding['template'],
+		'label'       => sanitize_text_field( (string) ( $binding['label'] ?? '' ) ),
+		'set'         => sanitize_text_field( (string) ( $binding['set'] ?? '' ) ),
+		'values'      => array_values( array_map( 'strval', $values ) ),
+	);
+}
+
+/**
+ * Analyze multiple SQL queries.
+ *
+ * Processes an array of queries and returns aggregated results.
+ *
+ * @param array<int, array<string, mixed>> $query_inputs Array of query objects with id, label, query, and optionally the tables, aliases and columns parsed by the dashboard and the binding of a templated query.
+ * @param bool                             $include_analyze Whether to include ANALYZE results.
+ * @param bool                             $include_json Whether to include EXPLAIN FORMAT=JSON plans.
+ * @param int                              $analyze_time_limit Time limit for each ANALYZE, in milliseconds.
+ * @param array<string, int>               $benchmark Measured 'runs' and 'warmup' runs of each SELECT query; no benchmark without runs.
+ * @param bool                             $include_status Whether to measure the session status counters of each SELECT query.
+ * @param bool                             $include_trace Whether to include the optimizer trace of each query.
+ * @return array<string, mixed> Array containing queries, summary, and complete_output.
+ * @throws \Exception If analysis fails.
+ */
+function simple_sql_query_analyzer_analyze_queries( array $query_inputs, bool $include_analyze = false, bool $include_json = false, int $analyze_time_limit = 10000, array $benchmark = array(), bool $include_status = false, bool $include_trace = false ): array {
+	$results = array();
+
+	foreach ( $query_inputs as $input ) {
+		$binding = simple_sql_query_analyzer_sanitize_binding( $input['binding'] ?? null );
+
+		// Validate query is safe for analysis.
+		if ( ! simple_sql_query_analyzer_validate_query( $input['query'] ) ) {
+			$results[] = array(
+				'id'      => $input['id'],
+				'label'   => $input['label'],
+				'query'   => $input['query'],
+				'binding' => $binding,
+				'error'   => __( 'Query blocked: contains stacked queries (semicolons) or dangerous functions', 'simple-sql-query-analyzer' ),
+				'tables'  => array(),
+				'indexes' => array(),
+				'explain' => array(),
+				'analyze' => array(),
+			);
+			continue;
+		}
+
+		$start_time = microtime( true );
+
+		try {
+			$query_result   = simple_sql_query_analyzer_analyze_query( $input['query'], $include_analyze, $input['tables'] ?? null, $include_json, $analyze_time_limit, $benchmark, $include_status, $include_trace );
+			$execution_time = microtime( true ) - $start_time;
+
+			if ( isset( $input['aliases'] ) && is_array( $input['aliases'] ) ) {
+				$query_result['aliases'] = array_map( 'sanitize_text_field', array_map( 'strval', $input['aliases'] ) );
+			}
+			if ( isset( $input['columns'] ) ) {
+				$query_result['columns'] = simple_sql_query_analyzer_sanitize_column_references( $input['columns'] );
+			}
+
+			$query_result['id']             = $input['id'];
+			$query_result['label']          = $input['label'];
+			$query_result['query']          = $input['query'];
+			$query_result['binding']        = $binding;
+			$query_result['execution_time'] = $execution_time;
+			$query_result['error']          = null;
+
+			$results[] = $query_result;
+		} catch ( \Exception $e ) {
+			$results[] = array(
+				'id'      => $input['id'],
+				'label'   => $input['label'],
+				'query'   => $input['query'],
+				'binding' => $binding,
+				'error'   => $e->getMessage(),
+				'tables'  => array(),
+				'indexes' => array(),
+				'explain' => array(),
+				'analyze' => array(),
+			);
+		}
+	}
+
+	return simple_sql_query_analyzer_build_report( $results );
+}
+
+/**
+ * Build the summary and the text report of analyzed queries.
+ *
+ * Also used for reports assembled by the dashboard from queries analyzed one
+ * request at a time.
+ *
+ * @param array<int, array<string, mixed>> $results Query results.
+ * @return array<string, mixed> Array containing queries, summary, and complete_output.
+ */
+function simple_sql_query_analyzer_build_report( array $results ): array {
+	$total_cost    = 0;
+	$total_time    = 0;
+	$slowest_index = null;
+	$slowest_time  = 0;
+	$has_warnings  = false;
+
+	foreach ( $results as $index => $query_result ) {
+		if ( ! empty( $query_result['error'] ) ) {
+			continue;
+		}
+
+		$execution_time = (float) ( $query_result['execution_time'] ?? 0 );
+
+		// Calculate total cost (approximation from first explain line).
+		if ( ! empty( $query_result['explain'] ) ) {
+			$explain_text = $query_result['explain'][0]['EXPLAIN'] ?? '';
+			if ( preg_match( '/cost=([0-9.e+]+)/', $explain_text, $matches ) ) {
+				$query_cost  = floatval( $matches[1] );
+				$total_cost += $query_cost;
+			}
+		}
+
+		$total_time += $execution_time;
+
+		if ( $execution_time > $slowest_time ) {
+			$slowest_time  = $execution_time;
+			$slowest_index = $index;
+		}
+
+		if ( ! empty( $query_result['explain'] ) ) {
+			$explain_text = strtoupper( $query_result['explain'][0]['EXPLAIN'] ?? '' );
+			if ( strpos( $explain_text, 'TABLE SCAN' ) !== false ) {
+				$has_warnings = true;
+			}
+
+			// Tabular plans mark full table scans with the ALL access type.
+			if ( in_array( 'ALL', array_column( $query_result['explain'], 'type' ), true ) ) {
+				$has_warnings = true;
+			}
+		}
+	}
+
+	$complete_output = simple_sql_query_analyzer_format_multi_query_output( $results );
+
+	return array(
+		'queries'         => $results,
+		'summary'         => array(
+			'total_queries'        => count( $results ),
+			'total_execution_time' => $total_time,
+			'total_cost'           => (int) $total_cost,
+			'slowest_query_index'  => $slowest_index,
+			'has_warnings'         => $has_warnings,
+		),
+		'complete_output' => $complete_output,
+	);
+}
+
+/**
+ * Execute EXPLAIN FORMAT=TREE on a SQL query.
+ *
+ * Runs MySQL's EXPLAIN statement with FORMAT=TREE to provide a user-friendly,
+ * tree-structured execution plan with cost estimates. This format shows the
+ * query execution flow hierarchically, making it easier to understand how
+ * MySQL will process the query. Servers without the tree format get the
+ * classic tabular EXPLAIN instead.
+ *
+ * @since 1.0.0
+ *
+ * @param string $query The SQL SELECT query to analyze. Must be a valid SELECT statement.
+ * @return array<int, array<string, string>> Array of EXPLAIN results. Each element contains
+ *                                           an 'EXPLAIN' key with the tree-formatted plan,
+ *                                           or is a row of the tabular plan.
+ *                                           Returns empty array if EXPLAIN fails.
+ */
+function simple_sql_query_analyzer_execute_explain( string $query ): array {
+	global $wpdb;
+
+	// MariaDB and MySQL before 8.0.16 only have the classic tabular format, one row per table.
+	$format = simple_sql_query_analyzer_get_server_info()['supports_tree'] ? 'FORMAT=TREE ' : '';
+
+	// phpcs:ignore WordPress.DB.PreparedSQL.NotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Query is validated before reaching this function via simple_sql_query_analyzer_validate_query().
+	$results = $wpdb->get_results( 'EXPLAIN ' . $format . $query, ARRAY_A );
+
+	return $results ?? array();
+}
+
+/**
+ * Execute MariaDB's ANALYZE FORMAT=JSON on a SQL query.
+ *
+ * MariaDB has no EXPLAIN ANALYZE; ANALYZE runs the statement and reports the
+ * plan with actual rows (r_rows), filtering (r_filtered) and time. Like EXPLAIN
+ * ANALYZE, it executes the statement, so it is only run inside the transaction
+ * of simple_sql_query_analyzer_execute_sandboxed_analyze().
+ *
+ * @param string $query The SQL SELECT, INSERT, UPDATE, DELETE or REPLACE statement to analyze.
+ * @return array<int, array<string, string>> Array with one element whose 'EXPLAIN' key holds
+ *                                           the JSON document, like the EXPLAIN results.
+ *                                           Returns empty array if ANALYZE fails.
+ */
+function simple_sql_query_analyzer_execute_mariadb_analyze( string $query ): array {
+	global $wpdb;
+
+	// phpcs:ignore WordPress.DB.PreparedSQL.NotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Query is validated before reaching this function via simple_sql_query_analyzer_validate_query().
+	$json = $wpdb->get_var( 'ANALYZE FORMAT=JSON ' . $query );
+
+	return null === $json ? array() : array( array( 'EXPLAIN' => (string) $json ) );
+}
+
+/**
+ * Detect the database server and the EXPLAIN variants it supports.
+ *
+ * $wpdb->db_version() strips the server suffix, so MariaDB is told apart by
+ * the full VERSION() string. MySQL added FORMAT=TREE in 8.0.16 and EXPLAIN
+ * ANALYZE in 8.0.18; MariaDB has neither but supports ANALYZE FORMAT=JSON.
+ *
+ * @return array<string, mixed> Server type, version and supported formats.
+ */
+function simple_sql_query_analyzer_get_server_info(): array {
+	global $wpdb;
+	static $info = null;
+
+	if ( null !== $info ) {
+		return $info;
 	}
 
-	// Pattern to match JOIN clauses.
-	$join_pattern = '/JOIN\s+([a-zA-Z0-9_`\-\.]+)(?:\s+(?:AS\s+)?([a-zA-Z0-9_`]+))?/i';
-	if ( preg_match_all( $join_pattern, $query, $matches ) ) {
-		$tables = array_merge( $tables, $matches[1] );
+	// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+	$version_string = (string) $wpdb->get_var( 'SELECT VERSION()' );
+	$is_mariadb     = false !== stripos( $version_string, 'MariaDB' );
+	$version        = preg_match( '/^\d+\.\d+\.\d+/', $version_string, $matches ) ? $matches[0] : $wpdb->db_version();
+
+	$info = array(
+		'type'                     => $is_mariadb ? 'MariaDB' : 'MySQL',
+		'version'                  => $version,
+		'supports_tree'            => ! $is_mariadb && version_compare( $version, '8.0.16', '>=' ),
+		'supports_explain_analyze' => ! $is_mariadb && version_compare( $version, '8.0.18', '>=' ),
+		'supports_analyze_json'    => $is_mariadb && version_compare( $version, '10.1.0', '>=' ),
+	);
+
+	return $info;
+}
+
+/**
+ * Format EXPLAIN rows as text.
+ *
+ * Tree and JSON plans come as a single 'EXPLAIN' value; tabular plans are laid
+ * out as an aligned table with one line per row.
+ *
+ * @param array<int, array<string, mixed>> $rows EXPLAIN results.
+ * @return string The plan text.
+ */
+function simple_sql_query_analyzer_format_plan_text( array $rows ): string {
+	if ( empty( $rows ) ) {
+		return '';
+	}
+	if ( isset( $rows[0]['EXPLAIN'] ) ) {
+		return (string) $rows[0]['EXPLAIN'];
 	}
 
-	// Clean up table names.
-	$tables = array_map(
-		function ( $table ) {
-			$table = str_replace( '`', '', $table );
-			$table = trim( $table );
-			return ! empty( $table ) ? $table : null;
-		},
-		$tables
+	$columns = array_keys( $rows[0] );
+	$widths  = array();
+	foreach ( $columns as $column ) {
+		$widths[ $column ] = strlen( (string) $column );
+		foreach ( $rows as $row ) {
+			$widths[ $column ] = max( $widths[ $column ], strlen( (string) ( $row[ $column ] ?? 'NULL' ) ) );
+		}
+	}
+
+	$lines   = array();
+	$cells   = array();
+	$divider = array();
+	foreach ( $columns as $column ) {
+		$cells[]   = str_pad( (string) $column, $widths[ $column ] );
+		$divider[] = str_repeat( '-', $widths[ $column ] );
+	}
+	$lines[] = implode( ' | ', $cells );
+	$lines[] = implode( '-+-', $divider );
+
+	foreach ( $rows as $row ) {
+		$cells = array();
+		foreach ( $columns as $column ) {
+			$cells[] = str_pad( (string) ( $row[ $column ] ?? 'NULL' ), $widths[ $column ] );
+		}
+		$lines[] = rtrim( implode( ' | ', $cells ) );
+	}
+
+	return implode( "\n", $lines );
+}
+
+/**
+ * Execute EXPLAIN FORMAT=JSON on a SQL query.
+ *
+ * The JSON plan carries what the tree format leaves out: the key parts and key
+ * length used, the filtered percentage, attached conditions, the read, eval
+ * and prefix cost of each table access, and filesort and temporary table
+ * flags. It is also the most detailed format MySQL 5.7 supports.
+ *
+ * @param string $query The SQL query to analyze.
+ * @return array<int, array<string, string>> Array of EXPLAIN results. The first element contains
+ *                                           an 'EXPLAIN' key with the JSON document.
+ *                                           Returns empty array if EXPLAIN fails.
+ */
+function simple_sql_query_analyzer_execute_explain_json( string $query ): array {
+	global $wpdb;
+
+	// phpcs:ignore WordPress.DB.PreparedSQL.NotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Query is validated before reaching this function via simple_sql_query_analyzer_validate_query().
+	$results = $wpdb->get_results( 'EXPLAIN FORMAT=JSON ' . $query, ARRAY_A );
+
+	return $results ?? array();
+}
+
+/**
+ * Execute EXPLAIN ANALYZE on a SQL query.
+ *
+ * Runs MySQL's EXPLAIN ANALYZE statement to execute the query and provide
+ * real-time execution metrics. Available in MySQL 8.0.18+, this actually
+ * runs the query and reports actual execution times, row counts, and loop
+ * iterations alongside the estimated values.
+ *
+ * WARNING: This executes the query, so it will consume resources and time
+ * proportional to the query's complexity and the data size.
+ *
+ * @since 1.0.0
+ *
+ * @param string $query The SQL SELECT query to analyze. Must be a valid SELECT statement.
+ * @return array<int, array<string, string>> Array of ANALYZE results. Each element contains
+ *                                           an 'EXPLAIN' key with actual vs estimated metrics.
+ *                                           Returns empty array if ANALYZE fails or is unsupported.
+ */
+function simple_sql_query_analyzer_execute_analyze( string $query ): array {
+	global $wpdb;
+
+	// phpcs:ignore WordPress.DB.PreparedSQL.NotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Query is validated before reaching this function via simple_sql_query_analyzer_validate_query().
+	$results = $wpdb->get_results( 'EXPLAIN ANALYZE ' . $query, ARRAY_A );
+
+	return $results ?? array();
+}
+
+/**
+ * Run EXPLAIN ANALYZE, or MariaDB's ANALYZE FORMAT=JSON, inside a sandbox.
+ *
+ * ANALYZE executes the statement, so an UPDATE or DELETE really changes the
+ * data. Every statement therefore runs inside a transaction that is always
+ * rolled back: SELECT statements, including WITH ... SELECT and UNIONs, in a
+ * READ ONLY transaction; INSERT, UPDATE, DELETE and REPLACE statements only if
+ * every table they write to uses a transactional engine. Writes to MyISAM,
+ * Aria, MEMORY or views, writes whose targets cannot be determined, and
+ * statements of any other type are refused instead of executed.
+ *
+ * The time limit uses max_execution_time on MySQL, which only applies to
+ * SELECT statements; write statements then only get a lock wait timeout.
+ * MariaDB's max_statement_time applies to every statement.
+ *
+ * Rolling back does not undo AUTO_INCREMENT increments or writes made by
+ * triggers to non-transactional tables.
+ *
+ * @param string $query The SQL query to analyze.
+ * @param int    $time_limit Time limit in milliseconds.
+ * @return array<string, mixed> The 'analyze' and 'analyze_json' results and the 'protection' applied.
+ */
+function simple_sql_query_analyzer_execute_sandboxed_analyze( string $query, int $time_limit ): array {
+	global $wpdb;
+
+	$server     = simple_sql_query_analyzer_get_server_info();
+	$query_type = simple_sql_query_analyzer_get_query_type( $query );
+	$is_select  = 'SELECT' === $query_type;
+	$result     = array(
+		'analyze'      => array(),
+		'analyze_json' => array(),
+		'protection'   => array(
+			'mode'       => $is_select ? 'read_only' : 'rollback',
+			'time_limit' => ( $is_select || 'MariaDB' === $server['type'] ) ? $time_limit : null,
+			'message'    => null,
+		),
 	);
 
-	// Remove nulls and duplicates.
-	$tables = array_filter( $tables );
-	$tables = array_unique( $tables );
+	if ( ! $server['supports_explain_analyze'] && ! $server['supports_analyze_json'] ) {
+		$result['protection'] = null;
+		return $result;
+	}
 
-	return array_values( $tables );
+	if ( ! $is_select ) {
+		if ( in_array( $query_type, array( 'INSERT', 'UPDATE', 'DELETE', 'REPLACE' ), true ) ) {
+			// Parsed here rather than taken from the client: a write target missing from the list would not be checked.
+			$refusal = simple_sql_query_analyzer_check_transactional_tables( simple_sql_query_analyzer_extract_write_targets( $query ) ?? array() );
+		} else {
+			$refusal = __( 'ANALYZE was not run because the statement is not a SELECT, INSERT, UPDATE, DELETE or REPLACE statement.', 'simple-sql-query-analyzer' );
+		}
+
+		if ( null !== $refusal ) {
+			$result['protection'] = array(
+				'mode'       => 'refused',
+				'time_limit' => null,
+				'message'    => $refusal,
+			);
+			return $result;
+		}
+	}
+
+	return simple_sql_query_analyzer_with_time_limit(
+		$time_limit,
+		$is_select,
+		function () use ( $wpdb, $server, $query, $is_select, $result ) {
+			// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+			$started = $wpdb->query( $is_select ? 'START TRANSACTION READ ONLY' : 'START TRANSACTION' );
+
+			try {
+				if ( false === $started ) {
+					throw new \Exception( wp_kses_post( __( 'Could not start the transaction that protects ANALYZE.', 'simple-sql-query-analyzer' ) ) );
+				}
+
+				if ( $server['supports_explain_analyze'] ) {
+					$result['analyze'] = simple_sql_query_analyzer_execute_analyze( $query );
+				} else {
+					$result['analyze_json'] = simple_sql_query_analyzer_execute_mariadb_analyze( $query );
+				}
+
+				// Reported with the protection, e.g. when the time limit interrupted the statement.
+				if ( empty( $result['analyze'] ) && empty( $result['analyze_json'] ) && $wpdb->last_error ) {
+					$result['protection']['message'] = $wpdb->last_error;
+				}
+			} finally {
+				// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+				$wpdb->query( 'ROLLBACK' );
+			}
+
+			return $result;
+		}
+	);
 }
 
 /**
- * Analyze multiple SQL queries.
+ * Run a callback with a time limit on the statements of this session.
  *
- * Processes an array of queries and returns aggregated results.
+ * Uses max_statement_time on MariaDB and max_execution_time on MySQL, which
+ * only applies to SELECT statements; write statements on MySQL only get a lock
+ * wait timeout. The previous session value is restored afterwards.
  *
- * @param array<int, array<string, string>> $query_inputs Array of query objects with id, label, query.
- * @param bool                              $include_analyze Whether to include ANALYZE results.
- * @return array<string, mixed> Array containing queries, summary, and complete_output.
- * @throws \Exception If analysis fails.
+ * @param int      $time_limit Time limit in milliseconds.
+ * @param bool     $is_select Whether the statements are SELECT statements.
+ * @param callable $callback Runs the statements.
+ * @return mixed The return value of the callback.
  */
-function simple_sql_query_analyzer_analyze_queries( array $query_inputs, bool $include_analyze = false ): array {
-	$results       = array();
-	$total_cost    = 0;
-	$total_time    = 0;
-	$slowest_index = null;
-	$slowest_time  = 0;
-	$has_warnings  = false;
+function simple_sql_query_analyzer_with_time_limit( int $time_limit, bool $is_select, callable $callback ) {
+	global $wpdb;
 
-	foreach ( $query_inputs as $index => $input ) {
-		// Validate query is safe for analysis.
-		if ( ! simple_sql_query_analyzer_validate_query( $input['query'] ) ) {
-			$results[] = array(
-				'id'      => $input['id'],
-				'label'   => $input['label'],
-				'query'   => $input['query'],
-				'error'   => __( 'Query blocked: contains stacked queries (semicolons) or dangerous functions', 'simple-sql-query-analyzer' ),
-				'tables'  => array(),
-				'indexes' => array(),
-				'explain' => array(),
-				'analyze' => array(),
+	if ( 'MariaDB' === simple_sql_query_analyzer_get_server_info()['type'] ) {
+		$limit_variable = 'max_statement_time';
+		$limit_value    = $time_limit / 1000;
+	} elseif ( $is_select ) {
+		$limit_variable = 'max_execution_time';
+		$limit_value    = $time_limit;
+	} else {
+		$limit_variable = 'innodb_lock_wait_timeout';
+		$limit_value    = max( 1, (int) ceil( $time_limit / 1000 ) );
+	}
+
+	// phpcs:ignore WordPress.DB.PreparedSQL.InterpolatedNotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Variable name chosen above.
+	$previous_limit = $wpdb->get_var( "SELECT @@SESSION.$limit_variable" );
+
+	// phpcs:ignore WordPress.DB.PreparedSQL.InterpolatedNotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Variable name chosen above, value is numeric.
+	$wpdb->query( "SET SESSION $limit_variable = " . (float) $limit_value );
+
+	try {
+		return $callback();
+	} finally {
+		// phpcs:ignore WordPress.DB.PreparedSQL.InterpolatedNotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Variable name chosen above, value read from the server.
+		$wpdb->query( "SET SESSION $limit_variable = " . (float) $previous_limit );
+	}
+}
+
+/**
+ * Run a SELECT statement and discard its rows without loading them into PHP.
+ *
+ * The result is read unbuffered and freed, which drains the rows from the
+ * connection as they arrive: memory stays flat on large result sets and no PHP
+ * arrays are built. Database drop-ins without a mysqli connection fall back to
+ * $wpdb, whose buffered rows are flushed right away.
+ *
+ * @param string $query The SQL SELECT query to run.
+ * @return string|null The database error, or null on success.
+ */
+function simple_sql_query_analyzer_run_discarding_rows( string $query ): ?string {
+	global $wpdb;
+
+	$dbh = $wpdb->dbh;
+	if ( ! $dbh instanceof \mysqli ) {
+		// phpcs:ignore WordPress.DB.PreparedSQL.NotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Query is validated before reaching this function via simple_sql_query_analyzer_validate_query().
+		$rows  = $wpdb->query( $query );
+		$error = false === $rows ? $wpdb->last_error : null;
+		$wpdb->flush();
+		return $error;
+	}
+
+	// phpcs:ignore WordPress.DB.RestrictedFunctions.mysql_mysqli_query -- $wpdb buffers every row; the rows are only drained here.
+	$result = mysqli_query( $dbh, $query, MYSQLI_USE_RESULT );
+	if ( false === $result ) {
+		return mysqli_error( $dbh );
+	}
+
+	if ( $result instanceof \mysqli_result ) {
+		mysqli_free_result( $result );
+	}
+
+	// Errors while the rows stream, such as the time limit, surface once they are drained.
+	return mysqli_errno( $dbh ) ? mysqli_error( $dbh ) : null;
+}
+
+/**
+ * Run a SELECT statement repeatedly and measure its execution time.
+ *
+ * Warm-up runs fill the buffer pool and are not measured. Each run drains the
+ * full result set without loading it into PHP, so the times cover the server
+ * executing the query and sending its rows, but not PHP building them. The
+ * query cache of MariaDB and MySQL 5.7 is bypassed with SQL_NO_CACHE. Runs
+ * stop at the first error, such as the time limit interrupting the query.
+ *
+ * @param string $query The SQL SELECT query to run.
+ * @param int    $runs Number of measured runs.
+ * @param int    $warmup Number of warm-up runs.
+ * @param int    $time_limit Time limit for each run in milliseconds.
+ * @return array<string, mixed> Times of each run in milliseconds, their statistics and the error, if any.
+ */
+function simple_sql_query_analyzer_benchmark_query( string $query, int $runs, int $warmup, int $time_limit ): array {
+	global $wpdb;
+
+	$server = simple_sql_query_analyzer_get_server_info();
+	if ( 'MariaDB' === $server['type'] || version_compare( $server['version'], '8.0.0', '<' ) ) {
+		$query = (string) preg_replace( '/^\s*SELECT\b/i', 'SELECT SQL_NO_CACHE', $query, 1 );
+	}
+
+	return simple_sql_query_analyzer_with_time_limit(
+		$time_limit,
+		true,
+		function () use ( $wpdb, $query, $runs, $warmup ) {
+			$times = array();
+			$error = null;
+
+			// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+			$started = $wpdb->query( 'START TRANSACTION READ ONLY' );
+			if ( false === $started ) {
+				return array(
+					'warmup' => $warmup,
+					'times'  => $times,
+					'stats'  => null,
+					'error'  => __( 'Could not start the read-only transaction that protects the benchmark.', 'simple-sql-query-analyzer' ),
+				);
+			}
+
+			try {
+				for ( $i = 0; $i < $warmup + $runs; $i++ ) {
+					$start = microtime( true );
+					$error = simple_sql_query_analyzer_run_discarding_rows( $query );
+					$time  = ( microtime( true ) - $start ) * 1000;
+
+					if ( null !== $error ) {
+						break;
+					}
+					if ( $i >= $warmup ) {
+						$times[] = $time;
+					}
+				}
+			} finally {
+				// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+				$wpdb->query( 'ROLLBACK' );
+			}
+
+			return array(
+				'warmup' => $warmup,
+				'times'  => $times,
+				'stats'  => simple_sql_query_analyzer_summarize_times( $times ),
+				'error'  => $error,
 			);
-			continue;
 		}
+	);
+}
 
-		$start_time = microtime( true );
+/**
+ * Run a SELECT statement once and measure the session status counters it changes.
+ *
+ * Reading SHOW SESSION STATUS changes some of the counters itself, for example
+ * Handler_read_rnd_next when the server reads them from performance_schema. Two
+ * snapshots in a row measure the cost of a bare read, which is subtracted from
+ * the query's deltas since the snapshot after the query pays it too. The rows
+ * of the query are drained without loading them into PHP.
+ *
+ * @param string $query The SQL SELECT query to run.
+ * @param int    $time_limit Time limit in milliseconds.
+ * @return array<string, mixed> The 'counters' changed by the query and the 'error' that stopped it, if any.
+ */
+function simple_sql_query_analyzer_measure_session_status( string $query, int $time_limit ): array {
+	global $wpdb;
 
-		try {
-			$query_result   = simple_sql_query_analyzer_analyze_query( $input['query'], $include_analyze );
-			$execution_time = microtime( true ) - $start_time;
+	return simple_sql_query_analyzer_with_time_limit(
+		$time_limit,
+		true,
+		function () use ( $wpdb, $query ) {
+			// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+			$started = $wpdb->query( 'START TRANSACTION READ ONLY' );
+			if ( false === $started ) {
+				return array(
+					'counters' => array(),
+					'error'    => __( 'Could not start the read-only transaction that protects the measurement.', 'simple-sql-query-analyzer' ),
+				);
+			}
 
-			$query_result['id']             = $input['id'];
-			$query_result['label']          = $input['label'];
-			$query_result['query']          = $input['query'];
-			$query_result['execution_time'] = $execution_time;
-			$query_result['error']          = null;
+			try {
+				$baseline = simple_sql_query_analyzer_get_session_status();
+				$before   = simple_sql_query_analyzer_get_session_status();
+				$error    = simple_sql_query_analyzer_run_discarding_rows( $query );
+				$after    = simple_sql_query_analyzer_get_session_status();
+			} finally {
+				// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+				$wpdb->query( 'ROLLBACK' );
+			}
+
+			$counters = array();
+			foreach ( $after as $name => $value ) {
+				$read_cost         = ( $before[ $name ] ?? 0 ) - ( $baseline[ $name ] ?? 0 );
+				$counters[ $name ] = max( 0, $value - ( $before[ $name ] ?? 0 ) - $read_cost );
+			}
+
+			return array(
+				'counters' => $counters,
+				'error'    => $error,
+			);
+		}
+	);
+}
+
+/**
+ * Read the session status counters that show how a query read, sorted and joined rows.
+ *
+ * @return array<string, int> Counter values by name.
+ */
+function simple_sql_query_analyzer_get_session_status(): array {
+	global $wpdb;
+
+	$names = array(
+		'Handler_read_first',
+		'Handler_read_key',
+		'Handler_read_last',
+		'Handler_read_next',
+		'Handler_read_prev',
+		'Handler_read_rnd',
+		'Handler_read_rnd_next',
+		'Created_tmp_tables',
+		'Created_tmp_disk_tables',
+		'Sort_merge_passes',
+		'Sort_range',
+		'Sort_rows',
+		'Sort_scan',
+		'Select_full_join',
+		'Select_full_range_join',
+		'Select_range',
+		'Select_range_check',
+		'Select_scan',
+	);
+
+	// phpcs:ignore WordPress.DB.PreparedSQL.InterpolatedNotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Counter names are constants.
+	$rows = $wpdb->get_results( "SHOW SESSION STATUS WHERE Variable_name IN ('" . implode( "', '", $names ) . "')", ARRAY_A );
+
+	$status = array();
+	foreach ( $rows ?? array() as $row ) {
+		$status[ $row['Variable_name'] ] = (int) $row['Value'];
+	}
+
+	// Keep the order above rather than the server's.
+	return array_replace( array_intersect_key( array_flip( $names ), $status ), $status );
+}
+
+/**
+ * Record the optimizer trace of a SQL query.
+ *
+ * Enables optimizer_trace for this session, explains the query and reads the
+ * trace from INFORMATION_SCHEMA.OPTIMIZER_TRACE. Explaining the query goes
+ * through the same optimization as running it, so the trace shows the access
+ * paths the optimizer considered and why it chose the plan, without executing
+ * write statements. The previous session settings are restored afterwards.
+ * Requires MySQL 5.6+ or MariaDB 10.4+.
+ *
+ * @param string $query The SQL query to trace.
+ * @return array<string, mixed> The 'trace' JSON, the 'missing_bytes' cut off by the memory limit and the 'error', if any.
+ */
+function simple_sql_query_analyzer_execute_optimizer_trace( string $query ): array {
+	global $wpdb;
+
+	$result = array(
+		'trace'         => null,
+		'missing_bytes' => 0,
+		'error'         => null,
+	);
+
+	// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+	$previous = $wpdb->get_row( 'SELECT @@SESSION.optimizer_trace AS trace, @@SESSION.optimizer_trace_max_mem_size AS mem_size', ARRAY_A );
+	if ( ! $previous ) {
+		$result['error'] = __( 'The database server does not support the optimizer trace (MySQL 5.6+ or MariaDB 10.4+ required).', 'simple-sql-query-analyzer' );
+		return $result;
+	}
+
+	// The default of 1 MB cuts off the trace of queries joining a few tables.
+	// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+	$wpdb->query( "SET SESSION optimizer_trace = 'enabled=on', SESSION optimizer_trace_max_mem_size = 16777216" );
+
+	try {
+		// phpcs:ignore WordPress.DB.PreparedSQL.NotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Query is validated before reaching this function via simple_sql_query_analyzer_validate_query().
+		if ( false === $wpdb->query( 'EXPLAIN ' . $query ) ) {
+			$result['error'] = $wpdb->last_error;
+			return $result;
+		}
+
+		// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+		$row = $wpdb->get_row( 'SELECT TRACE, MISSING_BYTES_BEYOND_MAX_MEM_SIZE FROM INFORMATION_SCHEMA.OPTIMIZER_TRACE', ARRAY_A );
+		if ( $row ) {
+			$result['trace']         = (string) $row['TRACE'];
+			$result['missing_bytes'] = (int) $row['MISSING_BYTES_BEYOND_MAX_MEM_SIZE'];
+		} else {
+			$result['error'] = __( 'The optimizer did not record a trace for this query.', 'simple-sql-query-analyzer' );
+		}
+	} finally {
+		// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+		$wpdb->query( $wpdb->prepare( 'SET SESSION optimizer_trace = %s, SESSION optimizer_trace_max_mem_size = %d', $previous['trace'], $previous['mem_size'] ) );
+	}
+
+	return $result;
+}
+
+/**
+ * Compute statistics of benchmark run times.
+ *
+ * The median and 95th percentile are interpolated between the nearest runs.
+ *
+ * @param array<int, float> $times Run times in milliseconds.
+ * @return array<string, float>|null Minimum, median, 95th percentile, maximum, mean and standard deviation, or null without runs.
+ */
+function simple_sql_query_analyzer_summarize_times( array $times ): ?array {
+	$count = count( $times );
+	if ( 0 === $count ) {
+		return null;
+	}
+
+	sort( $times );
+
+	$percentile = function ( float $fraction ) use ( $times, $count ): float {
+		$position = ( $count - 1 ) * $fraction;
+		$lower    = (int) floor( $position );
+		$upper    = (int) ceil( $position );
+		return $times[ $lower ] + ( $times[ $upper ] - $times[ $lower ] ) * ( $position - $lower );
+	};
+
+	$mean     = array_sum( $times ) / $count;
+	$variance = 0.0;
+	foreach ( $times as $time ) {
+		$variance += ( $time - $mean ) ** 2;
+	}
+
+	return array(
+		'min'    => $times[0],
+		'median' => $percentile( 0.5 ),
+		'p95'    => $percentile( 0.95 ),
+		'max'    => $times[ $count - 1 ],
+		'mean'   => $mean,
+		'stddev' => sqrt( $variance / $count ),
+	);
+}
 
-			// Calculate total cost (approximation from first explain line).
-			if ( ! empty( $query_result['explain'] ) ) {
-				$explain_text = $query_result['explain'][0]['EXPLAIN'] ?? '';
-				if ( preg_match( '/cost=([0-9.e+]+)/', $explain_text, $matches ) ) {
-					$query_cost  = floatval( $matches[1] );
-					$total_cost += $query_cost;
-				}
-			}
+/**
+ * Extract the tables a write statement may change.
+ *
+ * INSERT and REPLACE change the table after INTO. UPDATE and DELETE may change
+ * any table of their table references: all of them are returned, since telling
+ * the targets of a multi-table statement from the tables it only reads would
+ * mean resolving aliases. CTEs defined by a WITH clause are left out.
+ *
+ * @param string $query The SQL query.
+ * @return array<int, string>|null Table names, optionally schema-qualified; null when the
+ *                                 targets cannot be determined, e.g. for a parenthesized join.
+ */
+function simple_sql_query_analyzer_extract_write_targets( string $query ): ?array {
+	$main = simple_sql_query_analyzer_get_main_statement( $query );
+	if ( null === $main ) {
+		return null;
+	}
 
-			$total_time += $execution_time;
+	$table     = '`?[a-zA-Z0-9_$\-]+`?(?:\s*\.\s*`?[a-zA-Z0-9_$\-]+`?)?';
+	$statement = $main['statement'];
 
-			if ( $execution_time > $slowest_time ) {
-				$slowest_time  = $execution_time;
-				$slowest_index = $index;
+	if ( preg_match( '/^(?:INSERT|REPLACE)(?:\s+(?:LOW_PRIORITY|DELAYED|HIGH_PRIORITY|IGNORE))*(?:\s+INTO)?\s+(' . $table . ')/i', $statement, $matches ) ) {
+		$tables = array( $matches[1] );
+	} else {
+		// Subqueries and join conditions name no targets; collapse them so their keywords are not matched.
+		do {
+			$statement = (string) preg_replace( '/\([^()]*\)/', "\x01", $statement, -1, $count );
+		} while ( $count > 0 );
+
+		if ( preg_match( '/^UPDATE(?:\s+(?:LOW_PRIORITY|IGNORE))*\s+(.+?)\s+SET\s/is', $statement, $matches ) ) {
+			$references = $matches[1];
+		} elseif ( preg_match( '/^DELETE(?:\s+(?:LOW_PRIORITY|QUICK|IGNORE))*\s+(FROM\s+)?(.+?)(?:\s+(?:WHERE|ORDER\s+BY|LIMIT|RETURNING)\s.*)?$/is', $statement, $matches ) ) {
+			// DELETE FROM t, DELETE FROM t1, t2 USING references, DELETE t1, t2 FROM references.
+			$parts      = preg_split( $matches[1] ? '/\s+USING\s+/i' : '/\s+FROM\s+/i', $matches[2], 2 );
+			$references = $parts[ count( $parts ) - 1 ];
+			if ( ! $matches[1] && 1 === count( $parts ) ) {
+				return null;
 			}
+		} else {
+			return null;
+		}
 
-			if ( ! empty( $query_result['explain'] ) ) {
-				$explain_text = strtoupper( $query_result['explain'][0]['EXPLAIN'] ?? '' );
-				if ( strpos( $explain_text, 'TABLE SCAN' ) !== false ) {
-					$has_warnings = true;
-				}
-			}
+		if ( false !== strpos( $references, '(' ) || false !== strpos( $references, ')' ) ) {
+			return null;
+		}
 
-			$results[] = $query_result;
-		} catch ( \Exception $e ) {
-			$results[] = array(
-				'id'      => $input['id'],
-				'label'   => $input['label'],
-				'query'   => $input['query'],
-				'error'   => $e->getMessage(),
-				'tables'  => array(),
-				'indexes' => array(),
-				'explain' => array(),
-				'analyze' => array(),
-			);
+		$tables = array();
+		foreach ( preg_split( '/\s*,\s*|\s+(?:(?:NATURAL\s+)?(?:INNER\s+|CROSS\s+|(?:LEFT|RIGHT)(?:\s+OUTER)?\s+)?JOIN|STRAIGHT_JOIN)\s+/i', trim( $references ) ) as $reference ) {
+			// A derived table or a parenthesized join: the tables behind it are unknown.
+			if ( ! preg_match( '/^(' . $table . ')(?:\s|$)/', $reference, $matches ) ) {
+				return null;
+			}
+			$tables[] = $matches[1];
 		}
 	}
 
-	$complete_output = simple_sql_query_analyzer_format_multi_query_output( $results );
-
-	return array(
-		'queries'         => $results,
-		'summary'         => array(
-			'total_queries'        => count( $results ),
-			'total_execution_time' => $total_time,
-			'total_cost'           => (int) $total_cost,
-			'slowest_query_index'  => $slowest_index,
-			'has_warnings'         => $has_warnings,
+	$ctes   = array_map( 'strtolower', $main['ctes'] );
+	$tables = array_filter(
+		array_map(
+			function ( $name ) {
+				return (string) preg_replace( '/[`\s]/', '', $name );
+			},
+			$tables
 		),
-		'complete_output' => $complete_output,
+		function ( $name ) use ( $ctes ) {
+			return ! in_array( strtolower( $name ), $ctes, true );
+		}
 	);
+
+	return empty( $tables ) ? null : array_values( array_unique( $tables ) );
 }
 
 /**
- * Execute EXPLAIN FORMAT=TREE on a SQL query.
+ * Split a table name, optionally qualified with its schema, into its parts.
  *
- * Runs MySQL's EXPLAIN statement with FORMAT=TREE to provide a user-friendly,
- * tree-structured execution plan with cost estimates. This format shows the
- * query execution flow hierarchically, making it easier to understand how
- * MySQL will process the query.
+ * Unlike sanitize_key(), keeps the case of the identifiers: table names are
+ * case sensitive on servers with lower_case_table_names=0.
  *
- * @since 1.0.0
+ * @param string $table Table name such as wp_posts or otherdb.wp_posts, with or without backticks.
+ * @return array<string, string>|null The 'schema', DB_NAME when not qualified, and 'name'; null when the name is not a plain identifier.
+ */
+function simple_sql_query_analyzer_parse_table_identifier( string $table ): ?array {
+	if ( ! preg_match( '/^`?([a-zA-Z0-9_$\-]+)`?(?:\.`?([a-zA-Z0-9_$\-]+)`?)?$/', trim( $table ), $matches ) ) {
+		return null;
+	}
+
+	return isset( $matches[2] )
+		? array(
+			'schema' => $matches[1],
+			'name'   => $matches[2],
+		)
+		: array(
+			'schema' => DB_NAME,
+			'name'   => $matches[1],
+		);
+}
+
+/**
+ * Check that a write statement only touches tables whose changes roll back.
  *
- * @param string $query The SQL SELECT query to analyze. Must be a valid SELECT statement.
- * @return array<int, array<string, string>> Array of EXPLAIN results. Each element contains
- *                                           an 'EXPLAIN' key with the tree-formatted plan.
- *                                           Returns empty array if EXPLAIN fails.
+ * Tables are looked up in their own schema. A table that cannot be found, such
+ * as a name misread by the parser, counts as unsafe: its engine is unknown.
+ *
+ * @param array<int, string> $tables Tables the statement writes to, optionally schema-qualified.
+ * @return string|null Reason to refuse the statement, or null if every table is transactional.
  */
-function simple_sql_query_analyzer_execute_explain( string $query ): array {
+function simple_sql_query_analyzer_check_transactional_tables( array $tables ): ?string {
 	global $wpdb;
 
-	// phpcs:ignore WordPress.DB.PreparedSQL.NotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Query is validated before reaching this function via simple_sql_query_analyzer_validate_query().
-	$results = $wpdb->get_results( 'EXPLAIN FORMAT=TREE ' . $query, ARRAY_A );
+	if ( empty( $tables ) ) {
+		return __( 'The tables the statement writes to could not be determined, so it cannot be rolled back safely.', 'simple-sql-query-analyzer' );
+	}
 
-	return $results ?? array();
+	$transactional_engines = array( 'innodb', 'ndbcluster', 'rocksdb', 'tokudb' );
+	$unsafe                = array();
+
+	foreach ( $tables as $table ) {
+		$identifier = simple_sql_query_analyzer_parse_table_identifier( $table );
+		if ( null === $identifier ) {
+			$unsafe[] = $table . ' (' . __( 'not found', 'simple-sql-query-analyzer' ) . ')';
+			continue;
+		}
+
+		// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+		$row = $wpdb->get_row(
+			$wpdb->prepare(
+				'SELECT ENGINE, TABLE_TYPE FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_SCHEMA = %s AND TABLE_NAME = %s',
+				$identifier['schema'],
+				$identifier['name']
+			),
+			ARRAY_A
+		);
+
+		if ( ! $row ) {
+			$unsafe[] = $table . ' (' . __( 'not found', 'simple-sql-query-analyzer' ) . ')';
+			continue;
+		}
+
+		// Views have no engine; the tables behind them are unknown here.
+		$engine = 'VIEW' === $row['TABLE_TYPE'] ? 'VIEW' : (string) $row['ENGINE'];
+		if ( ! in_array( strtolower( $engine ), $transactional_engines, true ) ) {
+			$unsafe[] = $table . ' (' . $engine . ')';
+		}
+	}
+
+	if ( empty( $unsafe ) ) {
+		return null;
+	}
+
+	return sprintf(
+		/* translators: %s = comma separated list of tables with their storage engine */
+		__( 'ANALYZE was not run because changes to these tables cannot be rolled back, or their storage engine is unknown: %s', 'simple-sql-query-analyzer' ),
+		implode( ', ', $unsafe )
+	);
 }
 
 /**
- * Execute EXPLAIN ANALYZE on a SQL query.
- *
- * Runs MySQL's EXPLAIN ANALYZE statement to execute the query and provide
- * real-time execution metrics. Available in MySQL 8.0.18+, this actually
- * runs the query and reports actual execution times, row counts, and loop
- * iterations alongside the estimated values.
+ * Test a hypothetical index with an invisible index.
  *
- * WARNING: This executes the query, so it will consume resources and time
- * proportional to the query's complexity and the data size.
+ * Creates the index as INVISIBLE so that other sessions keep ignoring it,
+ * explains the query with use_invisible_indexes=on in this session only,
+ * then drops the index and restores the optimizer switches. Requires MySQL 8.0+.
  *
- * @since 1.0.0
+ * WARNING: Building an index on a large table takes time and locks metadata.
+ * Run this against a copy of production data.
  *
- * @param string $query The SQL SELECT query to analyze. Must be a valid SELECT statement.
- * @return array<int, array<string, string>> Array of ANALYZE results. Each element contains
- *                                           an 'EXPLAIN' key with actual vs estimated metrics.
- *                                           Returns empty array if ANALYZE fails or is unsupported.
+ * @param string             $query The SQL query to explain.
+ * @param string             $table The table that receives the index, optionally schema-qualified.
+ * @param array<int, string> $columns Index columns, optionally with a prefix length.
+ * @param mixed              $query_tables Tables parsed by the dashboard, if any.
+ * @return array<string, mixed> Index name, statement, plans before and after, and whether the index was used.
+ * @throws \Exception If the table or columns are invalid or the index cannot be created.
  */
-function simple_sql_query_analyzer_execute_analyze( string $query ): array {
+function simple_sql_query_analyzer_test_hypothetical_index( string $query, string $table, array $columns, $query_tables = null ): array {
 	global $wpdb;
 
-	// phpcs:ignore WordPress.DB.PreparedSQL.NotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching -- Query is validated before reaching this function via simple_sql_query_analyzer_validate_query().
-	$results = $wpdb->get_results( 'EXPLAIN ANALYZE ' . $query, ARRAY_A );
+	$query_tables = array_map( 'simple_sql_query_analyzer_parse_table_identifier', simple_sql_query_analyzer_resolve_tables( $query, $query_tables ) );
+	$identifier   = simple_sql_query_analyzer_parse_table_identifier( $table );
 
-	return $results ?? array();
+	if ( null === $identifier || ! in_array( $identifier, $query_tables, true ) ) {
+		throw new \Exception( wp_kses_post( __( 'The table is not used by the query.', 'simple-sql-query-analyzer' ) ) );
+	}
+
+	// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+	$table_columns = $wpdb->get_col(
+		$wpdb->prepare(
+			'SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_SCHEMA = %s AND TABLE_NAME = %s',
+			$identifier['schema'],
+			$identifier['name']
+		)
+	);
+
+	$column_definitions = array();
+	foreach ( $columns as $column ) {
+		if ( ! preg_match( '/^\s*([a-zA-Z0-9_$]+)\s*(?:\(\s*(\d+)\s*\))?\s*$/', $column, $matches ) || ! in_array( $matches[1], $table_columns, true ) ) {
+			/* translators: %s = column name */
+			throw new \Exception( wp_kses_post( sprintf( __( 'Unknown column: %s', 'simple-sql-query-analyzer' ), $column ) ) );
+		}
+
+		$column_definitions[] = '`' . $matches[1] . '`' . ( ! empty( $matches[2] ) ? '(' . (int) $matches[2] . ')' : '' );
+	}
+
+	$table      = '`' . $identifier['schema'] . '`.`' . $identifier['name'] . '`';
+	$index_name = 'ssqa_whatif_' . substr( md5( $table . implode( ',', $column_definitions ) . microtime() ), 0, 8 );
+	$statement  = "ALTER TABLE $table ADD INDEX `$index_name` (" . implode( ', ', $column_definitions ) . ')';
+
+	$before = simple_sql_query_analyzer_execute_explain( $query );
+
+	// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+	$optimizer_switch = (string) $wpdb->get_var( 'SELECT @@SESSION.optimizer_switch' );
+
+	// phpcs:ignore WordPress.DB.PreparedSQL.NotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching,WordPress.DB.DirectDatabaseQuery.SchemaChange -- Identifiers validated against INFORMATION_SCHEMA above.
+	if ( false === $wpdb->query( $statement . ' INVISIBLE' ) ) {
+		/* translators: %s = database error */
+		throw new \Exception( wp_kses_post( sprintf( __( 'Could not create the invisible index (MySQL 8.0+ required): %s', 'simple-sql-query-analyzer' ), $wpdb->last_error ) ) );
+	}
+
+	try {
+		// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+		$wpdb->query( "SET SESSION optimizer_switch = 'use_invisible_indexes=on'" );
+
+		$after = simple_sql_query_analyzer_execute_explain( $query );
+	} finally {
+		// phpcs:ignore WordPress.DB.PreparedSQL.InterpolatedNotPrepared,WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching,WordPress.DB.DirectDatabaseQuery.SchemaChange -- Identifiers generated and validated above.
+		$wpdb->query( "ALTER TABLE $table DROP INDEX `$index_name`" );
+		// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+		$wpdb->query( $wpdb->prepare( 'SET SESSION optimizer_switch = %s', $optimizer_switch ) );
+	}
+
+	// TREE output names the index in its text; tabular rows list it in their key column, comma separated for index merges.
+	$index_used = false;
+	foreach ( $after as $row ) {
+		if ( false !== strpos( (string) ( $row['EXPLAIN'] ?? '' ), $index_name ) || in_array( $index_name, explode( ',', (string) ( $row['key'] ?? '' ) ), true ) ) {
+			$index_used = true;
+			break;
+		}
+	}
+
+	return array(
+		'index_name' => $index_name,
+		'statement'  => $statement . ';',
+		'before'     => $before,
+		'after'      => $after,
+		'index_used' => $index_used,
+	);
 }
 
 /**
@@ -469,80 +3038,111 @@ function simple_sql_query_analyzer_execute_analyze( string $query ): array {
  *
  * Executes EXPLAIN/ANALYZE and gathers database information.
  *
- * @param string $query The SQL query to analyze.
- * @param bool   $include_analyze Whether to include ANALYZE results.
+ * @param string             $query The SQL query to analyze.
+ * @param bool               $include_analyze Whether to include ANALYZE results.
+ * @param mixed              $tables Tables parsed by the dashboard, if any.
+ * @param bool               $include_json Whether to include the EXPLAIN FORMAT=JSON plan.
+ * @param int                $analyze_time_limit Time limit for ANALYZE and benchmark runs, in milliseconds.
+ * @param array<string, int> $benchmark Measured 'runs' and 'warmup' runs; no benchmark without runs.
+ * @param bool               $include_status Whether to measure the session status counters the query changes.
+ * @param bool               $include_trace Whether to include the optimizer trace.
  * @return array<string, mixed> Analysis results.
  * @throws \Exception If analysis fails.
  */
-function simple_sql_query_analyzer_analyze_query( string $query, bool $include_analyze = false ): array {
+function simple_sql_query_analyzer_analyze_query( string $query, bool $include_analyze = false, $tables = null, bool $include_json = false, int $analyze_time_limit = 10000, array $benchmark = array(), bool $include_status = false, bool $include_trace = false ): array {
 	global $wpdb;
 
-	$tables = simple_sql_query_analyzer_extract_table_names( $query );
-
-	if ( empty( $tables ) ) {
-		throw new \Exception( wp_kses_post( __( 'No tables found in query.', 'simple-sql-query-analyzer' ) ) );
-	}
+	// A query without tables, e.g. SELECT NOW(), is still explained.
+	$tables = simple_sql_query_analyzer_resolve_tables( $query, $tables );
 
+	$server          = simple_sql_query_analyzer_get_server_info();
 	$explain_results = simple_sql_query_analyzer_execute_explain( $query );
 
-	$analyze_results = array();
+	$analyze_results    = array();
+	$analyze_json       = array();
+	$analyze_protection = null;
 	if ( $include_analyze ) {
-		$analyze_results = simple_sql_query_analyzer_execute_analyze( $query );
+		$sandboxed          = simple_sql_query_analyzer_execute_sandboxed_analyze( $query, $analyze_time_limit );
+		$analyze_results    = $sandboxed['analyze'];
+		$analyze_json       = $sandboxed['analyze_json'];
+		$analyze_protection = $sandboxed['protection'];
+	}
+
+	// Only SELECT statements are benchmarked: write statements would change the data on every run.
+	$benchmark_result = null;
+	if ( ! empty( $benchmark['runs'] ) && 'SELECT' === simple_sql_query_analyzer_get_query_type( $query ) ) {
+		$benchmark_result = simple_sql_query_analyzer_benchmark_query( $query, (int) $benchmark['runs'], (int) ( $benchmark['warmup'] ?? 0 ), $analyze_time_limit );
+	}
+
+	// Measuring the counters executes the query, so write statements are left out here too.
+	$session_status = null;
+	if ( $include_status && 'SELECT' === simple_sql_query_analyzer_get_query_type( $query ) ) {
+		$session_status = simple_sql_query_analyzer_measure_session_status( $query, $analyze_time_limit );
+	}
+
+	$optimizer_trace = null;
+	if ( $include_trace ) {
+		$optimizer_trace = simple_sql_query_analyzer_execute_optimizer_trace( $query );
+	}
+
+	$explain_json = array();
+	if ( $include_json ) {
+		$explain_json = simple_sql_query_analyzer_execute_explain_json( $query );
 	}
 
 	$table_info = array();
 	$index_info = array();
 
 	foreach ( $tables as $table ) {
-		$sanitized_table = sanitize_key( $table );
+		$identifier = simple_sql_query_analyzer_parse_table_identifier( $table );
+		if ( null === $identifier ) {
+			continue;
+		}
 
 		// Get table structure.
 		// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
 		$columns = $wpdb->get_results(
 			$wpdb->prepare(
 				'SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_SCHEMA = %s AND TABLE_NAME = %s ORDER BY ORDINAL_POSITION',
-				DB_NAME,
-				$sanitized_table
+				$identifier['schema'],
+				$identifier['name']
 			),
 			ARRAY_A
 		);
 
-		if ( $columns ) {
-			$table_info[ $table ] = array(
-				'name'    => $table,
-				'columns' => array_map(
-					function ( $col ) {
-						return array(
-							'name'    => $col['COLUMN_NAME'],
-							'type'    => $col['COLUMN_TYPE'],
-							'null'    => 'YES' === $col['IS_NULLABLE'],
-							'key'     => $col['COLUMN_KEY'],
-							'default' => $col['COLUMN_DEFAULT'],
-						);
-					},
-					$columns
-				),
-			);
+		// Skip tables that do not exist, such as names the regex fallback mistook for tables.
+		if ( ! $columns ) {
+			continue;
 		}
 
+		// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
+		$stats = $wpdb->get_row(
+			$wpdb->prepare(
+				'SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_SCHEMA = %s AND TABLE_NAME = %s',
+				$identifier['schema'],
+				$identifier['name']
+			),
+			ARRAY_A
+		);
+
+		$table_info[ $table ] = array(
+			'name'    => $table,
+			'columns' => array_map( 'simple_sql_query_analyzer_format_column', $columns ),
+		) + ( $stats ? simple_sql_query_analyzer_format_table_stats( $stats ) : array() );
+
 		// Get indexes with escaped table name - backticks protect identifier from SQL injection.
 		// phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery,WordPress.DB.DirectDatabaseQuery.NoCaching
 		$indexes = $wpdb->get_results(
-			// phpcs:ignore WordPress.DB.PreparedSQL.InterpolatedNotPrepared -- Table identifier safely escaped with backticks and sanitize_key
-			"SHOW INDEX FROM `$sanitized_table`",
+			// phpcs:ignore WordPress.DB.PreparedSQL.InterpolatedNotPrepared -- Identifiers validated by parse_table_identifier and escaped with backticks
+			"SHOW INDEX FROM `{$identifier['schema']}`.`{$identifier['name']}`",
 			ARRAY_A
 		);
 
 		if ( $indexes ) {
+			$table_rows           = $table_info[ $table ]['rows'] ?? null;
 			$index_info[ $table ] = array_map(
-				function ( $idx ) {
-					return array(
-						'name'   => $idx['Key_name'],
-						'type'   => $idx['Index_type'],
-						'unique' => ! (bool) $idx['Non_unique'],
-						'column' => $idx['Column_name'],
-						'seq'    => $idx['Seq_in_index'],
-					);
+				function ( $idx ) use ( $table_rows ) {
+					return simple_sql_query_analyzer_format_index( $idx, $table_rows );
 				},
 				$indexes
 			);
@@ -552,12 +3152,19 @@ function simple_sql_query_analyzer_analyze_query( string $query, bool $include_a
 	$complete_output = simple_sql_query_analyzer_format_output( $query, $explain_results, $table_info, $index_info, $analyze_results, $include_analyze );
 
 	return array(
-		'query'           => $query,
-		'tables'          => array_values( $table_info ),
-		'indexes'         => $index_info,
-		'explain'         => $explain_results,
-		'analyze'         => $analyze_results,
-		'complete_output' => $complete_output,
+		'query'              => $query,
+		'tables'             => array_values( $table_info ),
+		'indexes'            => $index_info,
+		'explain'            => $explain_results,
+		'explain_format'     => $server['supports_tree'] ? 'tree' : 'traditional',
+		'analyze'            => $analyze_results,
+		'analyze_json'       => $analyze_json,
+		'analyze_protection' => $analyze_protection,
+		'benchmark'          => $benchmark_result,
+		'session_status'     => $session_status,
+		'optimizer_trace'    => $optimizer_trace,
+		'explain_json'       => $explain_json,
+		'complete_output'    => $complete_output,
 	);
 }
 
@@ -609,9 +3216,33 @@ function simple_sql_query_analyzer_format_table_columns( array $columns ): strin
 	return $output;
 }
 
+/**
+ * Format the row estimate, sizes and engine of a table on one line.
+ *
+ * @param array<string, mixed> $table Table info, with the statistics of simple_sql_query_analyzer_format_table_stats().
+ * @return string Formatted line, or an empty string for reports saved without statistics.
+ */
+function simple_sql_query_analyzer_format_table_stats_line( array $table ): string {
+	if ( ! isset( $table['data_length'] ) ) {
+		return '';
+	}
+
+	return sprintf(
+		"Rows (est.): %s, Data: %s, Indexes: %s, Engine: %s\n",
+		null === $table['rows'] ? 'unknown' : number_format( $table['rows'] ),
+		size_format( $table['data_length'] ),
+		size_format( $table['index_length'] ),
+		$table['engine'] ?? 'unknown'
+	);
+}
+
 /**
  * Format indexes with aligned padding.
  *
+ * SHOW INDEX returns one entry per indexed column; entries are grouped into one
+ * line per index with its columns in index order, so composite indexes read as
+ * a whole.
+ *
  * @param array<int, array<string, mixed>> $indexes Array of index data.
  * @return string Formatted indexes with aligned padding.
  */
@@ -620,43 +3251,82 @@ function simple_sql_query_analyzer_format_indexes( array $indexes ): string {
 		return '';
 	}
 
+	$grouped = array();
+	foreach ( $indexes as $idx ) {
+		$grouped[ $idx['name'] ][] = $idx;
+	}
+
+	$lines = array();
+	foreach ( $grouped as $name => $parts ) {
+		usort(
+			$parts,
+			function ( $a, $b ) {
+				return (int) $a['seq'] <=> (int) $b['seq'];
+			}
+		);
+
+		// The cardinality of the last column is that of the whole index.
+		$last    = end( $parts );
+		$lines[] = array(
+			'name'        => (string) $name,
+			'type'        => '(' . $last['type'] . ')',
+			'columns'     => implode( ', ', array_map( 'simple_sql_query_analyzer_format_index_column', $parts ) ),
+			'unique'      => $last['unique'] ? 'UNIQUE' : '',
+			'cardinality' => $last['cardinality'] ?? null,
+			'selectivity' => $last['selectivity'] ?? null,
+		);
+	}
+
 	// Pass 1: Calculate maximum widths.
 	$max_name_width   = 0;
 	$max_type_width   = 0;
 	$max_column_width = 0;
 
-	foreach ( $indexes as $idx ) {
-		$max_name_width   = max( $max_name_width, strlen( $idx['name'] ) );
-		$type_text        = '(' . $idx['type'] . ')';
-		$max_type_width   = max( $max_type_width, strlen( $type_text ) );
-		$max_column_width = max( $max_column_width, strlen( $idx['column'] ) );
+	foreach ( $lines as $line ) {
+		$max_name_width   = max( $max_name_width, strlen( $line['name'] ) );
+		$max_type_width   = max( $max_type_width, strlen( $line['type'] ) );
+		$max_column_width = max( $max_column_width, strlen( $line['columns'] ) );
 	}
 
 	$spacing = 4;
 	$output  = '';
 
 	// Pass 2: Format with padding.
-	foreach ( $indexes as $idx ) {
-		$type_text   = '(' . $idx['type'] . ')';
-		$unique_text = $idx['unique'] ? 'UNIQUE' : '';
-
-		$line = '  ' .
-			str_pad( $idx['name'], $max_name_width, ' ', STR_PAD_RIGHT ) .
+	foreach ( $lines as $line ) {
+		$text = '  ' .
+			str_pad( $line['name'], $max_name_width, ' ', STR_PAD_RIGHT ) .
 			str_repeat( ' ', $spacing ) .
-			str_pad( $type_text, $max_type_width, ' ', STR_PAD_RIGHT ) .
+			str_pad( $line['type'], $max_type_width, ' ', STR_PAD_RIGHT ) .
 			str_repeat( ' ', $spacing ) .
-			str_pad( $idx['column'], $max_column_width, ' ', STR_PAD_RIGHT );
+			str_pad( $line['columns'], $max_column_width, ' ', STR_PAD_RIGHT );
 
-		if ( $unique_text ) {
-			$line .= str_repeat( ' ', $spacing ) . $unique_text;
+		if ( $line['unique'] ) {
+			$text .= str_repeat( ' ', $spacing ) . $line['unique'];
 		}
 
-		$output .= $line . "\n";
+		if ( null !== $line['cardinality'] ) {
+			$text .= str_repeat( ' ', $spacing ) . 'cardinality=' . $line['cardinality'];
+		}
+		if ( null !== $line['selectivity'] ) {
+			$text .= ' selectivity=' . number_format( $line['selectivity'], 4 );
+		}
+
+		$output .= rtrim( $text ) . "\n";
 	}
 
 	return $output;
 }
 
+/**
+ * Format the column of an index entry, with its prefix length if any.
+ *
+ * @param array<string, mixed> $idx Index entry.
+ * @return string Column name, e.g. meta_key(191) for a prefix index.
+ */
+function simple_sql_query_analyzer_format_index_column( array $idx ): string {
+	return empty( $idx['sub_part'] ) ? (string) $idx['column'] : $idx['column'] . '(' . $idx['sub_part'] . ')';
+}
+
 /**
  * Format multi-query output for LLM integration.
  *
@@ -676,9 +3346,9 @@ function simple_sql_query_analyzer_format_multi_query_output( array $query_resul
 	$output .= 'Number of Queries: ' . count( $query_results ) . "\n";
 
 	// Environment Information.
-	global $wpdb;
-	$db_version = $wpdb->db_version();
-	$db_type    = ( strpos( $db_version, 'MariaDB' ) !== false ) ? 'MariaDB' : 'MySQL';
+	$server     = simple_sql_query_analyzer_get_server_info();
+	$db_version = $server['version'];
+	$db_type    = $server['type'];
 
 	$output .= 'WordPress Version: ' . get_bloginfo( 'version' ) . "\n";
 	$output .= 'PHP Version: ' . phpversion() . "\n";
@@ -712,12 +3382,12 @@ function simple_sql_query_analyzer_format_multi_query_output( array $query_resul
 	$output .= str_repeat( '=', 80 ) . "\n";
 	$output .= "EXECUTIVE SUMMARY\n";
 	$output .= str_repeat( '=', 80 ) . "\n";
-	$output .= 'Total Execution Time: ' . number_format( $total_time, 3 ) . "s\n";
+	$output .= 'Total Analysis Overhead: ' . number_format( $total_time, 3 ) . "s\n";
 	$output .= 'Total Estimated Cost: ' . number_format( (int) $total_cost, 0 ) . " (relative units)\n";
 
 	if ( null !== $slowest_index ) {
 		$slowest = $query_results[ $slowest_index ];
-		$output .= 'Slowest Query: ' . $slowest['label'] . ' (' . number_format( $slowest_time, 3 ) . "s)\n";
+		$output .= 'Slowest Analysis: ' . $slowest['label'] . ' (' . number_format( $slowest_time, 3 ) . "s)\n";
 	}
 
 	$output .= "\n";
@@ -734,7 +3404,43 @@ function simple_sql_query_analyzer_format_multi_query_output( array $query_resul
 		}
 
 		$execution_time = $result['execution_time'] ?? 0;
-		$output        .= 'Execution Time: ' . number_format( $execution_time, 3 ) . "s\n\n";
+		$output        .= 'Analysis Overhead: ' . number_format( $execution_time, 3 ) . "s (EXPLAIN and metadata lookups, not the query time)\n";
+
+		if ( ! empty( $result['benchmark']['stats'] ) ) {
+			$stats   = $result['benchmark']['stats'];
+			$output .= sprintf(
+				"Benchmark: %d runs after %d warm-up, min %.2f ms, median %.2f ms, p95 %.2f ms, max %.2f ms, stddev %.2f ms\n",
+				count( $result['benchmark']['times'] ),
+				$result['benchmark']['warmup'],
+				$stats['min'],
+				$stats['median'],
+				$stats['p95'],
+				$stats['max'],
+				$stats['stddev']
+			);
+		}
+		if ( ! empty( $result['benchmark']['error'] ) ) {
+			$output .= 'Benchmark Error: ' . $result['benchmark']['error'] . "\n";
+		}
+
+		if ( ! empty( $result['session_status']['counters'] ) ) {
+			$changed = array_filter( $result['session_status']['counters'] );
+			$output .= 'Session Status Deltas: ';
+			$output .= empty( $changed )
+				? 'none'
+				: implode(
+					', ',
+					array_map(
+						function ( $name, $value ) {
+							return $name . '=' . $value;
+						},
+						array_keys( $changed ),
+						$changed
+					)
+				);
+			$output .= "\n";
+		}
+		$output .= "\n";
 
 		// Original query.
 		$output .= str_repeat( '-', 80 ) . "\n";
@@ -744,7 +3450,20 @@ function simple_sql_query_analyzer_format_multi_query_output( array $query_resul
 
 		// Query type.
 		$query_type = simple_sql_query_analyzer_get_query_type( $result['query'] );
-		$output    .= 'Query Type: ' . $query_type . "\n\n";
+		$output    .= 'Query Type: ' . $query_type . "\n";
+
+		if ( ! empty( $result['analyze_protection'] ) ) {
+			$protection = $result['analyze_protection'];
+			$output    .= 'ANALYZE Protection: ' . $protection['mode'];
+			if ( null !== $protection['time_limit'] ) {
+				$output .= ', time limit ' . $protection['time_limit'] . ' ms';
+			}
+			if ( ! empty( $protection['message'] ) ) {
+				$output .= ' (' . $protection['message'] . ')';
+			}
+			$output .= "\n";
+		}
+		$output .= "\n";
 
 		// Execution plans.
 		if ( ! empty( $result['analyze'] ) ) {
@@ -754,11 +3473,36 @@ function simple_sql_query_analyzer_format_multi_query_output( array $query_resul
 			$output .= $result['analyze'][0]['EXPLAIN'] . "\n\n";
 		}
 
+		if ( ! empty( $result['analyze_json'] ) ) {
+			$output .= str_repeat( '-', 80 ) . "\n";
+			$output .= "EXECUTION PLAN (ACTUAL - ANALYZE FORMAT=JSON):\n";
+			$output .= str_repeat( '-', 80 ) . "\n";
+			$output .= $result['analyze_json'][0]['EXPLAIN'] . "\n\n";
+		}
+
 		if ( ! empty( $result['explain'] ) ) {
 			$output .= str_repeat( '-', 80 ) . "\n";
 			$output .= "EXECUTION PLAN (ESTIMATED - EXPLAIN):\n";
 			$output .= str_repeat( '-', 80 ) . "\n";
-			$output .= $result['explain'][0]['EXPLAIN'] . "\n\n";
+			$output .= simple_sql_query_analyzer_format_plan_text( $result['explain'] ) . "\n\n";
+		}
+
+		if ( ! empty( $result['explain_json'] ) ) {
+			$output .= str_repeat( '-', 80 ) . "\n";
+			$output .= "EXECUTION PLAN (JSON - EXPLAIN FORMAT=JSON):\n";
+			$output .= str_repeat( '-', 80 ) . "\n";
+			$output .= $result['explain_json'][0]['EXPLAIN'] . "\n\n";
+		}
+
+		if ( ! empty( $result['optimizer_trace']['trace'] ) ) {
+			$output .= str_repeat( '-', 80 ) . "\n";
+			$output .= "OPTIMIZER TRACE:\n";
+			$output .= str_repeat( '-', 80 ) . "\n";
+			$output .= $result['optimizer_trace']['trace'] . "\n";
+			if ( ! empty( $result['optimizer_trace']['missing_bytes'] ) ) {
+				$output .= '(truncated, ' . $result['optimizer_trace']['missing_bytes'] . " bytes missing)\n";
+			}
+			$output .= "\n";
 		}
 
 		// Table structures.
@@ -769,6 +3513,7 @@ function simple_sql_query_analyzer_format_multi_query_output( array $query_resul
 
 			foreach ( $result['tables'] as $table ) {
 				$output .= "\nTable: " . $table['name'] . "\n";
+				$output .= simple_sql_query_analyzer_format_table_stats_line( $table );
 				$output .= str_repeat( '-', 40 ) . "\n";
 				$output .= simple_sql_query_analyzer_format_table_columns( $table['columns'] );
 			}
@@ -799,28 +3544,130 @@ function simple_sql_query_analyzer_format_multi_query_output( array $query_resul
 /**
  * Get query type.
  *
- * Determines the type of SQL query.
+ * Determines the type of SQL query from its leading verb, after comments,
+ * opening parentheses and a WITH clause, so that WITH ... SELECT and
+ * (SELECT ...) UNION (SELECT ...) are SELECT statements.
  *
  * @param string $query The SQL query.
- * @return string The query type (SELECT, INSERT, UPDATE, DELETE, etc.).
+ * @return string The query type (SELECT, INSERT, UPDATE, DELETE, REPLACE or UNKNOWN).
  */
 function simple_sql_query_analyzer_get_query_type( string $query ): string {
-	$upper = strtoupper( trim( $query ) );
-	$upper = (string) preg_replace( '/^(\/\*.*?\*\/)*/s', '', $upper );
+	$main = simple_sql_query_analyzer_get_main_statement( $query );
 
-	if ( preg_match( '/^SELECT\s+/i', $upper ) ) {
-		return 'SELECT';
-	} elseif ( preg_match( '/^INSERT\s+/i', $upper ) ) {
-		return 'INSERT';
-	} elseif ( preg_match( '/^UPDATE\s+/i', $upper ) ) {
-		return 'UPDATE';
-	} elseif ( preg_match( '/^DELETE\s+/i', $upper ) ) {
-		return 'DELETE';
+	if ( null !== $main && preg_match( '/^(SELECT|INSERT|UPDATE|DELETE|REPLACE)\b/i', $main['statement'], $matches ) ) {
+		return strtoupper( $matches[1] );
 	}
 
 	return 'UNKNOWN';
 }
 
+/**
+ * Find the statement behind the comments, opening parentheses and WITH clause of a query.
+ *
+ * Comments are removed and string literals emptied first, so that neither can
+ * hide a parenthesis or a keyword.
+ *
+ * @param string $query The SQL query.
+ * @return array{statement: string, ctes: array<int, string>}|null The statement from its leading
+ *                                                               verb on and the names of the CTEs
+ *                                                               defined before it; null when the
+ *                                                               WITH clause cannot be parsed.
+ */
+function simple_sql_query_analyzer_get_main_statement( string $query ): ?array {
+	$sql  = simple_sql_query_analyzer_strip_comments_and_strings( $query );
+	$ctes = array();
+
+	while ( true ) {
+		$sql = ltrim( $sql, " \t\n\r(" );
+
+		if ( ! preg_match( '/^WITH\s+(?:RECURSIVE\s+)?/i', $sql, $matches ) ) {
+			return array(
+				'statement' => $sql,
+				'ctes'      => $ctes,
+			);
+		}
+
+		// Each CTE is: name [(columns)] AS (query), separated by commas.
+		$offset = strlen( $matches[0] );
+		do {
+			if ( ! preg_match( '/\G`?([a-zA-Z0-9_$]+)`?\s*/', $sql, $matches, 0, $offset ) ) {
+				return null;
+			}
+			$ctes[]  = $matches[1];
+			$offset += strlen( $matches[0] );
+
+			if ( '(' === ( $sql[ $offset ] ?? '' ) ) {
+				$offset = simple_sql_query_analyzer_find_closing_parenthesis( $sql, $offset );
+				if ( null === $offset || ! preg_match( '/\G\)\s*/', $sql, $matches, 0, $offset ) ) {
+					return null;
+				}
+				$offset += strlen( $matches[0] );
+			}
+
+			if ( ! preg_match( '/\GAS\s*(?=\()/i', $sql, $matches, 0, $offset ) ) {
+				return null;
+			}
+			$offset = simple_sql_query_analyzer_find_closing_parenthesis( $sql, $offset + strlen( $matches[0] ) );
+			if ( null === $offset ) {
+				return null;
+			}
+
+			preg_match( '/\G\)\s*(,?)\s*/', $sql, $matches, 0, $offset );
+			$offset += strlen( $matches[0] );
+		} while ( '' !== $matches[1] );
+
+		$sql = substr( $sql, $offset );
+	}
+}
+
+/**
+ * Remove the comments of a query and empty its string literals.
+ *
+ * Backtick-quoted identifiers are kept as they are.
+ *
+ * @param string $query The SQL query.
+ * @return string The query with comments replaced by spaces and string literals by ''.
+ */
+function simple_sql_query_analyzer_strip_comments_and_strings( string $query ): string {
+	return (string) preg_replace_callback(
+		'/\'(?:[^\'\\\\]|\\\\.|\'\')*\'|"(?:[^"\\\\]|\\\\.|"")*"|`[^`]*`|\/\*.*?\*\/|(?:--(?=\s|$)|#)[^\n]*/s',
+		function ( $matches ) {
+			switch ( $matches[0][0] ) {
+				case '`':
+					return $matches[0];
+				case "'":
+				case '"':
+					return "''";
+				default:
+					return ' ';
+			}
+		},
+		$query
+	);
+}
+
+/**
+ * Find the parenthesis that closes the one at the given position.
+ *
+ * @param string $sql SQL without comments or string contents.
+ * @param int    $offset Position of the opening parenthesis.
+ * @return int|null Position of the closing parenthesis, or null when it is missing.
+ */
+function simple_sql_query_analyzer_find_closing_parenthesis( string $sql, int $offset ): ?int {
+	$depth  = 0;
+	$length = strlen( $sql );
+
+	for ( $i = $offset; $i < $length; $i++ ) {
+		if ( '(' === $sql[ $i ] ) {
+			++$depth;
+		} elseif ( ')' === $sql[ $i ] && 0 === --$depth ) {
+			return $i;
+		}
+	}
+
+	return null;
+}
+
 /**
  * Format output for LLM integration.
  *
@@ -844,9 +3691,9 @@ function simple_sql_query_analyzer_format_output( string $query, array $explain,
 	$output .= 'Generated: ' . current_time( 'mysql' ) . "\n";
 	$output .= 'Include ANALYZE: ' . ( $include_analyze ? 'Yes' : 'No' ) . "\n";
 	// Environment Information.
-	global $wpdb;
-	$db_version = $wpdb->db_version();
-	$db_type    = ( strpos( $db_version, 'MariaDB' ) !== false ) ? 'MariaDB' : 'MySQL';
+	$server     = simple_sql_query_analyzer_get_server_info();
+	$db_version = $server['version'];
+	$db_type    = $server['type'];
 
 	$output .= 'WordPress Version: ' . get_bloginfo( 'version' ) . "\n";
 	$output .= 'PHP Version: ' . phpversion() . "\n";
@@ -915,6 +3762,7 @@ function simple_sql_query_analyzer_format_output( string $query, array $explain,
 
 	foreach ( $tables as $table ) {
 		$output .= sprintf( "Table: %s\n", $table['name'] );
+		$output .= simple_sql_query_analyzer_format_table_stats_line( $table );
 
 		if ( ! empty( $table['columns'] ) ) {
 			$output .= "  Columns:\n";
@@ -952,13 +3800,15 @@ function simple_sql_query_analyzer_format_output( string $query, array $explain,
 
 		if ( ! empty( $table_indexes ) ) {
 			foreach ( $table_indexes as $index ) {
-				$unique  = $index['unique'] ? 'UNIQUE' : '';
-				$output .= sprintf(
-					"  - %-30s [%s] %s %s\n",
+				$unique      = $index['unique'] ? 'UNIQUE' : '';
+				$cardinality = isset( $index['cardinality'] ) ? 'cardinality=' . $index['cardinality'] : '';
+				$output     .= sprintf(
+					"  - %-30s [%s] %s %s %s\n",
 					$index['name'],
 					$index['type'],
-					$index['column'],
-					$unique
+					simple_sql_query_analyzer_format_index_column( $index ),
+					$unique,
+					$cardinality
 				);
 			}
 		} else {